@@ -0,0 +1,334 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useSession } from "next-auth/react";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { LineChart } from "@/components/line-chart";
+
+interface EquityCandle {
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+interface DrawdownPoint {
+  timestamp: number;
+  equity: number;
+  peak: number;
+  drawdown: number;
+  drawdownPercent: number;
+}
+
+interface ExposurePoint {
+  timestamp: number;
+  unrealizedPnL: number;
+  longNotional: number;
+  shortNotional: number;
+  netNotional: number;
+  netContracts: number;
+}
+
+interface EquityChange {
+  from: number | null;
+  to: number | null;
+  change: number | null;
+  changePercent: number | null;
+}
+
+interface AccountHistory {
+  accountId: string;
+  accountName: string;
+  exchange: string;
+  symbol: string | null;
+  from: number;
+  to: number;
+  resolution: number;
+  equity: EquityCandle[];
+  drawdown: DrawdownPoint[];
+  maxDrawdown: DrawdownPoint | null;
+  changes: Record<string, EquityChange>;
+  exposure: ExposurePoint[];
+}
+
+const RANGES = [
+  { label: "12h", ms: 12 * 60 * 60 * 1000 },
+  { label: "24h", ms: 24 * 60 * 60 * 1000 },
+  { label: "7d", ms: 7 * 24 * 60 * 60 * 1000 },
+  { label: "30d", ms: 30 * 24 * 60 * 60 * 1000 },
+];
+
+const formatUsd = (value: number) =>
+  `${value < 0 ? "-" : ""}$${Math.abs(value).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const formatSignedUsd = (value: number) =>
+  `${value > 0 ? "+" : ""}${formatUsd(value)}`;
+
+const formatPercent = (value: number) => `${value.toFixed(2)}%`;
+
+export default function AccountDetailPage() {
+  const { status } = useSession();
+  const router = useRouter();
+  const params = useParams<{ id: string }>();
+  const accountId = params.id;
+  const [rangeMs, setRangeMs] = useState(RANGES[1].ms);
+  const [history, setHistory] = useState<AccountHistory | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      router.push("/login");
+    }
+  }, [status, router]);
+
+  const fetchHistory = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const to = Date.now();
+      const from = to - rangeMs;
+      const response = await fetch(
+        `/api/account-history?accountId=${accountId}&from=${from}&to=${to}`
+      );
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to fetch account history");
+      }
+
+      setHistory(result);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (status === "authenticated" && accountId) {
+      fetchHistory();
+    }
+  }, [status, accountId, rangeMs]);
+
+  if (status === "loading") {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        Loading...
+      </div>
+    );
+  }
+
+  const latestEquity = history?.equity[history.equity.length - 1]?.close ?? null;
+  const latestExposure = history?.exposure[history.exposure.length - 1] ?? null;
+  const currentDrawdown = history?.drawdown[history.drawdown.length - 1] ?? null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-7xl mx-auto p-4 lg:p-8 space-y-6">
+        <div className="flex justify-between items-center gap-4">
+          <div className="min-w-0">
+            <Link href="/" className="text-sm text-muted-foreground hover:underline">
+              ← Back to dashboard
+            </Link>
+            <h1 className="text-2xl lg:text-3xl font-bold truncate mt-1">
+              {history?.accountName || accountId}
+            </h1>
+            {history && (
+              <div className="flex items-center gap-2 mt-1">
+                {history.symbol && (
+                  <span className="text-sm font-semibold">{history.symbol}</span>
+                )}
+                <Badge variant="secondary" className="text-xs">
+                  {history.exchange}
+                </Badge>
+              </div>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            {RANGES.map((range) => (
+              <Button
+                key={range.label}
+                size="sm"
+                variant={range.ms === rangeMs ? "default" : "outline"}
+                onClick={() => setRangeMs(range.ms)}
+              >
+                {range.label}
+              </Button>
+            ))}
+            <Button size="sm" variant="outline" onClick={fetchHistory} disabled={loading}>
+              {loading ? "Loading..." : "Refresh"}
+            </Button>
+            <ThemeToggle />
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-destructive/10 border border-destructive/20 text-destructive p-4 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {history && (
+          <>
+            <div className="bg-muted/50 rounded-lg p-4 border">
+              <div className="flex flex-wrap gap-6">
+                <div className="flex-1 min-w-[120px]">
+                  <div className="text-xs text-muted-foreground mb-1.5">Equity</div>
+                  <div className="text-xl font-bold">
+                    {latestEquity !== null ? formatUsd(latestEquity) : "-"}
+                  </div>
+                </div>
+                {(["1h", "24h", "7d", "30d"] as const).map((window) => {
+                  const change = history.changes[window];
+                  return (
+                    <div key={window} className="flex-1 min-w-[120px]">
+                      <div className="text-xs text-muted-foreground mb-1.5">
+                        {window} Change
+                      </div>
+                      {change?.change !== null && change?.change !== undefined ? (
+                        <div
+                          className={`text-xl font-bold ${
+                            change.change >= 0 ? "text-green-600" : "text-red-600"
+                          }`}
+                        >
+                          {formatSignedUsd(change.change)}
+                          {change.changePercent !== null && (
+                            <span className="text-xs font-medium ml-1">
+                              ({formatPercent(change.changePercent)})
+                            </span>
+                          )}
+                        </div>
+                      ) : (
+                        <div className="text-xl font-bold text-muted-foreground">-</div>
+                      )}
+                    </div>
+                  );
+                })}
+                <div className="flex-1 min-w-[120px]">
+                  <div className="text-xs text-muted-foreground mb-1.5">
+                    Max Drawdown
+                  </div>
+                  <div className="text-xl font-bold text-red-600">
+                    {history.maxDrawdown
+                      ? formatPercent(history.maxDrawdown.drawdownPercent)
+                      : "-"}
+                  </div>
+                  {currentDrawdown && (
+                    <div className="text-xs text-muted-foreground mt-1">
+                      Now {formatPercent(currentDrawdown.drawdownPercent)}
+                    </div>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base">Equity Curve</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <LineChart
+                    points={history.equity.map((c) => ({
+                      timestamp: c.timestamp,
+                      value: c.close,
+                    }))}
+                    formatValue={formatUsd}
+                    color="#3b82f6"
+                    area
+                  />
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base">Drawdown</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <LineChart
+                    points={history.drawdown.map((d) => ({
+                      timestamp: d.timestamp,
+                      value: d.drawdownPercent,
+                    }))}
+                    formatValue={formatPercent}
+                    color="#ef4444"
+                    area
+                    zeroBaseline
+                  />
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader className="pb-2">
+                  <div className="flex justify-between items-center">
+                    <CardTitle className="text-base">Unrealized PnL</CardTitle>
+                    {latestExposure && (
+                      <span
+                        className={`text-sm font-semibold ${
+                          latestExposure.unrealizedPnL >= 0
+                            ? "text-green-600"
+                            : "text-red-600"
+                        }`}
+                      >
+                        {formatSignedUsd(latestExposure.unrealizedPnL)}
+                      </span>
+                    )}
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <LineChart
+                    points={history.exposure.map((e) => ({
+                      timestamp: e.timestamp,
+                      value: e.unrealizedPnL,
+                    }))}
+                    formatValue={formatSignedUsd}
+                    color="#a855f7"
+                    area
+                    zeroBaseline
+                  />
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader className="pb-2">
+                  <div className="flex justify-between items-center">
+                    <CardTitle className="text-base">Net Position Size</CardTitle>
+                    {latestExposure && (
+                      <span className="text-sm text-muted-foreground">
+                        Long {formatUsd(latestExposure.longNotional)} / Short{" "}
+                        {formatUsd(latestExposure.shortNotional)}
+                      </span>
+                    )}
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <LineChart
+                    points={history.exposure.map((e) => ({
+                      timestamp: e.timestamp,
+                      value: e.netNotional,
+                    }))}
+                    formatValue={formatSignedUsd}
+                    color="#f59e0b"
+                    area
+                    zeroBaseline
+                  />
+                </CardContent>
+              </Card>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { fetchItems } from "@/lib/directus";
+import { resolveExchange, type ExchangeAccount } from "@/lib/exchange";
+import { getEquityHistory, getPositionsHistory } from "@/lib/redis";
+import {
+  computeDrawdown,
+  downsampleEquity,
+  getEquityChanges,
+  getMaxDrawdown,
+  parseResolution,
+  summarizeExposure,
+} from "@/lib/equity";
+
+const DEFAULT_RANGE_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+/**
+ * Snapshot history for one account: equity curve, underwater drawdown,
+ * unrealized PnL and position size, all bucketed to the same resolution
+ */
+export async function GET(request: Request) {
+  try {
+    const { session, error: authError } = await requireRole("viewer");
+
+    if (!session) {
+      return authError;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const accountId = searchParams.get("accountId");
+    const symbol = searchParams.get("symbol") || undefined;
+    const to = searchParams.get("to") ? parseInt(searchParams.get("to")!) : Date.now();
+    const from = searchParams.get("from")
+      ? parseInt(searchParams.get("from")!)
+      : to - DEFAULT_RANGE_MS;
+
+    if (!accountId) {
+      return NextResponse.json(
+        { error: "accountId is required" },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(from) || isNaN(to) || from >= to) {
+      return NextResponse.json(
+        { error: "from and to must be timestamps in ms with from < to" },
+        { status: 400 }
+      );
+    }
+
+    const resolutionMs = parseResolution(searchParams.get("resolution"), from, to);
+    if (!resolutionMs) {
+      return NextResponse.json(
+        { error: "resolution must be one of 10m, 30m, 1h, 4h, 1d or a number of ms (>= 60000)" },
+        { status: 400 }
+      );
+    }
+
+    const account = await fetchItems<ExchangeAccount>("trading_accounts", {
+      filter: { id: { _eq: accountId } },
+      limit: 1,
+      fields: ["id", "name", "exchange", "symbol", "status"],
+    });
+
+    if (!account) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 });
+    }
+
+    const exchange = resolveExchange(account);
+
+    const [points, positionSnapshots, changes] = await Promise.all([
+      getEquityHistory(account.id, from, to),
+      getPositionsHistory(account.id, from, to, resolutionMs),
+      getEquityChanges(account.id),
+    ]);
+
+    const equity = downsampleEquity(points, resolutionMs);
+    const drawdown = computeDrawdown(equity);
+
+    return NextResponse.json({
+      timestamp: new Date().toISOString(),
+      accountId: account.id,
+      accountName: account.name || account.id,
+      exchange,
+      symbol: symbol || account.symbol || null,
+      status: account.status,
+      from,
+      to,
+      resolution: resolutionMs,
+      equity,
+      drawdown,
+      maxDrawdown: getMaxDrawdown(drawdown),
+      changes,
+      exposure: summarizeExposure(exchange, positionSnapshots, symbol),
+    });
+  } catch (error: any) {
+    console.error("Error fetching account history:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch account history" },
+      { status: 500 }
+    );
+  }
+}
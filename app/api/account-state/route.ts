@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { fetchItems } from "@/lib/directus";
+import { resolveExchange, type ExchangeAccount } from "@/lib/exchange";
+import {
+  batchGetAccountStates,
+  getAccountStateHistory,
+  getTrackedStateSymbols,
+} from "@/lib/redis";
+import { toCanonicalSymbol } from "@/lib/symbols";
+
+const DEFAULT_RANGE_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+/**
+ * The bot's mmgrid state for one account and symbol: the live state, when it
+ * was last written, whether it went stale, and the recorded state changes
+ */
+export async function GET(request: Request) {
+  try {
+    const { session, error: authError } = await requireRole("viewer");
+
+    if (!session) {
+      return authError;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const accountId = searchParams.get("accountId");
+    const symbolParam = searchParams.get("symbol");
+    const to = searchParams.get("to") ? parseInt(searchParams.get("to")!) : Date.now();
+    const from = searchParams.get("from")
+      ? parseInt(searchParams.get("from")!)
+      : to - DEFAULT_RANGE_MS;
+
+    if (!accountId || !symbolParam) {
+      return NextResponse.json(
+        { error: "Missing accountId or symbol" },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(from) || isNaN(to) || from >= to) {
+      return NextResponse.json(
+        { error: "from and to must be timestamps in ms with from < to" },
+        { status: 400 }
+      );
+    }
+
+    const account = await fetchItems<ExchangeAccount>("trading_accounts", {
+      filter: { id: { _eq: accountId } },
+      limit: 1,
+      fields: ["id", "exchange"],
+    });
+
+    if (!account) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 });
+    }
+
+    const exchange = resolveExchange(account);
+    const symbol = toCanonicalSymbol(symbolParam);
+
+    const [states, trackedSymbols, history] = await Promise.all([
+      batchGetAccountStates(accountId, [symbol], exchange),
+      getTrackedStateSymbols(accountId, exchange),
+      getAccountStateHistory(accountId, symbol, from, to, exchange),
+    ]);
+
+    const current = states.get(symbol) || { state: null, updatedAt: null };
+    const stale = !current.state && trackedSymbols.includes(symbol);
+    // The cron writes a null point on the first run after the key expired
+    const latest = history[history.length - 1];
+
+    return NextResponse.json({
+      timestamp: Date.now(),
+      accountId,
+      exchange,
+      symbol,
+      from,
+      to,
+      ...current,
+      stale,
+      staleSince: stale && latest?.state === null ? latest.timestamp : null,
+      history,
+    });
+  } catch (error: any) {
+    console.error("Error fetching account state:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch account state" },
+      { status: 500 }
+    );
+  }
+}
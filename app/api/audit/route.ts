@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { AUDIT_ACTIONS, toAuditCsv } from "@/lib/audit";
+import { getAuditEntries, getAuditUsers, type AuditEntry } from "@/lib/redis";
+
+const DEFAULT_RANGE_MS = 7 * 24 * 60 * 60 * 1000;
+const DEFAULT_LIMIT = 500;
+const MAX_LIMIT = 5000;
+
+/**
+ * List audit entries, newest first, one page at a time
+ * Query: from, to (ms, default last 7 days), user, accountId, action, limit,
+ * cursor (nextCursor of the previous page; send the same from/to with it)
+ * With format=csv every matching entry in the range is returned as a CSV download
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { session, error: authError } = await requireRole("admin");
+
+    if (!session) {
+      return authError;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const to = searchParams.get("to") ? Number(searchParams.get("to")) : Date.now();
+    const from = searchParams.get("from")
+      ? Number(searchParams.get("from"))
+      : to - DEFAULT_RANGE_MS;
+    const limit = Math.min(Number(searchParams.get("limit")) || DEFAULT_LIMIT, MAX_LIMIT);
+    const action = searchParams.get("action") || undefined;
+    const cursor = searchParams.get("cursor") ? Number(searchParams.get("cursor")) : undefined;
+
+    if (!Number.isFinite(from) || !Number.isFinite(to) || from > to) {
+      return NextResponse.json({ error: "Invalid from/to range" }, { status: 400 });
+    }
+
+    if (cursor !== undefined && (!Number.isInteger(cursor) || cursor < 0)) {
+      return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+    }
+
+    if (action && !(AUDIT_ACTIONS as readonly string[]).includes(action)) {
+      return NextResponse.json(
+        { error: `Unknown action "${action}" (expected ${AUDIT_ACTIONS.join(", ")})` },
+        { status: 400 }
+      );
+    }
+
+    const query = {
+      from,
+      to,
+      user: searchParams.get("user") || undefined,
+      accountId: searchParams.get("accountId") || undefined,
+      action,
+    };
+
+    if (searchParams.get("format") === "csv") {
+      const entries: AuditEntry[] = [];
+      let nextCursor: number | null = 0;
+      while (nextCursor !== null) {
+        const page = await getAuditEntries({ ...query, limit: MAX_LIMIT, cursor: nextCursor });
+        entries.push(...page.entries);
+        nextCursor = page.nextCursor;
+      }
+
+      return new Response(toAuditCsv(entries), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="audit-${new Date(from).toISOString().slice(0, 10)}-${new Date(to).toISOString().slice(0, 10)}.csv"`,
+        },
+      });
+    }
+
+    const [page, users] = await Promise.all([
+      getAuditEntries({ ...query, limit, cursor }),
+      getAuditUsers(),
+    ]);
+
+    return NextResponse.json({
+      from,
+      to,
+      entries: page.entries,
+      nextCursor: page.nextCursor,
+      actions: AUDIT_ACTIONS,
+      users,
+    });
+  } catch (error: any) {
+    console.error("Error fetching audit log:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch audit log" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { fetchItems } from "@/lib/directus";
+import { resolveExchange, type ExchangeAccount } from "@/lib/exchange";
+import { getBotControl } from "@/lib/redis";
+import { toCanonicalSymbol } from "@/lib/symbols";
+
+/**
+ * Read the bot control flags of an account and symbol
+ * Query: accountId, symbol
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { session, error: authError } = await requireRole("viewer");
+
+    if (!session) {
+      return authError;
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const accountId = searchParams.get("accountId");
+    const symbolParam = searchParams.get("symbol");
+
+    if (!accountId || !symbolParam) {
+      return NextResponse.json(
+        { error: "Missing accountId or symbol" },
+        { status: 400 }
+      );
+    }
+
+    const account = await fetchItems<ExchangeAccount>("trading_accounts", {
+      filter: { id: { _eq: accountId } },
+      limit: 1,
+      fields: ["id", "exchange"],
+    });
+
+    if (!account) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 });
+    }
+
+    const exchange = resolveExchange(account);
+    const symbol = toCanonicalSymbol(symbolParam);
+
+    return NextResponse.json({
+      timestamp: Date.now(),
+      accountId,
+      exchange,
+      symbol,
+      control: await getBotControl(accountId, symbol, exchange),
+    });
+  } catch (error: any) {
+    console.error("Error fetching bot control:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch bot control" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,81 +1,122 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { requireRole } from "@/lib/auth";
+import { withAudit } from "@/lib/audit";
 import { fetchItems } from "@/lib/directus";
-import { OKXClient } from "@/lib/okx";
-
-export async function POST(request: NextRequest) {
+import { createExchangeClient, type ExchangeAccount, type Order } from "@/lib/exchange";
+import { toCanonicalSymbol } from "@/lib/symbols";
+import { cancelOrderAction } from "@/lib/actions";
+
+/**
+ * Cancel every open order of an account for one symbol, or for all symbols
+ * with `symbol: "all"`. Orders are cancelled with the venue's batch endpoint,
+ * one batch set per symbol, and each order's outcome is returned; the
+ * status is 422 when there were orders and none of them was cancelled.
+ * With `dryRun: true` the open orders are returned as planned cancellations.
+ */
+async function handlePost(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
+    const { session, error: authError } = await requireRole("trader");
 
     if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      return authError;
     }
 
-    const { accountId } = await request.json();
+    const { accountId, symbol, dryRun } = await request.json();
 
     if (!accountId) {
       return NextResponse.json({ error: "Missing accountId" }, { status: 400 });
     }
 
-    const accounts = await fetchItems("trading_accounts", {
+    if (!symbol) {
+      return NextResponse.json(
+        { error: 'Missing symbol (use "all" to cancel orders for every symbol)' },
+        { status: 400 }
+      );
+    }
+
+    const account = await fetchItems<ExchangeAccount>("trading_accounts", {
       filter: { id: { _eq: accountId } },
+      limit: 1,
       fields: ["*"],
     });
 
-    if (!accounts || (Array.isArray(accounts) && accounts.length === 0)) {
+    if (!account) {
       return NextResponse.json({ error: "Account not found" }, { status: 404 });
     }
 
-    const account = Array.isArray(accounts) ? accounts[0] : accounts;
-
-    const apiKey = account.api_key || process.env.OKX_API_KEY;
-    const apiSecret = account.api_secret || process.env.OKX_API_SECRET;
-    const passphrase = account.api_passphrase || process.env.OKX_PASSPHRASE;
-
-    if (!apiKey || !apiSecret || !passphrase) {
-      return NextResponse.json(
-        { error: "Missing API credentials" },
-        { status: 500 }
-      );
-    }
-
-    const okx = new OKXClient(apiKey, apiSecret, passphrase);
+    const client = createExchangeClient(account);
+    const scope = symbol === "all" ? "all" : toCanonicalSymbol(symbol);
 
-    const ordersResponse = await okx.getPendingOrders("SWAP", account.symbol);
-    const orders = ordersResponse.code === "0" ? ordersResponse.data : [];
+    const orders = await client.fetchOpenOrders(scope === "all" ? undefined : scope);
 
     if (orders.length === 0) {
       return NextResponse.json({
         success: true,
         message: "No orders to cancel",
+        dryRun: !!dryRun,
+        actions: dryRun ? [] : undefined,
+        exchange: client.exchange,
+        symbol: scope,
         cancelledCount: 0,
+        totalOrders: 0,
+        results: [],
       });
     }
 
-    let cancelledCount = 0;
-    for (const order of orders) {
-      try {
-        const response = await okx.cancelOrder(order.instId, order.ordId);
-
-        if (response.code === "0") {
-          cancelledCount++;
-        }
+    if (dryRun) {
+      return NextResponse.json({
+        success: true,
+        dryRun: true,
+        exchange: client.exchange,
+        symbol: scope,
+        totalOrders: orders.length,
+        actions: orders.map((order) => cancelOrderAction(client.exchange, order)),
+      });
+    }
 
-        await new Promise((resolve) => setTimeout(resolve, 100));
-      } catch (error) {
-        console.error("Error cancelling order:", error);
-      }
+    const bySymbol = new Map<string, Order[]>();
+    for (const order of orders) {
+      bySymbol.set(order.symbol, [...(bySymbol.get(order.symbol) || []), order]);
     }
 
-    return NextResponse.json({
-      success: true,
-      message: `Cancelled ${cancelledCount} of ${orders.length} orders`,
-      cancelledCount,
-      totalOrders: orders.length,
-    });
+    const batches = await Promise.all(
+      Array.from(bySymbol.entries()).map(async ([orderSymbol, symbolOrders]) => {
+        const responses = await client.cancelOpenOrders(
+          orderSymbol,
+          symbolOrders.map((order) => order.orderId)
+        );
+
+        return symbolOrders.map((order, idx) => ({
+          symbol: orderSymbol,
+          orderId: order.orderId,
+          side: order.side,
+          price: order.price,
+          size: order.size,
+          success: responses[idx].success,
+          error: responses[idx].error,
+        }));
+      })
+    );
+
+    const results = batches.flat();
+    const cancelledCount = results.filter((r) => r.success).length;
+
+    return NextResponse.json(
+      {
+        success: cancelledCount > 0,
+        message: `Cancelled ${cancelledCount} of ${orders.length} orders`,
+        exchange: client.exchange,
+        symbol: scope,
+        cancelledCount,
+        totalOrders: orders.length,
+        results,
+      },
+      { status: cancelledCount > 0 ? 200 : 422 }
+    );
   } catch (error: any) {
     console.error("Error cancelling all orders:", error);
     return NextResponse.json({ error: error.message }, { status: 500 });
   }
 }
+
+export const POST = withAudit("cancel-all-orders", handlePost);
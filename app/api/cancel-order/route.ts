@@ -1,18 +1,24 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { requireRole } from "@/lib/auth";
+import { withAudit } from "@/lib/audit";
 import { fetchItems } from "@/lib/directus";
-import { OKXClient } from "@/lib/okx";
+import { createExchangeClient, type ExchangeAccount } from "@/lib/exchange";
+import { cancelOrderAction } from "@/lib/actions";
 
-export async function POST(request: NextRequest) {
+/**
+ * Cancel one open order
+ * With `dryRun: true` the order is looked up among the open orders and
+ * returned as the planned action without being cancelled.
+ */
+async function handlePost(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
+    const { session, error: authError } = await requireRole("trader");
 
     if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      return authError;
     }
 
-    const { accountId, orderId, instId } = await request.json();
+    const { accountId, orderId, instId, dryRun } = await request.json();
 
     if (!accountId || !orderId || !instId) {
       return NextResponse.json(
@@ -21,7 +27,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const accounts = await fetchItems("trading_accounts", {
+    const accounts = await fetchItems<ExchangeAccount[]>("trading_accounts", {
       filter: { id: { _eq: accountId } },
       fields: ["*"],
     });
@@ -32,28 +38,37 @@ export async function POST(request: NextRequest) {
 
     const account = Array.isArray(accounts) ? accounts[0] : accounts;
 
-    const apiKey = account.api_key || process.env.OKX_API_KEY;
-    const apiSecret = account.api_secret || process.env.OKX_API_SECRET;
-    const passphrase = account.api_passphrase || process.env.OKX_PASSPHRASE;
+    const client = createExchangeClient(account);
 
-    if (!apiKey || !apiSecret || !passphrase) {
-      return NextResponse.json(
-        { error: "Missing API credentials" },
-        { status: 500 }
-      );
+    if (dryRun) {
+      const orders = await client.fetchOpenOrders(instId);
+      const order = orders.find((o) => o.orderId === String(orderId));
+
+      if (!order) {
+        return NextResponse.json(
+          { error: `Order ${orderId} is not open on ${client.exchange}` },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        dryRun: true,
+        exchange: client.exchange,
+        actions: [cancelOrderAction(client.exchange, order)],
+      });
     }
 
-    const okx = new OKXClient(apiKey, apiSecret, passphrase);
-    const response = await okx.cancelOrder(instId, orderId);
+    const response = await client.cancelOpenOrder(instId, orderId);
 
-    if (response.code === "0") {
+    if (response.success) {
       return NextResponse.json({
         success: true,
         message: "Order cancelled successfully",
       });
     } else {
       return NextResponse.json(
-        { success: false, error: response.msg },
+        { success: false, error: response.error },
         { status: 500 }
       );
     }
@@ -62,3 +77,5 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: error.message }, { status: 500 });
   }
 }
+
+export const POST = withAudit("cancel-order", handlePost);
@@ -1,235 +1,200 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { requireRole } from "@/lib/auth";
+import { withAudit } from "@/lib/audit";
+import {
+  deriveClientOrderId,
+  getIdempotencyKey,
+  withIdempotency,
+  type IdempotencyContext,
+} from "@/lib/idempotency";
 import { fetchItems } from "@/lib/directus";
-import { OKXClient } from "@/lib/okx";
-import { AsterdexClient } from "@/lib/asterdex";
-
-export async function POST(request: NextRequest) {
+import {
+  createExchangeClient,
+  findPlacedOrder,
+  isTransportError,
+  type ExchangeAccount,
+  type OrderRequest,
+} from "@/lib/exchange";
+import { placeOrderAction, type PlannedAction } from "@/lib/actions";
+import { getMidPrice } from "@/lib/redis";
+import { parseCloseSpec, planClose } from "@/lib/orders";
+import { getInstrument, toCanonicalSymbol, toVenueSymbol } from "@/lib/symbols";
+
+/**
+ * Close positions for a symbol by percentage, quantity (contracts) or USD notional
+ * Sizes follow the instrument's lot rules (AsterDex LOT_SIZE/MARKET_LOT_SIZE,
+ * OKX lotSz/maxMktSz). mode "limit_ioc" sends an immediate-or-cancel limit at
+ * the maxSlippagePercent cap instead of a market order.
+ * With `dryRun: true` the orders are sized but not sent; `actions` lists them.
+ * An Idempotency-Key header makes retries return the first result; each order's
+ * client order ID is derived from the key and the position side. 422 when every
+ * order was rejected (replayed like any result); 502 when a venue request got
+ * no answer. A retry after a 502 looks each order up by its client order ID
+ * first and skips the positions whose close order the venue already has.
+ */
+async function handlePost(request: NextRequest, { resumed }: IdempotencyContext) {
   try {
-    const session = await getServerSession(authOptions);
+    const { session, error: authError } = await requireRole("trader");
 
     if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      return authError;
     }
 
-    const { accountId, percentage, symbol } = await request.json();
+    const body = await request.json();
+    const { accountId, dryRun } = body;
 
-    if (!accountId || !percentage) {
-      return NextResponse.json(
-        { error: "Missing accountId or percentage" },
-        { status: 400 }
-      );
+    if (!accountId) {
+      return NextResponse.json({ error: "Missing accountId" }, { status: 400 });
     }
 
-    if (!symbol) {
+    if (!body.symbol) {
       return NextResponse.json(
         { error: "Missing symbol" },
         { status: 400 }
       );
     }
 
-    if (percentage < 10 || percentage > 100) {
-      return NextResponse.json(
-        { error: "Percentage must be between 10 and 100" },
-        { status: 400 }
-      );
+    const { spec, error: specError } = parseCloseSpec(body);
+    if (!spec) {
+      return NextResponse.json({ error: specError }, { status: 400 });
     }
 
-    const accounts = await fetchItems("trading_accounts", {
+    const account = await fetchItems<ExchangeAccount>("trading_accounts", {
       filter: { id: { _eq: accountId } },
+      limit: 1,
       fields: ["*"],
     });
 
-    if (!accounts || (Array.isArray(accounts) && accounts.length === 0)) {
+    if (!account) {
       return NextResponse.json({ error: "Account not found" }, { status: 404 });
     }
 
-    const account = Array.isArray(accounts) ? accounts[0] : accounts;
-
-    const exchange = account.exchange || "okx";
-    const apiKey = account.api_key || process.env.OKX_API_KEY;
-    const apiSecret = account.api_secret || process.env.OKX_API_SECRET;
-    const passphrase = account.api_passphrase || process.env.OKX_PASSPHRASE;
-
-    // Validate credentials based on exchange type
-    if (exchange === "asterdex") {
-      if (!apiKey || !apiSecret) {
-        return NextResponse.json(
-          { error: "Missing API credentials for Asterdex (API Key and Secret required)" },
-          { status: 500 }
-        );
-      }
-
-      const asterdex = new AsterdexClient(apiKey, apiSecret, true);
-
-      const positionsResponse = await asterdex.getPositions(symbol);
-      const positions = Array.isArray(positionsResponse)
-        ? positionsResponse
-        : positionsResponse?.data || [];
-      const activePositions = positions.filter(
-        (pos: any) => (pos.symbol || pos.s) === symbol && Math.abs(Number(pos.positionAmt || pos.pa || 0)) > 0
-      );
-
-      if (activePositions.length === 0) {
-        return NextResponse.json({
-          success: true,
-          message: "No positions to close",
-          results: [],
-        });
-      }
-
-      const results = [];
-      for (const position of activePositions) {
-        try {
-          const posSize = Number(position.positionAmt || position.pa || 0);
-          const absSize = Math.abs(posSize);
-          const closeSize = (absSize * percentage) / 100;
-
-          const closeSide = posSize > 0 ? "SELL" : "BUY";
-
-          const orderData = {
-            symbol: symbol,
-            side: closeSide,
-            type: "MARKET",
-            quantity: closeSize.toFixed(2),
-          };
-
-          const response = await asterdex.placeOrder(orderData);
+    const client = createExchangeClient(account);
+    const symbol = toCanonicalSymbol(body.symbol);
 
-          // Check if order was successful
-          const isSuccess = response.orderId || response.clientOrderId || response.i;
-
-          results.push({
-            symbol: symbol,
-            success: !!isSuccess,
-            orderId: response.orderId || response.clientOrderId || response.i,
-            closeSize,
-            percentage,
-            error: !isSuccess ? (response.msg || response.message || "Unknown error") : undefined,
-          });
-        } catch (error: any) {
-          console.error(`[Asterdex] Error closing position:`, error);
-          console.error(`[Asterdex] Error details:`, {
-            message: error.message,
-            response: error.response?.data,
-            status: error.response?.status,
-          });
-
-          results.push({
-            symbol: symbol,
-            success: false,
-            error: error.response?.data?.msg || error.response?.data?.message || error.message,
-            closeSize: 0,
-            percentage,
-          });
-        }
-      }
-
-      const successCount = results.filter(r => r.success).length;
-      const hasAnySuccess = successCount > 0;
-
-      return NextResponse.json({
-        success: hasAnySuccess,
-        successCount,
-        totalCount: results.length,
-        results
-      });
-    }
-
-    // OKX exchange
-    if (!apiKey || !apiSecret || !passphrase) {
-      return NextResponse.json(
-        { error: "Missing API credentials for OKX (API Key, Secret, and Passphrase required)" },
-        { status: 500 }
-      );
-    }
-
-    const okx = new OKXClient(apiKey, apiSecret, passphrase);
-
-    const positionsResponse = await okx.getPositions("SWAP");
-
-    // Convert symbol to OKX format if needed (BTCUSDT -> BTC-USDT-SWAP)
-    let okxSymbol = symbol;
-    if (!symbol.includes("-") && symbol.endsWith("USDT")) {
-      const baseAsset = symbol.replace("USDT", "");
-      okxSymbol = `${baseAsset}-USDT-SWAP`;
-    }
-
-    const positions = positionsResponse.data.filter(
-      (pos: any) =>
-        pos.instId === okxSymbol && Math.abs(Number(pos.pos)) > 0
-    );
+    const positions = await client.fetchPositions(symbol);
 
     if (positions.length === 0) {
       return NextResponse.json({
         success: true,
         message: "No positions to close",
+        dryRun: !!dryRun,
+        actions: dryRun ? [] : undefined,
         results: [],
       });
     }
 
-    const instrumentResponse = await okx.getInstrumentInfo(okxSymbol);
-    const lotSz =
-      instrumentResponse.code === "0" && instrumentResponse.data.length > 0
-        ? parseFloat(instrumentResponse.data[0].lotSz)
-        : 1;
+    const [instrument, midPrice] = await Promise.all([
+      getInstrument(client, symbol),
+      getMidPrice(client.exchange, toVenueSymbol(symbol, client.exchange)),
+    ]);
 
+    if (!instrument) {
+      return NextResponse.json(
+        { error: `Unknown instrument ${symbol} on ${client.exchange}` },
+        { status: 400 }
+      );
+    }
+
+    const idempotencyKey = getIdempotencyKey(request);
     const results = [];
+    const actions: PlannedAction[] = [];
+    let transportFailed = false;
     for (const position of positions) {
+      const referencePrice = midPrice ?? position.markPrice ?? position.avgPrice;
+
+      const clientOrderId = idempotencyKey
+        ? deriveClientOrderId(idempotencyKey, position.symbol, position.posSide)
+        : undefined;
+
       try {
-        const posSize = Number(position.pos);
-        const absSize = Math.abs(posSize);
-        const rawCloseSize = (absSize * percentage) / 100;
+        // Checked before sizing: the live position already includes the fill
+        const placed = await findPlacedOrder(client, position.symbol, clientOrderId, resumed);
+        if (placed) {
+          results.push({
+            symbol: position.symbol,
+            success: true,
+            orderId: placed.orderId,
+            clientOrderId,
+            error: null,
+            closeSize: placed.size,
+            price: placed.price ?? undefined,
+            mode: spec.mode,
+            warnings: [`Close order was already placed by an earlier attempt (${placed.status})`],
+          });
+          continue;
+        }
 
-        const closeSize = Math.floor(rawCloseSize / lotSz) * lotSz;
+        const { plan, error: planError } = planClose(position, instrument, spec, referencePrice);
 
-        if (closeSize < lotSz) {
+        if (!plan) {
           results.push({
-            symbol: position.instId,
+            symbol: position.symbol,
             success: false,
-            error: `Close size ${closeSize} is less than minimum lot size ${lotSz}`,
+            error: planError,
             closeSize: 0,
-            percentage,
+            mode: spec.mode,
           });
           continue;
         }
 
-        const closeSide = posSize > 0 ? "sell" : "buy";
-
-        const orderData: any = {
-          instId: position.instId,
-          tdMode: position.mgnMode || "cross",
-          side: closeSide,
-          ordType: "market",
-          sz: closeSize.toString(),
+        const order: OrderRequest = {
+          symbol: position.symbol,
+          side: plan.side,
+          type: spec.mode === "market" ? "market" : "limit",
+          size: plan.size,
+          price: plan.price,
+          ioc: spec.mode === "limit_ioc",
+          reduceOnly: plan.reduceOnly,
+          marginMode: position.marginMode,
+          posSide: position.posSide,
+          clientOrderId,
         };
 
-        if (position.posSide && position.posSide !== "net") {
-          orderData.posSide = position.posSide;
+        if (dryRun) {
+          actions.push(placeOrderAction(client.exchange, order));
+          results.push({
+            symbol: position.symbol,
+            success: true,
+            orderId: null,
+            error: null,
+            closeSize: plan.size,
+            price: plan.price,
+            mode: spec.mode,
+            warnings: plan.warnings,
+          });
+          continue;
         }
 
-        const response = await okx.placeOrder(orderData);
+        const response = await client.submitOrder(order);
 
         results.push({
-          symbol: position.instId,
-          success: response.code === "0",
-          orderId: response.code === "0" ? response.data[0].ordId : null,
-          error: response.code !== "0" ? response.msg : null,
-          closeSize,
-          percentage,
+          symbol: position.symbol,
+          success: response.success,
+          orderId: response.orderId,
+          clientOrderId: order.clientOrderId ?? null,
+          error: response.error,
+          closeSize: plan.size,
+          price: plan.price,
+          mode: spec.mode,
+          warnings: plan.warnings,
         });
 
         if (positions.length > 1) {
           await new Promise((resolve) => setTimeout(resolve, 500));
         }
       } catch (error: any) {
+        console.error(`[${client.exchange}] Error closing position:`, error);
+        transportFailed ||= isTransportError(error);
         results.push({
-          symbol: position.instId,
+          symbol: position.symbol,
           success: false,
-          error: error.message,
+          error:
+            error.response?.data?.msg ||
+            error.response?.data?.message ||
+            error.message,
           closeSize: 0,
-          percentage,
+          mode: spec.mode,
         });
       }
     }
@@ -237,14 +202,33 @@ export async function POST(request: NextRequest) {
     const successCount = results.filter(r => r.success).length;
     const hasAnySuccess = successCount > 0;
 
-    return NextResponse.json({
-      success: hasAnySuccess,
-      successCount,
-      totalCount: results.length,
-      results
-    });
+    if (dryRun) {
+      return NextResponse.json({
+        success: true,
+        dryRun: true,
+        exchange: client.exchange,
+        successCount,
+        totalCount: results.length,
+        ...spec,
+        actions,
+        results,
+      });
+    }
+
+    return NextResponse.json(
+      {
+        success: hasAnySuccess,
+        successCount,
+        totalCount: results.length,
+        ...spec,
+        results,
+      },
+      { status: transportFailed ? 502 : hasAnySuccess ? 200 : 422 }
+    );
   } catch (error: any) {
     console.error("Error closing position:", error);
     return NextResponse.json({ error: error.message }, { status: 500 });
   }
 }
+
+export const POST = withAudit("close-position", withIdempotency("close-position", handlePost));
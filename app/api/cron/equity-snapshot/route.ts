@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  isAuthorizedCronRequest,
+  runForActiveAccounts,
+  summarizeCronResults,
+} from "@/lib/cron";
+import { storeEquitySnapshot, storeAccountBalance } from "@/lib/redis";
+
+/**
+ * Collect account equity for the 24h comparison and the latest balance card data
+ * Schedule: every 10 minutes (see vercel.json)
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const results = await runForActiveAccounts(async (account, client) => {
+      const balance = await client.fetchBalance();
+
+      await Promise.all([
+        storeEquitySnapshot(account.id, balance.equity),
+        storeAccountBalance(account.id, {
+          totalWalletBalance: balance.walletBalance.toString(),
+          totalUnrealizedProfit: balance.unrealizedPnL.toString(),
+          totalMarginBalance: balance.equity.toString(),
+          availableBalance: balance.availableBalance.toString(),
+          updateTime: balance.updatedAt,
+        }),
+      ]);
+
+      return {
+        equity: balance.equity,
+      };
+    });
+
+    return NextResponse.json(summarizeCronResults(results));
+  } catch (error: any) {
+    console.error("Error in equity snapshot cron:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  isAuthorizedCronRequest,
+  runForActiveAccounts,
+  summarizeCronResults,
+} from "@/lib/cron";
+import { storePositionsSnapshot, storeOrdersSnapshot } from "@/lib/redis";
+
+/**
+ * Collect positions and pending orders for every active account
+ * Schedule: every minute (see vercel.json)
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const results = await runForActiveAccounts(async (account, client) => {
+      const [positions, orders] = await Promise.all([
+        client.fetchPositions(),
+        client.fetchOpenOrders(),
+      ]);
+
+      await Promise.all([
+        storePositionsSnapshot(account.id, {
+          exchange: client.exchange,
+          symbol: account.symbol,
+          positions,
+        }),
+        storeOrdersSnapshot(account.id, {
+          exchange: client.exchange,
+          symbol: account.symbol,
+          orders,
+        }),
+      ]);
+
+      return {
+        positionsCount: positions.length,
+        ordersCount: orders.length,
+      };
+    });
+
+    return NextResponse.json(summarizeCronResults(results));
+  } catch (error: any) {
+    console.error("Error in positions snapshot cron:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
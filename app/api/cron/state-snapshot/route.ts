@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  isAuthorizedCronRequest,
+  runForActiveAccounts,
+  summarizeCronResults,
+} from "@/lib/cron";
+import {
+  batchGetAccountStates,
+  getLiveStateSymbols,
+  getTrackedStateSymbols,
+  recordAccountState,
+  removeLiveStateSymbols,
+} from "@/lib/redis";
+
+/**
+ * Record changes of the bot's mmgrid state for every active account
+ * Live symbols come from the per-account set the bot adds to when writing
+ * its state; previously seen symbols whose key has expired get a null point,
+ * marking when the bot went stale, and leave the live set
+ * Schedule: every minute (see vercel.json)
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const results = await runForActiveAccounts(async (account, client) => {
+      const [liveSymbols, trackedSymbols] = await Promise.all([
+        getLiveStateSymbols(account.id, client.exchange),
+        getTrackedStateSymbols(account.id, client.exchange),
+      ]);
+
+      const symbols = Array.from(new Set([...liveSymbols, ...trackedSymbols]));
+      const states = await batchGetAccountStates(account.id, symbols, client.exchange);
+
+      const recorded = await Promise.all(
+        symbols.map((symbol) =>
+          recordAccountState(
+            account.id,
+            symbol,
+            states.get(symbol)?.state ?? null,
+            client.exchange
+          )
+        )
+      );
+
+      const staleSymbols = symbols.filter((symbol) => !states.get(symbol)?.state);
+      await removeLiveStateSymbols(
+        account.id,
+        staleSymbols.filter((symbol) => liveSymbols.includes(symbol)),
+        client.exchange
+      );
+
+      return {
+        symbolsCount: symbols.length,
+        changedCount: recorded.filter(Boolean).length,
+        staleSymbols,
+      };
+    });
+
+    return NextResponse.json(summarizeCronResults(results));
+  } catch (error: any) {
+    console.error("Error in state snapshot cron:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,52 +1,185 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
-import { deleteGridLevel, clearGridLevels } from "@/lib/redis";
+import { requireRole } from "@/lib/auth";
+import { withAudit } from "@/lib/audit";
+import { fetchItems } from "@/lib/directus";
+import { resolveExchange, type ExchangeAccount } from "@/lib/exchange";
+import {
+  deleteGridLevel,
+  clearGridLevels,
+  getGridHashes,
+  getGridKey,
+  isGridLevelField,
+  previewDeleteGridLevel,
+  snapshotGridVersion,
+} from "@/lib/redis";
+import { toCanonicalSymbol } from "@/lib/symbols";
+import { deleteGridLevelAction } from "@/lib/actions";
 
-export async function POST(request: NextRequest) {
+/**
+ * Delete one grid level by its hash field, or clear a whole grid
+ * The account's exchange is resolved from Directus so the level is removed
+ * from the same hypotomuai:{exchange}:mmgrid:* namespace the monitor reads.
+ * When expectedPrice is given the level is only deleted while it still has
+ * that price; a concurrent change by the bot returns 409 with the current level
+ * With `dryRun: true` nothing is deleted (and no version saved); `actions`
+ * lists the hash fields that would be removed
+ */
+async function handlePost(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
+    const { session, error: authError } = await requireRole("trader");
 
     if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      return authError;
     }
 
     const body = await request.json();
-    const { accountId, symbol, side, levelIndex, clearAll } = body;
+    const { accountId, side, field, expectedPrice, clearAll, dryRun } = body;
 
-    if (!accountId || !symbol) {
+    if (!accountId || !body.symbol) {
       return NextResponse.json(
         { error: "Missing accountId or symbol" },
         { status: 400 }
       );
     }
 
+    if (side !== undefined && side !== "buy" && side !== "sell") {
+      return NextResponse.json(
+        { error: "side must be buy or sell" },
+        { status: 400 }
+      );
+    }
+
+    const account = await fetchItems<ExchangeAccount>("trading_accounts", {
+      filter: { id: { _eq: accountId } },
+      limit: 1,
+      fields: ["id", "exchange"],
+    });
+
+    if (!account) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 });
+    }
+
+    const exchange = resolveExchange(account);
+    const symbol = toCanonicalSymbol(body.symbol);
+    const user = session.user?.name ?? undefined;
+
     if (clearAll) {
       // Clear all grid levels for the symbol and side
-      if (side) {
-        await clearGridLevels(accountId, symbol, side as "buy" | "sell");
-      } else {
-        await clearGridLevels(accountId, symbol);
+      const sides: Array<"buy" | "sell"> = side ? [side] : ["buy", "sell"];
+
+      if (dryRun) {
+        const hashes = await getGridHashes(accountId, symbol, exchange);
+        const actions = sides.flatMap((s) => {
+          const key = getGridKey(accountId, symbol, s, exchange);
+          return Object.entries(hashes[s]).map(([levelField, value]) =>
+            deleteGridLevelAction(key, levelField, JSON.parse(value))
+          );
+        });
+
+        return NextResponse.json({
+          success: true,
+          dryRun: true,
+          exchange,
+          symbol,
+          keys: sides.map((s) => getGridKey(accountId, symbol, s, exchange)),
+          actions,
+        });
       }
 
+      const backupVersion = await snapshotGridVersion(
+        accountId,
+        symbol,
+        "delete-grid-level:clearAll",
+        exchange,
+        user
+      );
+      await clearGridLevels(accountId, symbol, side, exchange);
+
       return NextResponse.json({
         success: true,
         message: `Cleared all ${side || "buy and sell"} grid levels for ${symbol}`,
+        exchange,
+        symbol,
+        keys: sides.map((s) => getGridKey(accountId, symbol, s, exchange)),
+        backupVersion,
       });
     } else {
       // Delete specific grid level
-      if (!side || levelIndex === undefined) {
+      if (!side || !field) {
         return NextResponse.json(
-          { error: "Missing side or levelIndex" },
+          { error: "Missing side or field" },
           { status: 400 }
         );
       }
 
-      await deleteGridLevel(accountId, symbol, side as "buy" | "sell", levelIndex);
+      if (!isGridLevelField(field)) {
+        return NextResponse.json(
+          { error: `Invalid grid level field ${field}` },
+          { status: 400 }
+        );
+      }
+
+      if (
+        expectedPrice !== undefined &&
+        !(typeof expectedPrice === "number" && Number.isFinite(expectedPrice))
+      ) {
+        return NextResponse.json(
+          { error: "expectedPrice must be a number" },
+          { status: 400 }
+        );
+      }
+
+      const key = getGridKey(accountId, symbol, side, exchange);
+      const backupVersion = dryRun
+        ? undefined
+        : await snapshotGridVersion(accountId, symbol, "delete-grid-level", exchange, user);
+      const result = await (dryRun ? previewDeleteGridLevel : deleteGridLevel)(
+        accountId,
+        symbol,
+        side,
+        field,
+        exchange,
+        expectedPrice
+      );
+
+      if (result.status === "not_found") {
+        return NextResponse.json(
+          { error: `Grid level ${field} not found in ${key}`, key },
+          { status: 404 }
+        );
+      }
+
+      if (result.status === "price_mismatch") {
+        return NextResponse.json(
+          {
+            error: `Grid level ${field} changed: expected price ${expectedPrice}, found ${result.level.price}`,
+            key,
+            current: result.level,
+          },
+          { status: 409 }
+        );
+      }
+
+      if (dryRun) {
+        return NextResponse.json({
+          success: true,
+          dryRun: true,
+          exchange,
+          symbol,
+          keys: [key],
+          actions: [deleteGridLevelAction(key, field, result.level)],
+        });
+      }
 
       return NextResponse.json({
         success: true,
-        message: `Deleted grid level ${levelIndex}`,
+        message: `Deleted grid level ${field}`,
+        exchange,
+        symbol,
+        keys: [key],
+        field,
+        level: result.level,
+        backupVersion,
       });
     }
   } catch (error: any) {
@@ -57,3 +190,5 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+export const POST = withAudit("delete-grid-level", handlePost);
@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { fetchItems } from "@/lib/directus";
+import { resolveExchange, type ExchangeAccount } from "@/lib/exchange";
+import { getEquityHistory } from "@/lib/redis";
+import {
+  downsampleEquity,
+  getEquityChanges,
+  parseResolution,
+  sumEquityChanges,
+  sumEquityCurves,
+} from "@/lib/equity";
+
+const DEFAULT_RANGE_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+export async function GET(request: Request) {
+  try {
+    const { session, error: authError } = await requireRole("viewer");
+
+    if (!session) {
+      return authError;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const accountIds = searchParams.get("accountId")?.split(",").filter(Boolean) || [];
+    const to = searchParams.get("to") ? parseInt(searchParams.get("to")!) : Date.now();
+    const from = searchParams.get("from")
+      ? parseInt(searchParams.get("from")!)
+      : to - DEFAULT_RANGE_MS;
+
+    if (isNaN(from) || isNaN(to) || from >= to) {
+      return NextResponse.json(
+        { error: "from and to must be timestamps in ms with from < to" },
+        { status: 400 }
+      );
+    }
+
+    const resolutionMs = parseResolution(searchParams.get("resolution"), from, to);
+    if (!resolutionMs) {
+      return NextResponse.json(
+        { error: "resolution must be one of 10m, 30m, 1h, 4h, 1d or a number of ms (>= 60000)" },
+        { status: 400 }
+      );
+    }
+
+    // Without accountId, report every active account
+    const filter: any = { status: { _eq: "active" } };
+    if (accountIds.length > 0) {
+      filter.id = { _in: accountIds };
+    }
+
+    const accounts = await fetchItems<ExchangeAccount[]>("trading_accounts", {
+      filter,
+      limit: -1,
+      fields: ["id", "name", "exchange", "status"],
+    });
+
+    if (accountIds.length > 0 && accounts.length === 0) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 });
+    }
+
+    const accountResults = await Promise.all(
+      accounts.map(async (account) => {
+        const [points, changes] = await Promise.all([
+          getEquityHistory(account.id, from, to),
+          getEquityChanges(account.id),
+        ]);
+
+        return {
+          accountId: account.id,
+          accountName: account.name || account.id,
+          exchange: resolveExchange(account),
+          curve: downsampleEquity(points, resolutionMs),
+          changes,
+        };
+      })
+    );
+
+    return NextResponse.json({
+      timestamp: new Date().toISOString(),
+      from,
+      to,
+      resolution: resolutionMs,
+      accounts: accountResults,
+      portfolio: {
+        curve: sumEquityCurves(accountResults.map((a) => a.curve)),
+        changes: sumEquityChanges(accountResults.map((a) => a.changes)),
+      },
+    });
+  } catch (error: any) {
+    console.error("Error fetching equity history:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch equity history" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { withAudit } from "@/lib/audit";
+import { fetchItems } from "@/lib/directus";
+import { createExchangeClient, type ExchangeAccount } from "@/lib/exchange";
+import {
+  getGridKey,
+  getMidPrice,
+  replaceGridLevels,
+  snapshotGridVersion,
+} from "@/lib/redis";
+import { generateGrid, validateGridSpec, type GridSpec } from "@/lib/grid";
+import { getInstrument, toCanonicalSymbol, toVenueSymbol } from "@/lib/symbols";
+
+/**
+ * Generate a grid around the current mid price
+ * Returns a preview by default; with `apply: true` the generated levels
+ * replace both sides of the account's grid in a single transaction
+ */
+async function handlePost(request: NextRequest) {
+  try {
+    const { session, error: authError } = await requireRole("trader");
+
+    if (!session) {
+      return authError;
+    }
+
+    const body = await request.json();
+    const { accountId, apply } = body;
+
+    if (!accountId || !body.symbol) {
+      return NextResponse.json(
+        { error: "Missing accountId or symbol" },
+        { status: 400 }
+      );
+    }
+
+    const spec: GridSpec = {
+      lowerPrice: Number(body.lowerPrice),
+      upperPrice: Number(body.upperPrice),
+      levels: Number(body.levels),
+      spacing: body.spacing || "arithmetic",
+      prices: Array.isArray(body.prices) ? body.prices.map(Number) : undefined,
+      budgetUsd: Number(body.budgetUsd),
+      skew: body.skew === undefined ? 0 : Number(body.skew),
+    };
+
+    const specError = validateGridSpec(spec);
+    if (specError) {
+      return NextResponse.json({ error: specError }, { status: 400 });
+    }
+
+    const account = await fetchItems<ExchangeAccount>("trading_accounts", {
+      filter: { id: { _eq: accountId } },
+      limit: 1,
+      fields: ["*"],
+    });
+
+    if (!account) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 });
+    }
+
+    const client = createExchangeClient(account);
+    const symbol = toCanonicalSymbol(body.symbol);
+
+    const [instrument, midPrice] = await Promise.all([
+      getInstrument(client, symbol),
+      getMidPrice(client.exchange, toVenueSymbol(symbol, client.exchange)),
+    ]);
+
+    if (!instrument) {
+      return NextResponse.json(
+        { error: `Unknown instrument ${symbol} on ${client.exchange}` },
+        { status: 400 }
+      );
+    }
+
+    if (midPrice === null) {
+      return NextResponse.json(
+        { error: `No mid price in Redis for ${symbol} on ${client.exchange}` },
+        { status: 409 }
+      );
+    }
+
+    const grid = generateGrid(spec, instrument, midPrice);
+
+    let backupVersion: number | null = null;
+
+    if (apply) {
+      if (grid.totals.levels === 0) {
+        return NextResponse.json(
+          { error: "Generated grid has no levels", ...grid },
+          { status: 400 }
+        );
+      }
+      backupVersion = await snapshotGridVersion(
+        accountId,
+        symbol,
+        "generate-grid",
+        client.exchange,
+        session.user?.name ?? undefined
+      );
+      await replaceGridLevels(
+        accountId,
+        symbol,
+        { buy: grid.buy, sell: grid.sell },
+        client.exchange
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      applied: !!apply,
+      exchange: client.exchange,
+      symbol,
+      keys: apply
+        ? (["buy", "sell"] as const).map((side) =>
+            getGridKey(accountId, symbol, side, client.exchange)
+          )
+        : [],
+      backupVersion,
+      spec,
+      ...grid,
+    });
+  } catch (error: any) {
+    console.error("Error generating grid:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to generate grid" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withAudit("generate-grid", handlePost, (body) => !body?.apply);
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { fetchItems } from "@/lib/directus";
+import { resolveExchange, type ExchangeAccount } from "@/lib/exchange";
+import { getGridHashes, getGridVersion } from "@/lib/redis";
+import { diffGridHashes, type GridHashes } from "@/lib/grid";
+import { toCanonicalSymbol } from "@/lib/symbols";
+
+/**
+ * Diff two versions of an account's grid level by level
+ * Query: accountId, symbol, from, to (version numbers, or "current" for the
+ * live grid; to defaults to "current")
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { session, error: authError } = await requireRole("viewer");
+
+    if (!session) {
+      return authError;
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const accountId = searchParams.get("accountId");
+    const symbolParam = searchParams.get("symbol");
+    const from = searchParams.get("from");
+    const to = searchParams.get("to") || "current";
+
+    if (!accountId || !symbolParam || !from) {
+      return NextResponse.json(
+        { error: "Missing accountId, symbol or from" },
+        { status: 400 }
+      );
+    }
+
+    for (const ref of [from, to]) {
+      if (ref !== "current" && !/^\d+$/.test(ref)) {
+        return NextResponse.json(
+          { error: `Invalid version ${ref}: expected a version number or "current"` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const account = await fetchItems<ExchangeAccount>("trading_accounts", {
+      filter: { id: { _eq: accountId } },
+      limit: 1,
+      fields: ["id", "exchange"],
+    });
+
+    if (!account) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 });
+    }
+
+    const exchange = resolveExchange(account);
+    const symbol = toCanonicalSymbol(symbolParam);
+
+    const load = async (ref: string): Promise<GridHashes | null> => {
+      if (ref === "current") {
+        return getGridHashes(accountId, symbol, exchange);
+      }
+      return getGridVersion(accountId, symbol, parseInt(ref), exchange);
+    };
+
+    const [before, after] = await Promise.all([load(from), load(to)]);
+
+    if (!before || !after) {
+      return NextResponse.json(
+        { error: `Grid version ${!before ? from : to} not found` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      timestamp: Date.now(),
+      accountId,
+      exchange,
+      symbol,
+      from,
+      to,
+      ...diffGridHashes(before, after),
+    });
+  } catch (error: any) {
+    console.error("Error diffing grid versions:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to diff grid versions" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { recordAudit, withAudit } from "@/lib/audit";
+import {
+  parseKillSwitchScope,
+  runKillSwitch,
+  type KillSwitchProgress,
+} from "@/lib/kill-switch";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+// Typed confirmation required in the request body
+const CONFIRMATION = "FLATTEN";
+
+const encoder = new TextEncoder();
+
+function formatEvent(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Emergency kill switch: pause bots, clear grids, cancel orders and market-close positions
+ * Body: { scope: { exchange?, symbol?, accountIds? }, confirm: "FLATTEN" }
+ * An empty scope flattens every active account.
+ *
+ * With `Accept: text/event-stream` the response is a stream of events:
+ *   progress     KillSwitchProgress, per account and step
+ *   report       KillSwitchReport once every account is done
+ *   kill-error   { error } when the run could not start
+ * Otherwise the report is returned as JSON with the progress log.
+ * The run is not aborted when the client disconnects. Streamed runs are
+ * audited here once the report is ready; JSON runs by withAudit.
+ */
+async function handlePost(request: NextRequest) {
+  try {
+    const { session, error: authError } = await requireRole("admin");
+
+    if (!session) {
+      return authError;
+    }
+
+    const body = await request.json();
+
+    if (body.confirm !== CONFIRMATION) {
+      return NextResponse.json(
+        { error: `Confirmation required: send confirm: "${CONFIRMATION}"` },
+        { status: 400 }
+      );
+    }
+
+    const { scope, error: scopeError } = parseKillSwitchScope(body.scope);
+    if (!scope) {
+      return NextResponse.json({ error: scopeError }, { status: 400 });
+    }
+
+    const user = session.user?.name ?? undefined;
+    console.warn(`[Kill Switch] Triggered by ${user ?? "unknown"} for scope`, scope);
+
+    if (!request.headers.get("accept")?.includes("text/event-stream")) {
+      const progress: KillSwitchProgress[] = [];
+      const report = await runKillSwitch(scope, (event) => progress.push(event), user);
+      return NextResponse.json({ success: report.clean, ...report, progress });
+    }
+
+    let closed = false;
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (chunk: Uint8Array) => {
+          if (closed) return;
+          try {
+            controller.enqueue(chunk);
+          } catch {
+            // Client disconnected; keep flattening
+            closed = true;
+          }
+        };
+
+        const startedAt = Date.now();
+        const audit = (response: any, success: boolean, status: number) =>
+          recordAudit({
+            timestamp: startedAt,
+            user: user ?? null,
+            action: "kill-switch",
+            accountId: null,
+            symbol: scope.symbol ?? null,
+            exchange: scope.exchange ?? null,
+            request: body,
+            response,
+            success,
+            status,
+            latencyMs: Date.now() - startedAt,
+          });
+
+        try {
+          const report = await runKillSwitch(
+            scope,
+            (event) => send(formatEvent("progress", event)),
+            user
+          );
+          send(formatEvent("report", report));
+          await audit(report, report.clean, 200);
+        } catch (error: any) {
+          console.error("[Kill Switch] Error:", error);
+          send(formatEvent("kill-error", { error: error.message }));
+          await audit({ error: error.message }, false, 500);
+        }
+
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      },
+      cancel() {
+        closed = true;
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no",
+      },
+    });
+  } catch (error: any) {
+    console.error("Error running kill switch:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to run kill switch" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withAudit("kill-switch", handlePost);
@@ -0,0 +1,127 @@
+import { NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import {
+  diffMonitorSnapshots,
+  getSharedMonitorSnapshot,
+  parseMonitorFilters,
+  type MonitorFilters,
+  type MonitorSnapshot,
+} from "@/lib/monitor";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+const REFRESH_INTERVAL_MS = 5000; // Read the shared snapshot every 5 seconds
+const HEARTBEAT_INTERVAL_MS = 15000; // Keep proxies from closing an idle stream
+const MAX_STREAM_MS = 280000; // End before maxDuration; EventSource reconnects on its own
+const RECONNECT_DELAY_MS = 3000;
+
+const encoder = new TextEncoder();
+
+function formatEvent(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Server-Sent Events stream of dashboard updates
+ * Accepts the same filters as /api/monitor (exchange, symbol, accountId)
+ * Connections with the same filters share one snapshot build (getSharedMonitorSnapshot)
+ *
+ * Events:
+ *   snapshot       full MonitorSnapshot, sent once per connection
+ *   patch          MonitorDiff: added cards, changed fields per card, removed card keys
+ *   monitor-error  { error } when a refresh fails; the stream stays open
+ */
+export async function GET(request: Request) {
+  const { session, error: authError } = await requireRole("viewer");
+
+  if (!session) {
+    return authError;
+  }
+
+  const { searchParams } = new URL(request.url);
+
+  let filters: MonitorFilters;
+  try {
+    filters = parseMonitorFilters(searchParams);
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  let closed = false;
+  let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+  let heartbeatTimer: ReturnType<typeof setInterval> | undefined;
+
+  const stop = () => {
+    closed = true;
+    clearTimeout(refreshTimer);
+    clearInterval(heartbeatTimer);
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const startedAt = Date.now();
+      let previous: MonitorSnapshot | null = null;
+
+      const send = (chunk: Uint8Array) => {
+        if (!closed) controller.enqueue(chunk);
+      };
+
+      const close = () => {
+        if (closed) return;
+        stop();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client disconnecting
+        }
+      };
+
+      const refresh = async () => {
+        try {
+          const snapshot = await getSharedMonitorSnapshot(filters);
+
+          if (!previous) {
+            send(formatEvent("snapshot", snapshot));
+          } else {
+            const diff = diffMonitorSnapshots(previous, snapshot);
+            if (diff.added.length > 0 || diff.updated.length > 0 || diff.removed.length > 0) {
+              send(formatEvent("patch", diff));
+            }
+          }
+          previous = snapshot;
+        } catch (error: any) {
+          console.error("[Monitor Stream] Error building snapshot:", error);
+          send(formatEvent("monitor-error", { error: error.message }));
+        }
+
+        if (Date.now() - startedAt >= MAX_STREAM_MS) {
+          close();
+        } else if (!closed) {
+          refreshTimer = setTimeout(refresh, REFRESH_INTERVAL_MS);
+        }
+      };
+
+      request.signal.addEventListener("abort", close);
+
+      send(encoder.encode(`retry: ${RECONNECT_DELAY_MS}\n\n`));
+      heartbeatTimer = setInterval(
+        () => send(encoder.encode(": heartbeat\n\n")),
+        HEARTBEAT_INTERVAL_MS
+      );
+      refresh();
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { withAudit } from "@/lib/audit";
+import {
+  deriveClientOrderId,
+  getIdempotencyKey,
+  withIdempotency,
+  type IdempotencyContext,
+} from "@/lib/idempotency";
+import { fetchItems } from "@/lib/directus";
+import { createExchangeClient, findPlacedOrder, type ExchangeAccount } from "@/lib/exchange";
+import { getMidPrice } from "@/lib/redis";
+import { buildOrderPreview, parseOrderTicket } from "@/lib/orders";
+import { getInstrument, toCanonicalSymbol, toVenueSymbol } from "@/lib/symbols";
+
+/**
+ * Place a limit or market order, optionally post-only and/or reduce-only
+ * In hedge mode the order targets the long or short position by side (or
+ * the `posSide` given) and the reduce-only flag is sent through posSide.
+ * Size and price are rounded to the instrument's lot and tick size. With
+ * `preview: true` nothing is sent: the response carries the rounded order,
+ * notional, estimated fee and the resulting position.
+ * An Idempotency-Key header makes retries return the first result and sets
+ * the exchange client order ID. A venue rejection is answered with 422 (and
+ * replayed); after a transport error (500) a retry first looks the order up by
+ * that client order ID and only sends it when the venue does not have it.
+ */
+async function handlePost(request: NextRequest, { resumed }: IdempotencyContext) {
+  try {
+    const { session, error: authError } = await requireRole("trader");
+
+    if (!session) {
+      return authError;
+    }
+
+    const body = await request.json();
+    const { accountId, preview } = body;
+
+    if (!accountId) {
+      return NextResponse.json({ error: "Missing accountId" }, { status: 400 });
+    }
+
+    const { ticket, error: ticketError } = parseOrderTicket(body);
+    if (!ticket) {
+      return NextResponse.json({ error: ticketError }, { status: 400 });
+    }
+
+    const account = await fetchItems<ExchangeAccount>("trading_accounts", {
+      filter: { id: { _eq: accountId } },
+      limit: 1,
+      fields: ["*"],
+    });
+
+    if (!account) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 });
+    }
+
+    const client = createExchangeClient(account);
+    const symbol = toCanonicalSymbol(ticket.symbol);
+    const idempotencyKey = getIdempotencyKey(request);
+    const clientOrderId = idempotencyKey ? deriveClientOrderId(idempotencyKey) : undefined;
+
+    // Checked before sizing: the live position may already include the fill
+    const placed = await findPlacedOrder(client, symbol, clientOrderId, resumed);
+    if (placed) {
+      return NextResponse.json({
+        success: true,
+        message: `Order was already placed by an earlier attempt (${placed.status})`,
+        orderId: placed.orderId,
+        clientOrderId: clientOrderId ?? null,
+        exchange: client.exchange,
+      });
+    }
+
+    const [instrument, positions, midPrice] = await Promise.all([
+      getInstrument(client, symbol),
+      client.fetchPositions(symbol),
+      getMidPrice(client.exchange, toVenueSymbol(symbol, client.exchange)),
+    ]);
+
+    if (!instrument) {
+      return NextResponse.json(
+        { error: `Unknown instrument ${symbol} on ${client.exchange}` },
+        { status: 400 }
+      );
+    }
+
+    const markPrice = positions.find((pos) => pos.markPrice)?.markPrice;
+    const referencePrice = midPrice ?? markPrice ?? ticket.price ?? null;
+    if (!referencePrice) {
+      return NextResponse.json(
+        { error: `No reference price for ${symbol} on ${client.exchange}` },
+        { status: 409 }
+      );
+    }
+
+    const { preview: orderPreview, error: previewError } = buildOrderPreview(
+      { ...ticket, symbol },
+      instrument,
+      positions,
+      referencePrice
+    );
+
+    if (!orderPreview) {
+      return NextResponse.json({ error: previewError }, { status: 400 });
+    }
+
+    if (preview) {
+      return NextResponse.json({
+        success: true,
+        preview: true,
+        exchange: client.exchange,
+        ...orderPreview,
+      });
+    }
+
+    const { order } = orderPreview;
+    const position =
+      positions.find((pos) => pos.posSide === order.posSide) ?? positions[0];
+    const isHedge = !!order.posSide && order.posSide !== "net";
+
+    const response = await client.submitOrder({
+      symbol,
+      side: order.side,
+      type: order.type,
+      size: order.size,
+      price: order.price,
+      postOnly: order.postOnly,
+      // Both venues reject the reduce-only flag in hedge mode, where posSide
+      // already says which position is reduced (same rule as planClose)
+      reduceOnly: isHedge ? undefined : order.reduceOnly,
+      marginMode: position?.marginMode,
+      posSide: order.posSide,
+      clientOrderId,
+    });
+
+    if (!response.success) {
+      return NextResponse.json(
+        { success: false, error: response.error, exchange: client.exchange, ...orderPreview },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Placed ${order.type} ${order.side} order for ${order.size} ${symbol}`,
+      orderId: response.orderId,
+      clientOrderId: clientOrderId ?? null,
+      exchange: client.exchange,
+      ...orderPreview,
+    });
+  } catch (error: any) {
+    console.error("Error placing order:", error);
+    return NextResponse.json(
+      {
+        error:
+          error.response?.data?.msg ||
+          error.response?.data?.message ||
+          error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withAudit(
+  "place-order",
+  withIdempotency("place-order", handlePost),
+  (body) => !!body?.preview
+);
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import {
+  buildMonitorSnapshot,
+  parseMonitorFilters,
+  type MonitorFilters,
+} from "@/lib/monitor";
+import { summarizePortfolio } from "@/lib/portfolio";
+
+/**
+ * Portfolio totals and per-asset exposure across all accounts and exchanges
+ * Accepts the same filters as /api/monitor (exchange, symbol, accountId)
+ */
+export async function GET(request: Request) {
+  try {
+    const { session, error: authError } = await requireRole("viewer");
+
+    if (!session) {
+      return authError;
+    }
+
+    const { searchParams } = new URL(request.url);
+
+    let filters: MonitorFilters;
+    try {
+      filters = parseMonitorFilters(searchParams);
+    } catch (error: any) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    const snapshot = await buildMonitorSnapshot(filters);
+    const failedAccounts = snapshot.accounts
+      .filter((card) => card.error)
+      .map((card) => ({
+        accountId: card.accountId,
+        accountName: card.accountName,
+        exchange: card.exchange,
+        error: card.error,
+      }));
+
+    return NextResponse.json({
+      timestamp: snapshot.timestamp,
+      filters: snapshot.filters,
+      ...summarizePortfolio(snapshot.accounts),
+      failedAccounts,
+    });
+  } catch (error: any) {
+    console.error("Error building portfolio:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
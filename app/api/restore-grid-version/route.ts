@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { withAudit } from "@/lib/audit";
+import { fetchItems } from "@/lib/directus";
+import { resolveExchange, type ExchangeAccount } from "@/lib/exchange";
+import {
+  getGridKey,
+  getGridVersion,
+  snapshotGridVersion,
+  writeGridHashes,
+} from "@/lib/redis";
+import { toCanonicalSymbol } from "@/lib/symbols";
+
+/**
+ * Restore a stored version of an account's grid
+ * The live grid is snapshotted first, so a restore can itself be undone
+ */
+async function handlePost(request: NextRequest) {
+  try {
+    const { session, error: authError } = await requireRole("trader");
+
+    if (!session) {
+      return authError;
+    }
+
+    const body = await request.json();
+    const { accountId, version } = body;
+
+    if (!accountId || !body.symbol) {
+      return NextResponse.json(
+        { error: "Missing accountId or symbol" },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(version) || version < 1) {
+      return NextResponse.json(
+        { error: "version must be a positive integer" },
+        { status: 400 }
+      );
+    }
+
+    const account = await fetchItems<ExchangeAccount>("trading_accounts", {
+      filter: { id: { _eq: accountId } },
+      limit: 1,
+      fields: ["id", "exchange"],
+    });
+
+    if (!account) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 });
+    }
+
+    const exchange = resolveExchange(account);
+    const symbol = toCanonicalSymbol(body.symbol);
+
+    const target = await getGridVersion(accountId, symbol, version, exchange);
+    if (!target) {
+      return NextResponse.json(
+        { error: `Grid version ${version} not found` },
+        { status: 404 }
+      );
+    }
+
+    const backupVersion = await snapshotGridVersion(
+      accountId,
+      symbol,
+      `restore-grid-version:${version}`,
+      exchange,
+      session.user?.name ?? undefined
+    );
+
+    await writeGridHashes(accountId, symbol, target, exchange);
+
+    return NextResponse.json({
+      success: true,
+      message: `Restored ${symbol} grid to version ${version}`,
+      exchange,
+      symbol,
+      keys: (["buy", "sell"] as const).map((side) =>
+        getGridKey(accountId, symbol, side, exchange)
+      ),
+      restoredVersion: version,
+      backupVersion,
+      levels: {
+        buy: Object.keys(target.buy).length,
+        sell: Object.keys(target.sell).length,
+      },
+    });
+  } catch (error: any) {
+    console.error("Error restoring grid version:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to restore grid version" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withAudit("restore-grid-version", handlePost);
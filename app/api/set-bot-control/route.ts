@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { withAudit } from "@/lib/audit";
+import { fetchItems } from "@/lib/directus";
+import { resolveExchange, type ExchangeAccount } from "@/lib/exchange";
+import { getBotControl, setBotControl, type BotControl } from "@/lib/redis";
+import { toCanonicalSymbol } from "@/lib/symbols";
+
+/**
+ * Update the bot control flags of an account and symbol
+ * Body: accountId, symbol and any of paused, reduceOnly, maxPositionNotional
+ * (null clears the cap); flags not sent keep their current value
+ */
+async function handlePost(request: NextRequest) {
+  try {
+    const { session, error: authError } = await requireRole("trader");
+
+    if (!session) {
+      return authError;
+    }
+
+    const body = await request.json();
+    const { accountId, paused, reduceOnly, maxPositionNotional } = body;
+
+    if (!accountId || !body.symbol) {
+      return NextResponse.json(
+        { error: "Missing accountId or symbol" },
+        { status: 400 }
+      );
+    }
+
+    for (const [name, value] of Object.entries({ paused, reduceOnly })) {
+      if (value !== undefined && typeof value !== "boolean") {
+        return NextResponse.json(
+          { error: `${name} must be a boolean` },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (
+      maxPositionNotional !== undefined &&
+      maxPositionNotional !== null &&
+      !(typeof maxPositionNotional === "number" && maxPositionNotional > 0)
+    ) {
+      return NextResponse.json(
+        { error: "maxPositionNotional must be a positive number or null" },
+        { status: 400 }
+      );
+    }
+
+    const account = await fetchItems<ExchangeAccount>("trading_accounts", {
+      filter: { id: { _eq: accountId } },
+      limit: 1,
+      fields: ["id", "exchange"],
+    });
+
+    if (!account) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 });
+    }
+
+    const exchange = resolveExchange(account);
+    const symbol = toCanonicalSymbol(body.symbol);
+
+    const previous = await getBotControl(accountId, symbol, exchange);
+    const control: BotControl = {
+      paused: paused ?? previous.paused,
+      reduceOnly: reduceOnly ?? previous.reduceOnly,
+      maxPositionNotional:
+        maxPositionNotional === undefined
+          ? previous.maxPositionNotional
+          : maxPositionNotional,
+      updatedAt: Date.now(),
+      updatedBy: session.user?.name ?? undefined,
+    };
+
+    await setBotControl(accountId, symbol, control, exchange);
+
+    return NextResponse.json({
+      success: true,
+      message: `Updated bot control for ${symbol}`,
+      exchange,
+      symbol,
+      control,
+      previous,
+    });
+  } catch (error: any) {
+    console.error("Error setting bot control:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to set bot control" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withAudit("set-bot-control", handlePost);
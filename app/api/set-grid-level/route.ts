@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { withAudit } from "@/lib/audit";
+import { fetchItems } from "@/lib/directus";
+import { createExchangeClient, type ExchangeAccount } from "@/lib/exchange";
+import {
+  getGridKey,
+  getGridLevel,
+  getNextGridLevelField,
+  isGridLevelField,
+  setGridLevel,
+  snapshotGridVersion,
+} from "@/lib/redis";
+import { buildGridLevel, parseGridLevelInput } from "@/lib/grid";
+import { getInstrument, toCanonicalSymbol } from "@/lib/symbols";
+
+/**
+ * Create or update a single grid level
+ * Without field a new level is appended; with it (the level's hash field,
+ * e.g. "level_3"), the existing level is updated (only the fields sent are changed)
+ */
+async function handlePost(request: NextRequest) {
+  try {
+    const { session, error: authError } = await requireRole("trader");
+
+    if (!session) {
+      return authError;
+    }
+
+    const body = await request.json();
+    const { accountId, side, field } = body;
+
+    if (!accountId || !body.symbol) {
+      return NextResponse.json(
+        { error: "Missing accountId or symbol" },
+        { status: 400 }
+      );
+    }
+
+    if (side !== "buy" && side !== "sell") {
+      return NextResponse.json(
+        { error: "side must be buy or sell" },
+        { status: 400 }
+      );
+    }
+
+    if (field !== undefined && !isGridLevelField(field)) {
+      return NextResponse.json(
+        { error: `Invalid grid level field ${field}` },
+        { status: 400 }
+      );
+    }
+
+    const account = await fetchItems<ExchangeAccount>("trading_accounts", {
+      filter: { id: { _eq: accountId } },
+      limit: 1,
+      fields: ["*"],
+    });
+
+    if (!account) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 });
+    }
+
+    const client = createExchangeClient(account);
+    const symbol = toCanonicalSymbol(body.symbol);
+
+    const instrument = await getInstrument(client, symbol);
+    if (!instrument) {
+      return NextResponse.json(
+        { error: `Unknown instrument ${symbol} on ${client.exchange}` },
+        { status: 400 }
+      );
+    }
+
+    const isUpdate = field !== undefined;
+    const existing = isUpdate
+      ? await getGridLevel(accountId, symbol, side, field, client.exchange)
+      : null;
+
+    if (isUpdate && !existing) {
+      return NextResponse.json(
+        { error: `Grid level ${field} not found` },
+        { status: 404 }
+      );
+    }
+
+    const { level, error } = buildGridLevel(
+      parseGridLevelInput(body),
+      instrument,
+      existing
+    );
+
+    if (!level) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const levelField: string = isUpdate
+      ? field
+      : await getNextGridLevelField(accountId, symbol, side, client.exchange);
+
+    const backupVersion = await snapshotGridVersion(
+      accountId,
+      symbol,
+      "set-grid-level",
+      client.exchange,
+      session.user?.name ?? undefined
+    );
+
+    await setGridLevel(accountId, symbol, side, levelField, level, client.exchange);
+
+    return NextResponse.json({
+      success: true,
+      message: `${isUpdate ? "Updated" : "Created"} ${side} grid level ${levelField} for ${symbol}`,
+      exchange: client.exchange,
+      symbol,
+      side,
+      keys: [getGridKey(accountId, symbol, side, client.exchange)],
+      field: levelField,
+      level,
+      previous: existing,
+      backupVersion,
+    });
+  } catch (error: any) {
+    console.error("Error setting grid level:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to set grid level" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withAudit("set-grid-level", handlePost);
@@ -0,0 +1,287 @@
+"use client";
+
+import { Fragment, useEffect, useState } from "react";
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { ThemeToggle } from "@/components/theme-toggle";
+
+interface AuditEntry {
+  id: string;
+  timestamp: number;
+  user: string | null;
+  action: string;
+  accountId: string | null;
+  symbol: string | null;
+  exchange: string | null;
+  request: any;
+  response: any;
+  success: boolean;
+  status: number;
+  latencyMs: number;
+}
+
+interface AuditResponse {
+  from: number;
+  to: number;
+  entries: AuditEntry[];
+  nextCursor: number | null;
+  actions: string[];
+  users: string[];
+}
+
+const RANGES = [
+  { label: "24h", ms: 24 * 60 * 60 * 1000 },
+  { label: "7d", ms: 7 * 24 * 60 * 60 * 1000 },
+  { label: "30d", ms: 30 * 24 * 60 * 60 * 1000 },
+  { label: "90d", ms: 90 * 24 * 60 * 60 * 1000 },
+];
+
+export default function AuditPage() {
+  const { status } = useSession();
+  const router = useRouter();
+  const [rangeMs, setRangeMs] = useState(RANGES[1].ms);
+  const [user, setUser] = useState("");
+  const [accountId, setAccountId] = useState("");
+  const [action, setAction] = useState("");
+  const [data, setData] = useState<AuditResponse | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  // Query of the loaded pages; "Load more" keeps its from/to
+  const [query, setQuery] = useState<URLSearchParams | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      router.push("/login");
+    }
+  }, [status, router]);
+
+  const buildQuery = () => {
+    const to = Date.now();
+    const params = new URLSearchParams({ from: String(to - rangeMs), to: String(to) });
+    if (user) params.set("user", user);
+    if (accountId) params.set("accountId", accountId.trim());
+    if (action) params.set("action", action);
+    return params;
+  };
+
+  const fetchAudit = async (more = false) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const params = more && query ? new URLSearchParams(query) : buildQuery();
+      if (more && data?.nextCursor) {
+        params.set("cursor", String(data.nextCursor));
+      }
+
+      const response = await fetch(`/api/audit?${params}`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to fetch audit log");
+      }
+
+      if (!more) {
+        setQuery(params);
+      }
+      setData(more && data ? { ...result, entries: [...data.entries, ...result.entries] } : result);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const exportCsv = () => {
+    const params = buildQuery();
+    params.set("format", "csv");
+    window.location.href = `/api/audit?${params}`;
+  };
+
+  useEffect(() => {
+    if (status === "authenticated") {
+      fetchAudit();
+    }
+  }, [status, rangeMs, action]);
+
+  if (status === "loading") {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        Loading...
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-7xl mx-auto p-4 lg:p-8 space-y-6">
+        <div className="flex justify-between items-center gap-4">
+          <div className="min-w-0">
+            <Link href="/" className="text-sm text-muted-foreground hover:underline">
+              ← Back to dashboard
+            </Link>
+            <h1 className="text-2xl lg:text-3xl font-bold truncate mt-1">Audit Log</h1>
+          </div>
+          <div className="flex items-center gap-2">
+            {RANGES.map((range) => (
+              <Button
+                key={range.label}
+                size="sm"
+                variant={range.ms === rangeMs ? "default" : "outline"}
+                onClick={() => setRangeMs(range.ms)}
+              >
+                {range.label}
+              </Button>
+            ))}
+            <ThemeToggle />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <Input
+            placeholder="User"
+            list="audit-users"
+            value={user}
+            onChange={(e) => setUser(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && fetchAudit()}
+            className="w-40"
+          />
+          <datalist id="audit-users">
+            {data?.users.map((name) => <option key={name} value={name} />)}
+          </datalist>
+          <Input
+            placeholder="Account ID"
+            value={accountId}
+            onChange={(e) => setAccountId(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && fetchAudit()}
+            className="w-72"
+          />
+          <select
+            value={action}
+            onChange={(e) => setAction(e.target.value)}
+            className="h-9 px-3 rounded-md border border-input bg-background text-sm"
+          >
+            <option value="">All actions</option>
+            {data?.actions.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+          <Button onClick={() => fetchAudit()} disabled={loading} size="sm">
+            {loading ? "Loading..." : "Apply"}
+          </Button>
+          <Button onClick={exportCsv} variant="outline" size="sm" className="ml-auto">
+            Export CSV
+          </Button>
+        </div>
+
+        {error && (
+          <div className="bg-destructive/10 border border-destructive/20 text-destructive p-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        <Card>
+          <CardContent className="p-0 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-xs text-muted-foreground">
+                  <th className="px-4 py-3 font-medium">Time</th>
+                  <th className="px-4 py-3 font-medium">User</th>
+                  <th className="px-4 py-3 font-medium">Action</th>
+                  <th className="px-4 py-3 font-medium">Account</th>
+                  <th className="px-4 py-3 font-medium">Symbol</th>
+                  <th className="px-4 py-3 font-medium">Result</th>
+                  <th className="px-4 py-3 font-medium text-right">Latency</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data?.entries.map((entry) => (
+                  <Fragment key={entry.id}>
+                    <tr
+                      onClick={() => setExpanded(expanded === entry.id ? null : entry.id)}
+                      className="border-b cursor-pointer hover:bg-muted/40"
+                    >
+                      <td className="px-4 py-2 whitespace-nowrap text-xs">
+                        {new Date(entry.timestamp).toLocaleString()}
+                      </td>
+                      <td className="px-4 py-2">{entry.user ?? "-"}</td>
+                      <td className="px-4 py-2 font-mono text-xs">{entry.action}</td>
+                      <td className="px-4 py-2 font-mono text-xs truncate max-w-[180px]">
+                        {entry.accountId ?? "-"}
+                      </td>
+                      <td className="px-4 py-2">
+                        {entry.symbol ?? "-"}
+                        {entry.exchange && (
+                          <Badge variant="secondary" className="ml-2 text-xs">
+                            {entry.exchange}
+                          </Badge>
+                        )}
+                      </td>
+                      <td className="px-4 py-2">
+                        <Badge
+                          variant={entry.success ? "outline" : "destructive"}
+                          className={`text-xs ${entry.success ? "border-green-500 text-green-600" : ""}`}
+                        >
+                          {entry.success ? "OK" : "Failed"} · {entry.status}
+                        </Badge>
+                      </td>
+                      <td className="px-4 py-2 text-right text-xs text-muted-foreground">
+                        {entry.latencyMs} ms
+                      </td>
+                    </tr>
+                    {expanded === entry.id && (
+                      <tr className="border-b bg-muted/30">
+                        <td colSpan={7} className="px-4 py-3">
+                          <div className="grid gap-3 md:grid-cols-2">
+                            <div>
+                              <div className="text-xs font-semibold text-muted-foreground mb-1">
+                                Request
+                              </div>
+                              <pre className="text-xs overflow-x-auto max-h-64">
+                                {JSON.stringify(entry.request, null, 2)}
+                              </pre>
+                            </div>
+                            <div>
+                              <div className="text-xs font-semibold text-muted-foreground mb-1">
+                                Response
+                              </div>
+                              <pre className="text-xs overflow-x-auto max-h-64">
+                                {JSON.stringify(entry.response, null, 2)}
+                              </pre>
+                            </div>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+
+            {data && data.entries.length === 0 && (
+              <div className="text-center py-12 text-muted-foreground text-sm">
+                No audit entries in this range
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {data?.nextCursor && (
+          <div className="flex justify-center">
+            <Button onClick={() => fetchAudit(true)} disabled={loading} variant="outline" size="sm">
+              {loading ? "Loading..." : `Load more (showing ${data.entries.length})`}
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,12 +3,36 @@
 import { useEffect, useState, useMemo, useCallback } from "react";
 import { useSession } from "next-auth/react";
 import { useRouter } from "next/navigation";
+import Link from "next/link";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { signOut } from "next-auth/react";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { SkeletonCard } from "@/components/skeleton-card";
+import { PortfolioPanel } from "@/components/portfolio-panel";
+import { GridLevelEditor, type GridLevelEdit } from "@/components/grid-level-editor";
+import { GridBuilderDialog } from "@/components/grid-builder-dialog";
+import { GridHistoryDialog } from "@/components/grid-history-dialog";
+import { OrderTicketDialog } from "@/components/order-ticket-dialog";
+import { ClosePositionDialog } from "@/components/close-position-dialog";
+import { KillSwitchDialog } from "@/components/kill-switch-dialog";
+import {
+  ConfirmActionsDialog,
+  type PlannedAction,
+} from "@/components/confirm-actions-dialog";
+import {
+  BotControlBar,
+  type BotControl,
+  type BotControlPatch,
+} from "@/components/bot-control-bar";
+import {
+  BotStateDialog,
+  BotStateLine,
+  type BotStateSummary,
+} from "@/components/bot-state-dialog";
+import { summarizePortfolio } from "@/lib/portfolio";
+import { hasRole } from "@/lib/roles";
 
 interface Position {
   side: "LONG" | "SHORT";
@@ -19,6 +43,12 @@ interface Position {
   leverage: number;
   notionalUsd: number;
   instId: string;
+  markPrice?: number | null;
+  marginMode?: "cross" | "isolated";
+  liquidationPrice?: number | null;
+  marginRatio?: number | null;
+  margin?: number | null;
+  liquidationDistancePercent?: number | null;
 }
 
 interface Order {
@@ -27,6 +57,9 @@ interface Order {
   value: number;
   orderId: string;
   instId: string;
+  // Grid levels only: Redis hash field and unrounded price
+  field?: string;
+  levelPrice?: number;
 }
 
 interface Balance {
@@ -39,6 +72,14 @@ interface Balance {
   equity24hChangePercent?: number | null;
 }
 
+type RiskLevel = "low" | "medium" | "high";
+
+interface Risk {
+  effectiveLeverage: number | null;
+  minLiquidationDistancePercent: number | null;
+  level: RiskLevel;
+}
+
 interface Account {
   accountId: string;
   accountName: string;
@@ -49,6 +90,9 @@ interface Account {
   positions: Position[];
   buyOrders: Order[];
   sellOrders: Order[];
+  risk?: Risk;
+  control?: BotControl;
+  botState?: BotStateSummary;
   error?: string;
 }
 
@@ -58,6 +102,68 @@ interface MonitorData {
   publishedSymbols?: string[];
 }
 
+interface MonitorDiff {
+  timestamp: string;
+  added: Account[];
+  updated: Array<{
+    key: string;
+    accountId: string;
+    symbol: string;
+    changes: Partial<Account>;
+  }>;
+  removed: string[];
+}
+
+type StreamStatus = "connecting" | "live" | "polling";
+
+type SortMode = "risk" | "positionRatio";
+
+const RISK_RANK: Record<RiskLevel, number> = { high: 2, medium: 1, low: 0 };
+
+const RISK_CARD_CLASS: Record<RiskLevel, string> = {
+  high: "border-red-500 ring-2 ring-red-500/40",
+  medium: "border-amber-500",
+  low: "",
+};
+
+const POLL_INTERVAL_MS = 600000; // Fallback polling while the stream is down
+const STREAM_RETRY_MS = 30000;
+// Quick actions retry a request that never got an answer with the same key
+const IDEMPOTENT_ATTEMPTS = 3;
+const IDEMPOTENT_RETRY_MS = 1000;
+
+const cardKey = (account: Pick<Account, "accountId" | "symbol">) =>
+  `${account.accountId}:${account.symbol}`;
+
+/**
+ * Patch monitor data in place with a diff from /api/monitor/stream
+ * Card order is kept; new cards are appended
+ */
+function applyMonitorDiff(data: MonitorData, diff: MonitorDiff): MonitorData {
+  const removed = new Set(diff.removed);
+  const updates = new Map(diff.updated.map((patch) => [patch.key, patch.changes]));
+  const added = new Map(diff.added.map((account) => [cardKey(account), account]));
+
+  const accounts = data.accounts
+    .filter((account) => !removed.has(cardKey(account)))
+    .map((account) => {
+      const key = cardKey(account);
+      if (added.has(key)) {
+        const replacement = added.get(key)!;
+        added.delete(key);
+        return replacement;
+      }
+      const changes = updates.get(key);
+      return changes ? { ...account, ...changes } : account;
+    });
+
+  return {
+    ...data,
+    timestamp: diff.timestamp,
+    accounts: [...accounts, ...Array.from(added.values())],
+  };
+}
+
 export default function HomePage() {
   const { data: session, status } = useSession();
   const router = useRouter();
@@ -75,12 +181,54 @@ export default function HomePage() {
   const [isExchangeFilterOpen, setIsExchangeFilterOpen] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage, setItemsPerPage] = useState(30);
+  const [streamStatus, setStreamStatus] = useState<StreamStatus>("connecting");
+  const [sortMode, setSortMode] = useState<SortMode>("risk");
+  // Grid level being edited: "{accountId}:{symbol}:{side}:{field}", or ":new" for a new level
+  const [editingGridLevel, setEditingGridLevel] = useState<string | null>(null);
+  // Card whose grid builder dialog is open
+  const [gridBuilder, setGridBuilder] = useState<{
+    accountId: string;
+    symbol: string;
+    currentPrice?: number;
+  } | null>(null);
+  // Card whose order ticket is open
+  const [orderTicket, setOrderTicket] = useState<{
+    accountId: string;
+    symbol: string;
+    currentPrice?: number;
+  } | null>(null);
+  const [killSwitchOpen, setKillSwitchOpen] = useState(false);
+  // Dry-run plan awaiting confirmation
+  const [actionPreview, setActionPreview] = useState<{
+    title: string;
+    actions: PlannedAction[];
+    warnings: string[];
+    resolve: (confirmed: boolean) => void;
+  } | null>(null);
+  // Card whose custom close dialog is open
+  const [closeDialog, setCloseDialog] = useState<{
+    accountId: string;
+    symbol: string;
+  } | null>(null);
+  // Card whose bot state inspector is open
+  const [botStateCard, setBotStateCard] = useState<{
+    accountId: string;
+    symbol: string;
+  } | null>(null);
+  // Card whose grid history dialog is open
+  const [gridHistory, setGridHistory] = useState<{
+    accountId: string;
+    symbol: string;
+  } | null>(null);
 
   useEffect(() => {
     if (status === "unauthenticated") {
       router.push("/login");
+    } else if (status === "authenticated" && !session?.user?.role) {
+      // Session from before roles existed, or the user was deactivated
+      signOut({ callbackUrl: "/login" });
     }
-  }, [status, router]);
+  }, [status, session, router]);
 
   const fetchData = async () => {
     try {
@@ -100,22 +248,153 @@ export default function HomePage() {
     }
   };
 
+  // Live updates over SSE; poll /api/monitor while the stream is down
   useEffect(() => {
-    if (status === "authenticated") {
+    if (status !== "authenticated") return;
+
+    let source: EventSource | null = null;
+    let pollInterval: ReturnType<typeof setInterval> | null = null;
+    let retryTimeout: ReturnType<typeof setTimeout> | null = null;
+
+    const startPolling = () => {
+      setStreamStatus("polling");
+      if (pollInterval) return;
       fetchData();
-      const interval = setInterval(fetchData, 600000);
-      return () => clearInterval(interval);
-    }
+      pollInterval = setInterval(fetchData, POLL_INTERVAL_MS);
+    };
+
+    const stopPolling = () => {
+      if (pollInterval) {
+        clearInterval(pollInterval);
+        pollInterval = null;
+      }
+    };
+
+    const connect = () => {
+      setStreamStatus("connecting");
+      source = new EventSource("/api/monitor/stream");
+
+      source.addEventListener("snapshot", (event) => {
+        stopPolling();
+        setStreamStatus("live");
+        setError(null);
+        setData(JSON.parse((event as MessageEvent).data));
+        setIsInitialLoading(false);
+      });
+
+      source.addEventListener("patch", (event) => {
+        const diff: MonitorDiff = JSON.parse((event as MessageEvent).data);
+        setData((current) => (current ? applyMonitorDiff(current, diff) : current));
+      });
+
+      source.addEventListener("monitor-error", (event) => {
+        setError(JSON.parse((event as MessageEvent).data).error);
+      });
+
+      source.onerror = () => {
+        // The browser reconnects on its own (e.g. when the server ends the
+        // stream); only a refused connection needs polling and a manual retry
+        if (source?.readyState !== EventSource.CLOSED) {
+          setStreamStatus("connecting");
+          return;
+        }
+        source.close();
+        startPolling();
+        retryTimeout = setTimeout(connect, STREAM_RETRY_MS);
+      };
+    };
+
+    connect();
+
+    return () => {
+      source?.close();
+      stopPolling();
+      if (retryTimeout) clearTimeout(retryTimeout);
+    };
   }, [status]);
 
-  const closePosition = async (accountId: string, symbol: string, percentage: number) => {
-    if (!confirm(`Close ${percentage}% of ${symbol} positions?`)) return;
+  /**
+   * Run a mutating route with dryRun and ask for confirmation of its planned actions
+   * Resolves to false when cancelled or when there is nothing to do
+   */
+  const confirmDryRun = async (
+    title: string,
+    url: string,
+    body: Record<string, unknown>
+  ): Promise<boolean> => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...body, dryRun: true }),
+    });
+
+    const result = await response.json();
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || "Failed to preview");
+    }
+
+    const warnings: string[] = (result.results || []).flatMap((r: any) => [
+      ...(r.success ? [] : [`${r.symbol}: ${r.error}`]),
+      ...(r.warnings || []),
+    ]);
+
+    if (!result.actions?.length) {
+      alert([result.message || "Nothing to do", ...warnings].join("\n"));
+      return false;
+    }
+
+    return new Promise((resolve) =>
+      setActionPreview({ title, actions: result.actions, warnings, resolve })
+    );
+  };
+
+  /**
+   * POST with an Idempotency-Key created once for the action
+   * Only network errors and 409 (first attempt still running) are retried with
+   * the same key. 5xx is returned to the user: the exchange may have filled
+   * the order, so a resend is left to an explicit retry.
+   */
+  const postIdempotent = async (url: string, body: Record<string, unknown>): Promise<Response> => {
+    const idempotencyKey = crypto.randomUUID();
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await fetch(url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "Idempotency-Key": idempotencyKey,
+          },
+          body: JSON.stringify(body),
+        });
+        if (response.status !== 409 || attempt >= IDEMPOTENT_ATTEMPTS) {
+          return response;
+        }
+      } catch (error) {
+        if (attempt >= IDEMPOTENT_ATTEMPTS) {
+          throw error;
+        }
+      }
+      await new Promise((resolve) => setTimeout(resolve, IDEMPOTENT_RETRY_MS * attempt));
+    }
+  };
 
+  const closePosition = async (accountId: string, symbol: string, percentage: number) => {
     try {
-      const response = await fetch("/api/close-position", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ accountId, symbol, percentage }),
+      if (
+        !(await confirmDryRun(`Close ${percentage}% of ${symbol}`, "/api/close-position", {
+          accountId,
+          symbol,
+          percentage,
+        }))
+      ) {
+        return;
+      }
+
+      const response = await postIdempotent("/api/close-position", {
+        accountId,
+        symbol,
+        percentage,
       });
 
       const result = await response.json();
@@ -139,9 +418,17 @@ export default function HomePage() {
     orderId: string,
     instId: string
   ) => {
-    if (!confirm("Cancel this order?")) return;
-
     try {
+      if (
+        !(await confirmDryRun("Cancel order", "/api/cancel-order", {
+          accountId,
+          orderId,
+          instId,
+        }))
+      ) {
+        return;
+      }
+
       const response = await fetch("/api/cancel-order", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
@@ -169,19 +456,34 @@ export default function HomePage() {
     return 2; // Default to 2 decimal places
   };
 
-  const cancelAllOrders = async (accountId: string) => {
-    if (!confirm("Cancel ALL orders?")) return;
-
+  const cancelAllOrders = async (accountId: string, symbol: string) => {
     try {
+      if (
+        !(await confirmDryRun(
+          `Cancel all ${symbol === "all" ? "" : `${symbol} `}orders`,
+          "/api/cancel-all-orders",
+          { accountId, symbol }
+        ))
+      ) {
+        return;
+      }
+
       const response = await fetch("/api/cancel-all-orders", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ accountId }),
+        body: JSON.stringify({ accountId, symbol }),
       });
 
       const result = await response.json();
-      if (result.success) {
-        alert(`Cancelled ${result.cancelledCount} orders!`);
+      // 422 still lists each order's outcome when none could be cancelled
+      if (response.ok || result.results) {
+        const failed = (result.results || []).filter((r: any) => !r.success);
+        alert(
+          failed.length > 0
+            ? `Cancelled ${result.cancelledCount} of ${result.totalOrders} orders. Failed:\n` +
+                failed.map((r: any) => `${r.symbol} ${r.orderId}: ${r.error}`).join("\n")
+            : result.message
+        );
         fetchData();
       } else {
         alert("Error: " + (result.error || "Unknown error"));
@@ -195,13 +497,14 @@ export default function HomePage() {
     accountId: string,
     symbol: string,
     side: "buy" | "sell",
-    levelIndex: number
+    field: string,
+    expectedPrice?: number
   ) => {
     try {
       const response = await fetch("/api/delete-grid-level", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ accountId, symbol, side, levelIndex }),
+        body: JSON.stringify({ accountId, symbol, side, field, expectedPrice }),
       });
 
       const result = await response.json();
@@ -209,21 +512,88 @@ export default function HomePage() {
         fetchData();
       } else {
         alert("Error: " + (result.error || "Unknown error"));
+        // The level was changed or removed by the bot: show its current state
+        if (response.status === 404 || response.status === 409) {
+          fetchData();
+        }
       }
     } catch (error: any) {
       alert("Failed to delete grid level: " + error.message);
     }
   };
 
+  const saveGridLevel = async (
+    accountId: string,
+    symbol: string,
+    side: "buy" | "sell",
+    field: string | undefined,
+    edit: GridLevelEdit
+  ): Promise<boolean> => {
+    try {
+      const response = await fetch("/api/set-grid-level", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ accountId, symbol, side, field, ...edit }),
+      });
+
+      const result = await response.json();
+      if (result.success) {
+        setEditingGridLevel(null);
+        fetchData();
+        return true;
+      }
+      alert("Error: " + (result.error || "Unknown error"));
+      return false;
+    } catch (error: any) {
+      alert("Failed to save grid level: " + error.message);
+      return false;
+    }
+  };
+
+  const updateBotControl = async (
+    accountId: string,
+    symbol: string,
+    patch: BotControlPatch
+  ): Promise<boolean> => {
+    try {
+      const response = await fetch("/api/set-bot-control", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ accountId, symbol, ...patch }),
+      });
+
+      const result = await response.json();
+      if (result.success) {
+        fetchData();
+        return true;
+      }
+      alert("Error: " + (result.error || "Unknown error"));
+      return false;
+    } catch (error: any) {
+      alert("Failed to update bot control: " + error.message);
+      return false;
+    }
+  };
+
   const clearAllGridLevels = async (
     accountId: string,
     symbol: string,
     side?: "buy" | "sell"
   ) => {
     const sideText = side ? side.toUpperCase() : "ALL";
-    if (!confirm(`Clear ALL ${sideText} grid levels for ${symbol}?`)) return;
 
     try {
+      if (
+        !(await confirmDryRun(`Clear ${sideText} grid levels for ${symbol}`, "/api/delete-grid-level", {
+          accountId,
+          symbol,
+          side,
+          clearAll: true,
+        }))
+      ) {
+        return;
+      }
+
       const response = await fetch("/api/delete-grid-level", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
@@ -306,8 +676,27 @@ export default function HomePage() {
     return (totalNotional / account.balance.equity) * 100;
   }, []);
 
+  // Roll-up across every account, recomputed as the stream patches the cards
+  const portfolio = useMemo(
+    () => (data?.accounts ? summarizePortfolio(data.accounts) : null),
+    [data?.accounts]
+  );
+
+  // Riskiest first: risk level, then closest liquidation, then effective leverage
+  const compareRisk = useCallback((a: Account, b: Account): number => {
+    const levelDiff =
+      RISK_RANK[b.risk?.level || "low"] - RISK_RANK[a.risk?.level || "low"];
+    if (levelDiff !== 0) return levelDiff;
+
+    const distanceA = a.risk?.minLiquidationDistancePercent ?? Infinity;
+    const distanceB = b.risk?.minLiquidationDistancePercent ?? Infinity;
+    if (distanceA !== distanceB) return distanceA - distanceB;
+
+    return (b.risk?.effectiveLeverage || 0) - (a.risk?.effectiveLeverage || 0);
+  }, []);
+
   // Filter accounts based on search query, selected symbols, and exchanges - memoized for performance
-  // Sorted by Position Ratio (high to low)
+  // Sorted by risk or by Position Ratio (high to low)
   const filteredAccounts = useMemo(() => {
     if (!data?.accounts) return [];
 
@@ -337,9 +726,21 @@ export default function HomePage() {
       return matchesName || matchesSymbol || matchesExchange || matchesAccountId;
     });
 
+    if (sortMode === "risk") {
+      return filtered.sort(compareRisk);
+    }
+
     // Sort by Position Ratio (high to low)
     return filtered.sort((a, b) => getPositionRatio(b) - getPositionRatio(a));
-  }, [data?.accounts, selectedSymbols, selectedExchanges, searchQuery, getPositionRatio]);
+  }, [
+    data?.accounts,
+    selectedSymbols,
+    selectedExchanges,
+    searchQuery,
+    sortMode,
+    compareRisk,
+    getPositionRatio,
+  ]);
 
   // Paginated accounts - memoized for performance
   const paginatedAccounts = useMemo(() => {
@@ -364,6 +765,9 @@ export default function HomePage() {
     return null;
   }
 
+  const canTrade = hasRole(session.user?.role, "trader");
+  const isAdmin = hasRole(session.user?.role, "admin");
+
   return (
     <div className="min-h-screen bg-background p-4 lg:p-8">
       <div className="max-w-[1800px] mx-auto">
@@ -377,9 +781,32 @@ export default function HomePage() {
                 {data
                   ? `Last updated: ${new Date(data.timestamp).toLocaleString()}`
                   : "Loading..."}
+                <Badge
+                  variant={streamStatus === "live" ? "default" : "secondary"}
+                  className="ml-2 text-xs"
+                >
+                  {streamStatus === "live"
+                    ? "Live"
+                    : streamStatus === "polling"
+                      ? "Polling"
+                      : "Connecting"}
+                </Badge>
               </div>
             </div>
             <div className="flex items-center gap-2">
+              {isAdmin && (
+                <>
+                  <Button onClick={() => setKillSwitchOpen(true)} variant="destructive">
+                    Kill Switch
+                  </Button>
+                  <Link href="/audit">
+                    <Button variant="outline">Audit</Button>
+                  </Link>
+                </>
+              )}
+              <span className="hidden sm:inline text-xs text-muted-foreground">
+                {session.user?.name} · {session.user?.role ?? "no role"}
+              </span>
               <ThemeToggle />
               <Button onClick={() => signOut()} variant="outline">
                 Sign Out
@@ -608,7 +1035,21 @@ export default function HomePage() {
               </div>
             )}
 
-            <div className="flex items-center gap-2 ml-auto">
+            <div className="flex items-center gap-4 ml-auto">
+              <label className="text-sm text-muted-foreground flex items-center gap-2">
+                Sort by:
+                <select
+                  value={sortMode}
+                  onChange={(e) => {
+                    setSortMode(e.target.value as SortMode);
+                    setCurrentPage(1);
+                  }}
+                  className="px-2 py-1 rounded border border-input bg-background text-sm"
+                >
+                  <option value="risk">Risk</option>
+                  <option value="positionRatio">Position Ratio</option>
+                </select>
+              </label>
               <label className="text-sm text-muted-foreground flex items-center gap-2">
                 Items per page:
                 <select
@@ -701,6 +1142,8 @@ export default function HomePage() {
           )}
         </div>
 
+        {portfolio && <PortfolioPanel summary={portfolio} />}
+
         {error && (
           <div className="bg-destructive/10 border border-destructive/20 text-destructive p-4 rounded-lg mb-6">
             {error}
@@ -729,13 +1172,20 @@ export default function HomePage() {
             paginatedAccounts.map((account) => (
               <Card
                 key={`${account.accountId}-${account.symbol}`}
-                className="overflow-hidden"
+                className={`overflow-hidden ${
+                  account.risk ? RISK_CARD_CLASS[account.risk.level] : ""
+                }`}
               >
                 <CardHeader className="pb-4">
                   <div className="flex justify-between items-start gap-4">
                     <div className="flex-1 min-w-0">
                       <CardTitle className="text-lg lg:text-xl truncate">
-                        {account.accountName}
+                        <Link
+                          href={`/accounts/${account.accountId}`}
+                          className="hover:underline"
+                        >
+                          {account.accountName}
+                        </Link>
                       </CardTitle>
                       <div className="flex items-center gap-2 mt-1">
                         <div className="text-sm lg:text-base font-semibold text-foreground">
@@ -746,6 +1196,44 @@ export default function HomePage() {
                             {account.exchange}
                           </Badge>
                         )}
+                        {account.risk && account.risk.level !== "low" && (
+                          <Badge
+                            variant={
+                              account.risk.level === "high" ? "destructive" : "outline"
+                            }
+                            className={`text-xs ${
+                              account.risk.level === "medium"
+                                ? "border-amber-500 text-amber-600"
+                                : ""
+                            }`}
+                          >
+                            {account.risk.level === "high" ? "High risk" : "Elevated risk"}
+                          </Badge>
+                        )}
+                        {account.botState?.stale && (
+                          <Badge variant="destructive" className="text-xs">
+                            Bot stale
+                          </Badge>
+                        )}
+                        {account.control?.paused && (
+                          <Badge variant="destructive" className="text-xs">
+                            Paused
+                          </Badge>
+                        )}
+                        {account.control?.reduceOnly && (
+                          <Badge
+                            variant="outline"
+                            className="text-xs border-amber-500 text-amber-600"
+                          >
+                            Reduce-only
+                          </Badge>
+                        )}
+                        {account.risk?.effectiveLeverage !== null &&
+                          account.risk?.effectiveLeverage !== undefined && (
+                            <span className="text-xs text-muted-foreground">
+                              {account.risk.effectiveLeverage.toFixed(2)}x eff.
+                            </span>
+                          )}
                       </div>
                     </div>
                     <Badge variant="outline" className="text-xs shrink-0">
@@ -761,6 +1249,29 @@ export default function HomePage() {
                     </div>
                   ) : (
                     <>
+                      {account.control && (
+                        <BotControlBar
+                          key={String(account.control.maxPositionNotional)}
+                          control={account.control}
+                          readOnly={!canTrade}
+                          onChange={(patch) =>
+                            updateBotControl(account.accountId, account.symbol, patch)
+                          }
+                        />
+                      )}
+
+                      {account.botState && (
+                        <BotStateLine
+                          botState={account.botState}
+                          onClick={() =>
+                            setBotStateCard({
+                              accountId: account.accountId,
+                              symbol: account.symbol,
+                            })
+                          }
+                        />
+                      )}
+
                       {account.balance && (
                         <div className="bg-muted/50 rounded-lg p-4 border">
                           <div className="flex flex-wrap gap-6">
@@ -849,24 +1360,64 @@ export default function HomePage() {
                             {account.positions.length > 0 &&
                               `(${account.positions.length})`}
                           </div>
-                          {account.positions.length > 0 && (
+                          {canTrade && (
                             <div className="flex gap-2">
-                              {[10, 20, 40, 80, 100].map((pct) => (
+                              <Button
+                                onClick={() =>
+                                  setOrderTicket({
+                                    accountId: account.accountId,
+                                    symbol: account.symbol,
+                                    currentPrice: account.currentPrice,
+                                  })
+                                }
+                                size="sm"
+                                variant="outline"
+                                className="text-xs h-8"
+                              >
+                                New Order
+                              </Button>
+                              <Button
+                                onClick={() =>
+                                  cancelAllOrders(account.accountId, account.symbol)
+                                }
+                                size="sm"
+                                variant="outline"
+                                className="text-xs h-8"
+                              >
+                                Cancel Orders
+                              </Button>
+                              {account.positions.length > 0 &&
+                                [10, 20, 40, 80, 100].map((pct) => (
+                                  <Button
+                                    key={pct}
+                                    onClick={() =>
+                                      closePosition(account.accountId, account.symbol, pct)
+                                    }
+                                    size="sm"
+                                    className={`text-xs h-8 px-3 ${
+                                      pct === 100
+                                        ? "bg-red-600 hover:bg-red-700"
+                                        : "bg-blue-600 hover:bg-blue-700"
+                                    }`}
+                                  >
+                                    {pct === 100 ? "All" : `${pct}%`}
+                                  </Button>
+                                ))}
+                              {account.positions.length > 0 && (
                                 <Button
-                                  key={pct}
                                   onClick={() =>
-                                    closePosition(account.accountId, account.symbol, pct)
+                                    setCloseDialog({
+                                      accountId: account.accountId,
+                                      symbol: account.symbol,
+                                    })
                                   }
                                   size="sm"
-                                  className={`text-xs h-8 px-3 ${
-                                    pct === 100
-                                      ? "bg-red-600 hover:bg-red-700"
-                                      : "bg-blue-600 hover:bg-blue-700"
-                                  }`}
+                                  variant="outline"
+                                  className="text-xs h-8"
                                 >
-                                  {pct === 100 ? "All" : `${pct}%`}
+                                  Close...
                                 </Button>
-                              ))}
+                              )}
                             </div>
                           )}
                         </div>
@@ -918,6 +1469,40 @@ export default function HomePage() {
                                         ${pos.avgPrice.toFixed(2)}
                                       </span>
                                     </div>
+                                    {pos.liquidationPrice && (
+                                      <div className="flex items-baseline gap-2">
+                                        <span className="text-muted-foreground text-xs">
+                                          Liq:
+                                        </span>
+                                        <span className="font-medium text-sm">
+                                          ${pos.liquidationPrice.toFixed(2)}
+                                        </span>
+                                        {pos.liquidationDistancePercent !== null &&
+                                          pos.liquidationDistancePercent !== undefined && (
+                                            <span
+                                              className={`text-xs font-semibold ${
+                                                pos.liquidationDistancePercent < 10
+                                                  ? "text-red-600"
+                                                  : pos.liquidationDistancePercent < 25
+                                                    ? "text-amber-600"
+                                                    : "text-muted-foreground"
+                                              }`}
+                                            >
+                                              ({pos.liquidationDistancePercent.toFixed(1)}% away)
+                                            </span>
+                                          )}
+                                      </div>
+                                    )}
+                                    {(pos.margin || pos.marginRatio) && (
+                                      <div className="text-xs text-muted-foreground">
+                                        {pos.margin ? `Margin $${pos.margin.toFixed(2)}` : ""}
+                                        {pos.margin && pos.marginRatio ? " · " : ""}
+                                        {pos.marginRatio
+                                          ? `Margin ratio ${pos.marginRatio.toFixed(2)}`
+                                          : ""}
+                                        {pos.marginMode ? ` (${pos.marginMode})` : ""}
+                                      </div>
+                                    )}
                                   </div>
                                   <div className="text-right">
                                     <div
@@ -965,25 +1550,97 @@ export default function HomePage() {
                                 account.sellOrders.length
                               })`}
                           </div>
-                          {(account.buyOrders.length > 0 ||
-                            account.sellOrders.length > 0) && (
+                          <div className="flex gap-2">
+                            {canTrade && (
+                              <Button
+                                onClick={() =>
+                                  setGridBuilder({
+                                    accountId: account.accountId,
+                                    symbol: account.symbol,
+                                    currentPrice: account.currentPrice,
+                                  })
+                                }
+                                size="sm"
+                                variant="outline"
+                                className="text-xs h-8"
+                              >
+                                Build Grid
+                              </Button>
+                            )}
                             <Button
                               onClick={() =>
-                                clearAllGridLevels(
-                                  account.accountId,
-                                  account.symbol
-                                )
+                                setGridHistory({
+                                  accountId: account.accountId,
+                                  symbol: account.symbol,
+                                })
                               }
                               size="sm"
-                              variant="destructive"
+                              variant="outline"
                               className="text-xs h-8"
                             >
-                              Clear All
+                              History
                             </Button>
-                          )}
+                            {canTrade && (
+                              <>
+                                {(["sell", "buy"] as const).map((side) => (
+                                  <Button
+                                    key={side}
+                                    onClick={() =>
+                                      setEditingGridLevel(
+                                        `${account.accountId}:${account.symbol}:${side}:new`
+                                      )
+                                    }
+                                    size="sm"
+                                    variant="outline"
+                                    className="text-xs h-8"
+                                  >
+                                    + {side === "buy" ? "Buy" : "Sell"}
+                                  </Button>
+                                ))}
+                                {(account.buyOrders.length > 0 ||
+                                  account.sellOrders.length > 0) && (
+                                  <Button
+                                    onClick={() =>
+                                      clearAllGridLevels(
+                                        account.accountId,
+                                        account.symbol
+                                      )
+                                    }
+                                    size="sm"
+                                    variant="destructive"
+                                    className="text-xs h-8"
+                                  >
+                                    Clear All
+                                  </Button>
+                                )}
+                              </>
+                            )}
+                          </div>
                         </div>
 
                         <div className="bg-muted/30 rounded-lg">
+                          {(["sell", "buy"] as const).map(
+                            (side) =>
+                              editingGridLevel ===
+                                `${account.accountId}:${account.symbol}:${side}:new` && (
+                                <div key={side} className="p-2">
+                                  <GridLevelEditor
+                                    side={side}
+                                    initialPrice={account.currentPrice}
+                                    onSave={(edit) =>
+                                      saveGridLevel(
+                                        account.accountId,
+                                        account.symbol,
+                                        side,
+                                        undefined,
+                                        edit
+                                      )
+                                    }
+                                    onCancel={() => setEditingGridLevel(null)}
+                                  />
+                                </div>
+                              )
+                          )}
                           {account.buyOrders.length === 0 &&
                           account.sellOrders.length === 0 ? (
                             <div className="text-muted-foreground text-center py-8 text-sm italic">
@@ -1004,7 +1661,7 @@ export default function HomePage() {
                                 <span className="text-xs font-semibold text-muted-foreground uppercase flex-1 min-w-0 text-center">
                                   Distance
                                 </span>
-                                <span className="w-8"></span>
+                                <span className="w-16"></span>
                               </div>
                               <div className="space-y-1.5">
                                 {account.sellOrders
@@ -1018,8 +1675,31 @@ export default function HomePage() {
                                   }))
                                   .sort((a, b) => b.price - a.price)
                                   .map((order, idx) => {
-                                    const levelIndex = parseInt(order.orderId.split('_')[2] || '0');
+                                    const field = order.field ?? "";
                                     const decimals = account.currentPrice ? getDecimalPlaces(account.currentPrice) : 2;
+                                    if (
+                                      editingGridLevel ===
+                                      `${account.accountId}:${account.symbol}:sell:${field}`
+                                    ) {
+                                      return (
+                                        <GridLevelEditor
+                                          key={order.orderId}
+                                          side="sell"
+                                          initialPrice={order.levelPrice ?? order.price}
+                                          initialSize={order.size}
+                                          onSave={(edit) =>
+                                            saveGridLevel(
+                                              account.accountId,
+                                              account.symbol,
+                                              "sell",
+                                              field,
+                                              edit
+                                            )
+                                          }
+                                          onCancel={() => setEditingGridLevel(null)}
+                                        />
+                                      );
+                                    }
                                     return (
                                       <div
                                         key={order.orderId}
@@ -1038,21 +1718,38 @@ export default function HomePage() {
                                           {order.distance >= 0 ? "+" : ""}
                                           {order.distance.toFixed(2)}%
                                         </span>
-                                        <Button
-                                          onClick={() =>
-                                            deleteGridLevel(
-                                              account.accountId,
-                                              account.symbol,
-                                              "sell",
-                                              levelIndex
-                                            )
-                                          }
-                                          size="sm"
-                                          variant="ghost"
-                                          className="opacity-0 group-hover:opacity-100 text-xs h-6 px-2 hover:bg-destructive hover:text-destructive-foreground w-8 shrink-0"
-                                        >
-                                          ✕
-                                        </Button>
+                                        {canTrade && (
+                                          <>
+                                            <Button
+                                              onClick={() =>
+                                                setEditingGridLevel(
+                                                  `${account.accountId}:${account.symbol}:sell:${field}`
+                                                )
+                                              }
+                                              size="sm"
+                                              variant="ghost"
+                                              className="opacity-0 group-hover:opacity-100 text-xs h-6 px-2 w-8 shrink-0"
+                                            >
+                                              ✎
+                                            </Button>
+                                            <Button
+                                              onClick={() =>
+                                                deleteGridLevel(
+                                                  account.accountId,
+                                                  account.symbol,
+                                                  "sell",
+                                                  field,
+                                                  order.levelPrice
+                                                )
+                                              }
+                                              size="sm"
+                                              variant="ghost"
+                                              className="opacity-0 group-hover:opacity-100 text-xs h-6 px-2 hover:bg-destructive hover:text-destructive-foreground w-8 shrink-0"
+                                            >
+                                              ✕
+                                            </Button>
+                                          </>
+                                        )}
                                       </div>
                                     );
                                   })}
@@ -1079,8 +1776,31 @@ export default function HomePage() {
                                   }))
                                   .sort((a, b) => b.price - a.price)
                                   .map((order, idx) => {
-                                    const levelIndex = parseInt(order.orderId.split('_')[2] || '0');
+                                    const field = order.field ?? "";
                                     const decimals = account.currentPrice ? getDecimalPlaces(account.currentPrice) : 2;
+                                    if (
+                                      editingGridLevel ===
+                                      `${account.accountId}:${account.symbol}:buy:${field}`
+                                    ) {
+                                      return (
+                                        <GridLevelEditor
+                                          key={order.orderId}
+                                          side="buy"
+                                          initialPrice={order.levelPrice ?? order.price}
+                                          initialSize={order.size}
+                                          onSave={(edit) =>
+                                            saveGridLevel(
+                                              account.accountId,
+                                              account.symbol,
+                                              "buy",
+                                              field,
+                                              edit
+                                            )
+                                          }
+                                          onCancel={() => setEditingGridLevel(null)}
+                                        />
+                                      );
+                                    }
                                     return (
                                       <div
                                         key={order.orderId}
@@ -1099,21 +1819,38 @@ export default function HomePage() {
                                           {order.distance >= 0 ? "+" : ""}
                                           {order.distance.toFixed(2)}%
                                         </span>
-                                        <Button
-                                          onClick={() =>
-                                            deleteGridLevel(
-                                              account.accountId,
-                                              account.symbol,
-                                              "buy",
-                                              levelIndex
-                                            )
-                                          }
-                                          size="sm"
-                                          variant="ghost"
-                                          className="opacity-0 group-hover:opacity-100 text-xs h-6 px-2 hover:bg-destructive hover:text-destructive-foreground w-8 shrink-0"
-                                        >
-                                          ✕
-                                        </Button>
+                                        {canTrade && (
+                                          <>
+                                            <Button
+                                              onClick={() =>
+                                                setEditingGridLevel(
+                                                  `${account.accountId}:${account.symbol}:buy:${field}`
+                                                )
+                                              }
+                                              size="sm"
+                                              variant="ghost"
+                                              className="opacity-0 group-hover:opacity-100 text-xs h-6 px-2 w-8 shrink-0"
+                                            >
+                                              ✎
+                                            </Button>
+                                            <Button
+                                              onClick={() =>
+                                                deleteGridLevel(
+                                                  account.accountId,
+                                                  account.symbol,
+                                                  "buy",
+                                                  field,
+                                                  order.levelPrice
+                                                )
+                                              }
+                                              size="sm"
+                                              variant="ghost"
+                                              className="opacity-0 group-hover:opacity-100 text-xs h-6 px-2 hover:bg-destructive hover:text-destructive-foreground w-8 shrink-0"
+                                            >
+                                              ✕
+                                            </Button>
+                                          </>
+                                        )}
                                       </div>
                                     );
                                   })}
@@ -1174,6 +1911,112 @@ export default function HomePage() {
         <div className="text-center text-muted-foreground text-sm py-6 mt-8">
           Auto-refresh every 10 minutes
         </div>
+
+        {gridBuilder && (
+          <GridBuilderDialog
+            key={`${gridBuilder.accountId}:${gridBuilder.symbol}`}
+            open
+            onOpenChange={(open) => {
+              if (!open) setGridBuilder(null);
+            }}
+            accountId={gridBuilder.accountId}
+            symbol={gridBuilder.symbol}
+            currentPrice={gridBuilder.currentPrice}
+            onApplied={fetchData}
+          />
+        )}
+
+        {orderTicket && (
+          <OrderTicketDialog
+            key={`${orderTicket.accountId}:${orderTicket.symbol}`}
+            open
+            onOpenChange={(open) => {
+              if (!open) setOrderTicket(null);
+            }}
+            accountId={orderTicket.accountId}
+            symbol={orderTicket.symbol}
+            currentPrice={orderTicket.currentPrice}
+            onPlaced={fetchData}
+          />
+        )}
+
+        {actionPreview && (
+          <ConfirmActionsDialog
+            open
+            onOpenChange={(open) => {
+              if (!open) {
+                actionPreview.resolve(false);
+                setActionPreview(null);
+              }
+            }}
+            title={actionPreview.title}
+            actions={actionPreview.actions}
+            warnings={actionPreview.warnings}
+            onConfirm={() => {
+              actionPreview.resolve(true);
+              setActionPreview(null);
+            }}
+          />
+        )}
+
+        {killSwitchOpen && (
+          <KillSwitchDialog
+            open
+            onOpenChange={setKillSwitchOpen}
+            accounts={Array.from(
+              new Map(
+                (data?.accounts || []).map((account) => [account.accountId, account])
+              ).values()
+            )}
+            symbols={Array.from(
+              new Set(
+                (data?.accounts || [])
+                  .filter((account) => !account.error)
+                  .map((account) => account.symbol)
+              )
+            ).sort()}
+            onFinished={fetchData}
+          />
+        )}
+
+        {closeDialog && (
+          <ClosePositionDialog
+            key={`${closeDialog.accountId}:${closeDialog.symbol}`}
+            open
+            onOpenChange={(open) => {
+              if (!open) setCloseDialog(null);
+            }}
+            accountId={closeDialog.accountId}
+            symbol={closeDialog.symbol}
+            onClosed={fetchData}
+          />
+        )}
+
+        {botStateCard && (
+          <BotStateDialog
+            key={`${botStateCard.accountId}:${botStateCard.symbol}`}
+            open
+            onOpenChange={(open) => {
+              if (!open) setBotStateCard(null);
+            }}
+            accountId={botStateCard.accountId}
+            symbol={botStateCard.symbol}
+          />
+        )}
+
+        {gridHistory && (
+          <GridHistoryDialog
+            key={`${gridHistory.accountId}:${gridHistory.symbol}`}
+            open
+            onOpenChange={(open) => {
+              if (!open) setGridHistory(null);
+            }}
+            accountId={gridHistory.accountId}
+            symbol={gridHistory.symbol}
+            onRestored={fetchData}
+            readOnly={!canTrade}
+          />
+        )}
       </div>
     </div>
   );
@@ -6,37 +6,26 @@ import { useRouter } from "next/navigation";
 
 interface Position {
   symbol: string;
-  side: string;
-  positionAmt: string;
-  entryPrice: string;
-  unRealizedProfit: string;
-  leverage: string;
-  notional: string;
-  updateTime: number;
+  side: "LONG" | "SHORT";
+  contracts: number;
+  avgPrice: number;
+  unrealizedPnL: number;
+  leverage: number;
+  notionalUsd: number;
 }
 
-interface Income {
+interface Fill {
   symbol: string;
-  income: string;
-  incomeType: string;
-  asset: string;
-  info: string;
-  time: number;
-}
-
-interface Trade {
-  symbol: string;
-  id: number;
-  orderId: number;
-  side: string;
-  price: string;
-  qty: string;
-  realizedPnl: string;
-  commission: string;
-  commissionAsset: string;
-  time: number;
-  buyer: boolean;
+  tradeId: string;
+  orderId: string;
+  side: "buy" | "sell";
+  price: number;
+  size: number;
+  fee: number;
+  feeAsset: string;
+  realizedPnL: number;
   maker: boolean;
+  time: number;
 }
 
 export default function TradeHistoryPage() {
@@ -78,28 +67,29 @@ export default function TradeHistoryPage() {
 
       const data = await response.json();
 
-      // Group trades by symbol to create closed position history
-      const tradesBySymbol: { [key: string]: Trade[] } = {};
-      (data.trades || []).forEach((trade: Trade) => {
-        if (!tradesBySymbol[trade.symbol]) {
-          tradesBySymbol[trade.symbol] = [];
+      // Group fills by symbol to create closed position history
+      const fillsBySymbol: { [key: string]: Fill[] } = {};
+      (data.fills || []).forEach((fill: Fill) => {
+        if (!fillsBySymbol[fill.symbol]) {
+          fillsBySymbol[fill.symbol] = [];
         }
-        tradesBySymbol[trade.symbol].push(trade);
+        fillsBySymbol[fill.symbol].push(fill);
       });
 
-      // Calculate closed positions from realized PnL income
+      // Calculate closed positions from fills carrying realized PnL
       const closedPosMap: { [key: string]: any } = {};
-      (data.income || []).forEach((inc: Income) => {
-        if (inc.incomeType === "REALIZED_PNL" && parseFloat(inc.income) !== 0) {
-          const key = `${inc.symbol}_${inc.time}`;
+      (data.fills || []).forEach((fill: Fill) => {
+        if (fill.realizedPnL !== 0) {
+          const key = `${fill.symbol}_${fill.time}`;
           if (!closedPosMap[key]) {
             closedPosMap[key] = {
-              symbol: inc.symbol,
-              realizedPnl: parseFloat(inc.income),
-              time: inc.time,
-              trades: tradesBySymbol[inc.symbol] || [],
+              symbol: fill.symbol,
+              realizedPnl: 0,
+              time: fill.time,
+              trades: fillsBySymbol[fill.symbol] || [],
             };
           }
+          closedPosMap[key].realizedPnl += fill.realizedPnL;
         }
       });
 
@@ -107,7 +97,7 @@ export default function TradeHistoryPage() {
         .sort((a, b) => b.time - a.time)
         .map((pos: any) => {
           const symbolTrades = pos.trades.filter(
-            (t: Trade) => Math.abs(t.time - pos.time) < 60000 * 10 // Within 10 minutes
+            (t: Fill) => Math.abs(t.time - pos.time) < 60000 * 10 // Within 10 minutes
           );
 
           let entryPrice = 0;
@@ -117,15 +107,14 @@ export default function TradeHistoryPage() {
 
           if (symbolTrades.length > 0) {
             const sortedTrades = [...symbolTrades].sort((a, b) => a.time - b.time);
-            entryPrice = parseFloat(sortedTrades[0].price);
-            exitPrice = parseFloat(sortedTrades[sortedTrades.length - 1].price);
+            entryPrice = sortedTrades[0].price;
+            exitPrice = sortedTrades[sortedTrades.length - 1].price;
 
             // Calculate max position held
             let runningQty = 0;
-            symbolTrades.forEach((t: Trade) => {
-              const qty = parseFloat(t.qty);
-              runningQty = t.side === "BUY" ? runningQty + qty : runningQty - qty;
-              maxHeld = Math.max(maxHeld, Math.abs(runningQty * parseFloat(t.price)));
+            symbolTrades.forEach((t: Fill) => {
+              runningQty = t.side === "buy" ? runningQty + t.size : runningQty - t.size;
+              maxHeld = Math.max(maxHeld, Math.abs(runningQty * t.price));
             });
 
             if (maxHeld > 0) {
@@ -207,11 +196,11 @@ export default function TradeHistoryPage() {
                 </thead>
                 <tbody>
                   {positions
-                    .filter((pos) => Math.abs(parseFloat(pos.positionAmt)) > 0)
+                    .filter((pos) => pos.contracts > 0)
                     .map((pos, idx) => {
-                      const isLong = parseFloat(pos.positionAmt) > 0;
-                      const unrealizedPnl = parseFloat(pos.unRealizedProfit);
-                      const notional = Math.abs(parseFloat(pos.notional));
+                      const isLong = pos.side === "LONG";
+                      const unrealizedPnl = pos.unrealizedPnL;
+                      const notional = pos.notionalUsd;
                       const roe = notional > 0 ? (unrealizedPnl / notional) * 100 : 0;
 
                       return (
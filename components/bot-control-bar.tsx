@@ -0,0 +1,102 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+export interface BotControl {
+  paused: boolean;
+  reduceOnly: boolean;
+  maxPositionNotional: number | null;
+  updatedAt?: number;
+  updatedBy?: string;
+}
+
+export type BotControlPatch = Partial<
+  Pick<BotControl, "paused" | "reduceOnly" | "maxPositionNotional">
+>;
+
+interface BotControlBarProps {
+  control: BotControl;
+  // Resolves to true when saved
+  onChange: (patch: BotControlPatch) => Promise<boolean>;
+  // Show the flags without letting them be changed (viewer role)
+  readOnly?: boolean;
+}
+
+/**
+ * Per-card bot control toggles: pause/resume, reduce-only and max position notional
+ * Flags are written to hypotomuai:{exchange}:mmgrid:control:* via /api/set-bot-control
+ */
+export function BotControlBar({ control, onChange, readOnly = false }: BotControlBarProps) {
+  const [saving, setSaving] = useState(false);
+  const [maxNotional, setMaxNotional] = useState(
+    control.maxPositionNotional?.toString() ?? ""
+  );
+
+  const save = async (patch: BotControlPatch) => {
+    setSaving(true);
+    try {
+      await onChange(patch);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const maxNotionalValue = maxNotional.trim() === "" ? null : Number(maxNotional);
+  const maxNotionalValid =
+    maxNotionalValue === null || (Number.isFinite(maxNotionalValue) && maxNotionalValue > 0);
+  const maxNotionalDirty = maxNotionalValue !== control.maxPositionNotional;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 p-2 rounded-lg bg-muted/30 text-xs">
+      <Button
+        size="sm"
+        variant={control.paused ? "destructive" : "outline"}
+        onClick={() => save({ paused: !control.paused })}
+        disabled={saving || readOnly}
+        className="text-xs h-7"
+      >
+        {control.paused ? "⏸ Paused" : "▶ Running"}
+      </Button>
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => save({ reduceOnly: !control.reduceOnly })}
+        disabled={saving || readOnly}
+        className={`text-xs h-7 ${
+          control.reduceOnly ? "border-amber-500 text-amber-600 bg-amber-50 dark:bg-amber-950/20" : ""
+        }`}
+      >
+        Reduce-only {control.reduceOnly ? "ON" : "OFF"}
+      </Button>
+      <div className="flex items-center gap-1 ml-auto">
+        <span className="text-muted-foreground">Max notional $</span>
+        <Input
+          type="number"
+          step="any"
+          placeholder="No cap"
+          value={maxNotional}
+          disabled={readOnly}
+          onChange={(e) => setMaxNotional(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && maxNotionalValid && maxNotionalDirty) {
+              save({ maxPositionNotional: maxNotionalValue });
+            }
+          }}
+          className="h-7 w-24 text-xs"
+        />
+        {maxNotionalDirty && (
+          <Button
+            size="sm"
+            onClick={() => save({ maxPositionNotional: maxNotionalValue })}
+            disabled={saving || !maxNotionalValid}
+            className="text-xs h-7 px-2"
+          >
+            Set
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+export interface BotState {
+  lastMidPrice?: number;
+  lastPosition?: number;
+  cycleNumber?: number;
+  [key: string]: any;
+}
+
+export interface BotStateSummary {
+  state: BotState | null;
+  updatedAt: number | null;
+  stale: boolean;
+}
+
+interface StateEntry {
+  timestamp: number;
+  state: BotState | null;
+}
+
+interface StateResponse extends BotStateSummary {
+  staleSince: number | null;
+  history: StateEntry[];
+}
+
+interface BotStateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  accountId: string;
+  symbol: string;
+}
+
+/**
+ * One-line summary of the bot's mmgrid state for a card
+ */
+export function BotStateLine({
+  botState,
+  onClick,
+}: {
+  botState: BotStateSummary;
+  onClick: () => void;
+}) {
+  const { state, updatedAt, stale } = botState;
+
+  if (!state && !stale) return null;
+
+  return (
+    <button
+      onClick={onClick}
+      className="w-full flex flex-wrap items-center gap-3 px-2 py-1.5 rounded-lg bg-muted/30 text-xs text-left hover:bg-muted/60 transition-colors"
+    >
+      {stale ? (
+        <Badge variant="destructive" className="text-xs">
+          Bot stale
+        </Badge>
+      ) : (
+        <Badge variant="outline" className="text-xs border-green-500 text-green-600">
+          Bot live
+        </Badge>
+      )}
+      {state && (
+        <>
+          {state.cycleNumber !== undefined && <span>Cycle #{state.cycleNumber}</span>}
+          {state.lastMidPrice !== undefined && (
+            <span className="text-muted-foreground">Mid ${state.lastMidPrice}</span>
+          )}
+          {state.lastPosition !== undefined && (
+            <span className="text-muted-foreground">Pos {state.lastPosition}</span>
+          )}
+        </>
+      )}
+      {updatedAt && (
+        <span className="ml-auto text-muted-foreground">
+          updated {new Date(updatedAt).toLocaleTimeString()}
+        </span>
+      )}
+    </button>
+  );
+}
+
+/**
+ * Bot state inspector: the live state and its recorded changes over the last 24h
+ */
+export function BotStateDialog({ open, onOpenChange, accountId, symbol }: BotStateDialogProps) {
+  const [data, setData] = useState<StateResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchState = async () => {
+      try {
+        const response = await fetch(
+          `/api/account-state?accountId=${encodeURIComponent(accountId)}&symbol=${encodeURIComponent(symbol)}`
+        );
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || "Failed to fetch bot state");
+        }
+        setData(result);
+      } catch (err: any) {
+        setError(err.message);
+      }
+    };
+
+    fetchState();
+  }, [open, accountId, symbol]);
+
+  const history = data ? [...data.history].reverse() : [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Bot State · {symbol}</DialogTitle>
+          <DialogDescription>
+            State written by the bot each cycle (expires after 5 minutes without an update).
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="bg-destructive/10 border border-destructive/20 text-destructive p-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        {!data ? (
+          !error && (
+            <div className="text-center py-6 text-muted-foreground text-sm">Loading...</div>
+          )
+        ) : (
+          <div className="space-y-4 text-sm">
+            <div className="flex items-center gap-2">
+              {data.stale ? (
+                <Badge variant="destructive">Stale</Badge>
+              ) : data.state ? (
+                <Badge variant="outline" className="border-green-500 text-green-600">
+                  Live
+                </Badge>
+              ) : (
+                <Badge variant="secondary">No state</Badge>
+              )}
+              {data.updatedAt && (
+                <span className="text-xs text-muted-foreground">
+                  Last written {new Date(data.updatedAt).toLocaleString()}
+                </span>
+              )}
+              {data.staleSince && (
+                <span className="text-xs text-muted-foreground">
+                  Expired by {new Date(data.staleSince).toLocaleString()}
+                </span>
+              )}
+            </div>
+
+            {data.state && (
+              <pre className="bg-muted/50 rounded-lg p-3 text-xs overflow-x-auto">
+                {JSON.stringify(data.state, null, 2)}
+              </pre>
+            )}
+
+            <div>
+              <div className="text-xs font-semibold text-muted-foreground mb-2">
+                Changes (24h)
+              </div>
+              {history.length === 0 ? (
+                <div className="text-center py-4 text-muted-foreground text-xs">
+                  No recorded changes
+                </div>
+              ) : (
+                <div className="max-h-72 overflow-y-auto space-y-1">
+                  {history.map((entry) => (
+                    <div
+                      key={entry.timestamp}
+                      className="flex items-center gap-3 py-1 px-2 rounded bg-muted/30 text-xs font-mono"
+                    >
+                      <span className="text-muted-foreground w-40 shrink-0">
+                        {new Date(entry.timestamp).toLocaleString()}
+                      </span>
+                      {entry.state ? (
+                        <>
+                          <span className="w-20">#{entry.state.cycleNumber ?? "—"}</span>
+                          <span className="flex-1">mid {entry.state.lastMidPrice ?? "—"}</span>
+                          <span className="flex-1">pos {entry.state.lastPosition ?? "—"}</span>
+                        </>
+                      ) : (
+                        <span className="text-destructive">State expired</span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
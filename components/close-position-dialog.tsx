@@ -0,0 +1,247 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+type CloseAmount = "percentage" | "quantity" | "notionalUsd";
+
+const AMOUNT_LABELS: Record<CloseAmount, string> = {
+  percentage: "%",
+  quantity: "Contracts",
+  notionalUsd: "USD",
+};
+
+interface CloseResult {
+  symbol: string;
+  success: boolean;
+  error?: string;
+  closeSize: number;
+  price?: number;
+  warnings?: string[];
+}
+
+interface PlannedAction {
+  description: string;
+}
+
+interface ClosePositionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  accountId: string;
+  symbol: string;
+  onClosed: () => void;
+}
+
+/**
+ * Close part of a position by percentage, contracts or USD notional
+ * Sent as a reduce-only market order, or as a limit IOC capped at a max slippage.
+ * The close is dry-run first to list the exact orders; editing discards the preview
+ */
+export function ClosePositionDialog({
+  open,
+  onOpenChange,
+  accountId,
+  symbol,
+  onClosed,
+}: ClosePositionDialogProps) {
+  const [amountType, setAmountType] = useState<CloseAmount>("percentage");
+  const [amount, setAmount] = useState("");
+  const [mode, setMode] = useState<"market" | "limit_ioc">("market");
+  const [slippage, setSlippage] = useState("0.5");
+  const [results, setResults] = useState<CloseResult[] | null>(null);
+  const [actions, setActions] = useState<PlannedAction[] | null>(null);
+  // One key per preview, so a repeated Close cannot send the orders twice
+  const [idempotencyKey, setIdempotencyKey] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Any edit invalidates the preview
+  const edit = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setActions(null);
+    setResults(null);
+  };
+
+  const submit = async (dryRun: boolean) => {
+    setLoading(true);
+    setError(null);
+    setResults(null);
+
+    try {
+      const response = await fetch("/api/close-position", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(!dryRun && idempotencyKey ? { "Idempotency-Key": idempotencyKey } : {}),
+        },
+        body: JSON.stringify({
+          accountId,
+          symbol,
+          [amountType]: amount,
+          mode,
+          maxSlippagePercent: mode === "limit_ioc" ? slippage : undefined,
+          dryRun,
+        }),
+      });
+
+      const result = await response.json();
+      // 422/502 still carry per-position results
+      if (!response.ok && !result.results) {
+        throw new Error(result.error || "Failed to close position");
+      }
+
+      setResults(result.results);
+      if (dryRun) {
+        setActions(result.actions);
+        setIdempotencyKey(crypto.randomUUID());
+      } else if (response.status >= 500) {
+        // Outcome unknown: keep the preview so Close retries with the same key
+        setError(result.error || "No answer from the exchange for some orders; retry to finish");
+      } else {
+        setActions(null);
+        if (result.success) {
+          onClosed();
+        }
+      }
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Close Position · {symbol}</DialogTitle>
+          <DialogDescription>
+            Sizes are rounded down to the instrument&apos;s lot size; an amount covering the whole
+            position closes it completely.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 text-sm">
+          <div className="flex gap-2">
+            {(Object.keys(AMOUNT_LABELS) as CloseAmount[]).map((type) => (
+              <Button
+                key={type}
+                variant={amountType === type ? "default" : "outline"}
+                onClick={() => edit(setAmountType)(type)}
+                className="flex-1 text-xs h-8"
+              >
+                {AMOUNT_LABELS[type]}
+              </Button>
+            ))}
+          </div>
+
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-muted-foreground">
+              Amount ({AMOUNT_LABELS[amountType]})
+            </span>
+            <Input
+              type="number"
+              step="any"
+              value={amount}
+              onChange={(e) => edit(setAmount)(e.target.value)}
+            />
+          </label>
+
+          <div className="flex gap-2">
+            <Button
+              variant={mode === "market" ? "default" : "outline"}
+              onClick={() => edit(setMode)("market")}
+              className="flex-1 text-xs h-8"
+            >
+              Market
+            </Button>
+            <Button
+              variant={mode === "limit_ioc" ? "default" : "outline"}
+              onClick={() => edit(setMode)("limit_ioc")}
+              className="flex-1 text-xs h-8"
+            >
+              Limit IOC
+            </Button>
+          </div>
+
+          {mode === "limit_ioc" && (
+            <label className="flex flex-col gap-1">
+              <span className="text-xs text-muted-foreground">Max slippage (%)</span>
+              <Input
+                type="number"
+                step="any"
+                value={slippage}
+                onChange={(e) => edit(setSlippage)(e.target.value)}
+              />
+            </label>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-destructive/10 border border-destructive/20 text-destructive p-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        {actions && actions.length > 0 && (
+          <div className="bg-muted/50 rounded-lg p-3 border text-xs space-y-1 font-mono">
+            {actions.map((action, idx) => (
+              <div key={idx}>{action.description}</div>
+            ))}
+          </div>
+        )}
+
+        {results &&
+          (!actions ||
+            results.length === 0 ||
+            results.some((r) => !r.success || r.warnings?.length)) && (
+          <div className="bg-muted/50 rounded-lg p-3 border text-xs space-y-1.5">
+            {results.length === 0 && <div>No positions to close</div>}
+            {results.map((result, idx) => (
+              <div key={idx} className="space-y-1">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">{result.symbol}</span>
+                  {result.success ? (
+                    <span className="text-green-600">
+                      {actions ? "Will close" : "Closed"} {result.closeSize}
+                      {result.price !== undefined && ` @ ${result.price}`}
+                    </span>
+                  ) : (
+                    <span className="text-destructive">{result.error}</span>
+                  )}
+                </div>
+                {result.warnings?.map((warning) => (
+                  <div key={warning} className="text-amber-600">
+                    {warning}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => submit(true)} disabled={loading || !amount}>
+            {loading && !actions ? "..." : "Preview"}
+          </Button>
+          <Button
+            onClick={() => submit(false)}
+            disabled={loading || !actions?.length}
+            className="bg-red-600 hover:bg-red-700"
+          >
+            {loading && actions ? "..." : "Close"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
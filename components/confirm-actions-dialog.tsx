@@ -0,0 +1,88 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+export interface PlannedAction {
+  type: "place_order" | "cancel_order" | "delete_grid_level";
+  description: string;
+}
+
+const TYPE_LABELS: Record<PlannedAction["type"], string> = {
+  place_order: "Order",
+  cancel_order: "Cancel",
+  delete_grid_level: "Delete",
+};
+
+interface ConfirmActionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  actions: PlannedAction[];
+  warnings: string[];
+  onConfirm: () => void;
+}
+
+/**
+ * Confirmation listing the concrete actions a dry run returned
+ */
+export function ConfirmActionsDialog({
+  open,
+  onOpenChange,
+  title,
+  actions,
+  warnings,
+  onConfirm,
+}: ConfirmActionsDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            {actions.length} action{actions.length === 1 ? "" : "s"} will be performed:
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-72 overflow-y-auto space-y-1">
+          {actions.map((action, idx) => (
+            <div
+              key={idx}
+              className="flex items-center gap-2 py-1 px-2 rounded bg-muted/30 text-xs font-mono"
+            >
+              <Badge variant="outline" className="text-xs shrink-0">
+                {TYPE_LABELS[action.type]}
+              </Badge>
+              <span className="break-all">{action.description}</span>
+            </div>
+          ))}
+        </div>
+
+        {warnings.length > 0 && (
+          <div className="text-xs text-amber-600 space-y-1">
+            {warnings.map((warning) => (
+              <div key={warning}>{warning}</div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Back
+          </Button>
+          <Button variant="destructive" onClick={onConfirm}>
+            Confirm
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
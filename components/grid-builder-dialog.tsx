@@ -0,0 +1,272 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface PreviewLevel {
+  price: number;
+  sizeContracts?: number;
+  sizeUSD?: number;
+}
+
+interface GridPreview {
+  midPrice: number;
+  buy: PreviewLevel[];
+  sell: PreviewLevel[];
+  skipped: Array<{ price: number; reason: string }>;
+  totals: { buyUsd: number; sellUsd: number; levels: number };
+}
+
+interface GridBuilderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  accountId: string;
+  symbol: string;
+  currentPrice?: number;
+  onApplied: () => void;
+}
+
+/**
+ * Grid generator: preview levels around the mid price, then replace the grid
+ */
+export function GridBuilderDialog({
+  open,
+  onOpenChange,
+  accountId,
+  symbol,
+  currentPrice,
+  onApplied,
+}: GridBuilderDialogProps) {
+  const [spacing, setSpacing] = useState<"arithmetic" | "geometric" | "custom">(
+    "arithmetic"
+  );
+  const [lowerPrice, setLowerPrice] = useState(
+    currentPrice ? (currentPrice * 0.95).toFixed(2) : ""
+  );
+  const [upperPrice, setUpperPrice] = useState(
+    currentPrice ? (currentPrice * 1.05).toFixed(2) : ""
+  );
+  const [levels, setLevels] = useState("10");
+  const [customPrices, setCustomPrices] = useState("");
+  const [budgetUsd, setBudgetUsd] = useState("1000");
+  const [skew, setSkew] = useState("0");
+  const [preview, setPreview] = useState<GridPreview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (apply: boolean) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/generate-grid", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          accountId,
+          symbol,
+          spacing,
+          lowerPrice,
+          upperPrice,
+          levels: Number(levels),
+          prices:
+            spacing === "custom"
+              ? customPrices.split(/[\s,]+/).filter(Boolean).map(Number)
+              : undefined,
+          budgetUsd,
+          skew,
+          apply,
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to generate grid");
+      }
+
+      setPreview(result);
+      if (apply) {
+        onApplied();
+        onOpenChange(false);
+      }
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const applyGrid = () => {
+    if (
+      !confirm(
+        `Replace ALL grid levels for ${symbol} with ${preview?.totals.levels} generated levels?`
+      )
+    ) {
+      return;
+    }
+    submit(true);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Grid Builder · {symbol}</DialogTitle>
+          <DialogDescription>
+            Preview levels around the current mid price, then replace the grid.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3 text-sm">
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-muted-foreground">Spacing</span>
+            <select
+              value={spacing}
+              onChange={(e) => setSpacing(e.target.value as typeof spacing)}
+              className="h-9 px-2 rounded-md border border-input bg-background text-sm"
+            >
+              <option value="arithmetic">Arithmetic</option>
+              <option value="geometric">Geometric</option>
+              <option value="custom">Custom</option>
+            </select>
+          </label>
+          {spacing !== "custom" && (
+            <label className="flex flex-col gap-1">
+              <span className="text-xs text-muted-foreground">Levels</span>
+              <Input
+                type="number"
+                value={levels}
+                onChange={(e) => setLevels(e.target.value)}
+              />
+            </label>
+          )}
+          {spacing === "custom" ? (
+            <label className="flex flex-col gap-1 col-span-2">
+              <span className="text-xs text-muted-foreground">
+                Prices (comma or space separated)
+              </span>
+              <textarea
+                value={customPrices}
+                onChange={(e) => setCustomPrices(e.target.value)}
+                rows={3}
+                className="px-3 py-2 rounded-md border border-input bg-transparent text-sm font-mono"
+              />
+            </label>
+          ) : (
+            <>
+              <label className="flex flex-col gap-1">
+                <span className="text-xs text-muted-foreground">Lower price</span>
+                <Input
+                  type="number"
+                  step="any"
+                  value={lowerPrice}
+                  onChange={(e) => setLowerPrice(e.target.value)}
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-xs text-muted-foreground">Upper price</span>
+                <Input
+                  type="number"
+                  step="any"
+                  value={upperPrice}
+                  onChange={(e) => setUpperPrice(e.target.value)}
+                />
+              </label>
+            </>
+          )}
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-muted-foreground">Budget (USD)</span>
+            <Input
+              type="number"
+              step="any"
+              value={budgetUsd}
+              onChange={(e) => setBudgetUsd(e.target.value)}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-muted-foreground">
+              Skew (-1 sell-heavy … 1 buy-heavy)
+            </span>
+            <Input
+              type="number"
+              step="0.1"
+              min="-1"
+              max="1"
+              value={skew}
+              onChange={(e) => setSkew(e.target.value)}
+            />
+          </label>
+        </div>
+
+        {error && (
+          <div className="bg-destructive/10 border border-destructive/20 text-destructive p-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        {preview && (
+          <div className="space-y-2 text-sm">
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>
+                {preview.totals.levels} levels · Buy ${preview.totals.buyUsd.toFixed(2)} ·
+                Sell ${preview.totals.sellUsd.toFixed(2)}
+              </span>
+              <span>Mid ${preview.midPrice}</span>
+            </div>
+            <div className="max-h-64 overflow-y-auto space-y-1">
+              {[...preview.sell].reverse().map((level) => (
+                <div
+                  key={`sell-${level.price}`}
+                  className="flex justify-between px-2 py-1 rounded bg-red-50 dark:bg-red-950/20 font-mono text-xs"
+                >
+                  <span className="text-red-600 dark:text-red-400">${level.price}</span>
+                  <span>{level.sizeContracts}</span>
+                  <span>${level.sizeUSD?.toFixed(2)}</span>
+                </div>
+              ))}
+              <div className="border-t-2 border-dashed border-blue-500/50 my-1" />
+              {preview.buy.map((level) => (
+                <div
+                  key={`buy-${level.price}`}
+                  className="flex justify-between px-2 py-1 rounded bg-green-50 dark:bg-green-950/20 font-mono text-xs"
+                >
+                  <span className="text-green-600 dark:text-green-400">${level.price}</span>
+                  <span>{level.sizeContracts}</span>
+                  <span>${level.sizeUSD?.toFixed(2)}</span>
+                </div>
+              ))}
+            </div>
+            {preview.skipped.length > 0 && (
+              <div className="text-xs text-amber-600">
+                Skipped {preview.skipped.length} level(s):{" "}
+                {preview.skipped.map((s) => `${s.price} (${s.reason})`).join("; ")}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => submit(false)} disabled={loading}>
+            {loading ? "..." : "Preview"}
+          </Button>
+          <Button
+            onClick={applyGrid}
+            disabled={loading || !preview || preview.totals.levels === 0}
+            className="bg-red-600 hover:bg-red-700"
+          >
+            Apply Grid
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,272 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface GridVersionSummary {
+  version: number;
+  timestamp: number;
+  reason: string;
+  user?: string;
+  buyLevels: number;
+  sellLevels: number;
+}
+
+interface DiffLevel {
+  price: number;
+  size: number;
+  sizeContracts?: number;
+  status: string;
+}
+
+interface GridLevelDiff {
+  side: "buy" | "sell";
+  field: string;
+  change: "added" | "removed" | "changed";
+  before: DiffLevel | null;
+  after: DiffLevel | null;
+  changedKeys: string[];
+}
+
+interface GridDiff {
+  changes: GridLevelDiff[];
+  summary: { added: number; removed: number; changed: number; unchanged: number };
+}
+
+interface GridHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  accountId: string;
+  symbol: string;
+  onRestored: () => void;
+  // Hide restore buttons (viewer role)
+  readOnly?: boolean;
+}
+
+const CHANGE_CLASS: Record<GridLevelDiff["change"], string> = {
+  added: "bg-green-50 dark:bg-green-950/20 border-green-500",
+  removed: "bg-red-50 dark:bg-red-950/20 border-red-500",
+  changed: "bg-amber-50 dark:bg-amber-950/20 border-amber-500",
+};
+
+function formatLevel(level: DiffLevel | null): string {
+  if (!level) return "—";
+  return `$${level.price} × ${level.sizeContracts ?? level.size} (${level.status})`;
+}
+
+/**
+ * Grid version history: list snapshots, diff two versions and restore one
+ */
+export function GridHistoryDialog({
+  open,
+  onOpenChange,
+  accountId,
+  symbol,
+  onRestored,
+  readOnly = false,
+}: GridHistoryDialogProps) {
+  const [versions, setVersions] = useState<GridVersionSummary[]>([]);
+  const [from, setFrom] = useState<string>("");
+  const [to, setTo] = useState<string>("current");
+  const [diff, setDiff] = useState<GridDiff | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const query = `accountId=${encodeURIComponent(accountId)}&symbol=${encodeURIComponent(symbol)}`;
+
+  const loadVersions = async () => {
+    try {
+      const response = await fetch(`/api/grid-versions?${query}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to load grid versions");
+      }
+      setVersions(result.versions);
+      if (result.versions.length > 0) {
+        setFrom((current) => current || String(result.versions[0].version));
+      }
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const loadDiff = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/grid-versions/diff?${query}&from=${from}&to=${to}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to diff grid versions");
+      }
+      setDiff(result);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) loadVersions();
+  }, [open, accountId, symbol]);
+
+  // versions changes after a restore, which also changes the current grid
+  useEffect(() => {
+    if (open && from) loadDiff();
+  }, [open, from, to, versions]);
+
+  const restore = async (version: number) => {
+    if (!confirm(`Restore ${symbol} grid to version ${version}? The current grid is saved first.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch("/api/restore-grid-version", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ accountId, symbol, version }),
+      });
+      const result = await response.json();
+      if (!result.success) {
+        alert("Error: " + (result.error || "Unknown error"));
+        return;
+      }
+      onRestored();
+      await loadVersions();
+    } catch (err: any) {
+      alert("Failed to restore grid version: " + err.message);
+    }
+  };
+
+  const versionOptions = versions.map((v) => (
+    <option key={v.version} value={v.version}>
+      v{v.version} · {new Date(v.timestamp).toLocaleString()}
+    </option>
+  ));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Grid History · {symbol}</DialogTitle>
+          <DialogDescription>
+            A version is saved before every grid change from the dashboard.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="bg-destructive/10 border border-destructive/20 text-destructive p-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        {versions.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground text-sm">
+            No saved versions yet
+          </div>
+        ) : (
+          <>
+            <div className="max-h-56 overflow-y-auto space-y-1">
+              {versions.map((v) => (
+                <div
+                  key={v.version}
+                  className="flex items-center gap-2 py-1.5 px-2 rounded bg-muted/30 text-sm"
+                >
+                  <span className="font-mono font-semibold w-12">v{v.version}</span>
+                  <span className="text-xs text-muted-foreground flex-1">
+                    {new Date(v.timestamp).toLocaleString()}
+                    {v.user && ` · ${v.user}`}
+                  </span>
+                  <Badge variant="outline" className="text-xs">
+                    {v.reason}
+                  </Badge>
+                  <span className="text-xs text-muted-foreground w-20 text-right">
+                    {v.sellLevels}S / {v.buyLevels}B
+                  </span>
+                  {!readOnly && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="text-xs h-7"
+                      onClick={() => restore(v.version)}
+                    >
+                      Restore
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-muted-foreground">Compare</span>
+              <select
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+                className="h-8 px-2 rounded-md border border-input bg-background text-sm"
+              >
+                {versionOptions}
+              </select>
+              <span className="text-muted-foreground">→</span>
+              <select
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+                className="h-8 px-2 rounded-md border border-input bg-background text-sm"
+              >
+                <option value="current">Current grid</option>
+                {versionOptions}
+              </select>
+            </div>
+
+            {loading && !diff ? (
+              <div className="text-center py-4 text-muted-foreground text-sm">Loading...</div>
+            ) : (
+              diff && (
+                <div className="space-y-1">
+                  <div className="text-xs text-muted-foreground">
+                    {diff.summary.added} added · {diff.summary.removed} removed ·{" "}
+                    {diff.summary.changed} changed · {diff.summary.unchanged} unchanged
+                  </div>
+                  {diff.changes.length === 0 ? (
+                    <div className="text-center py-4 text-muted-foreground text-sm">
+                      No differences
+                    </div>
+                  ) : (
+                    diff.changes.map((change) => (
+                      <div
+                        key={`${change.side}:${change.field}`}
+                        className={`flex items-center gap-2 py-1.5 px-2 rounded border-l-[3px] text-xs font-mono ${
+                          CHANGE_CLASS[change.change]
+                        }`}
+                      >
+                        <span className="w-10 uppercase font-semibold">{change.side}</span>
+                        <span className="w-16 text-muted-foreground">{change.field}</span>
+                        <span className="flex-1">{formatLevel(change.before)}</span>
+                        <span className="text-muted-foreground">→</span>
+                        <span className="flex-1">{formatLevel(change.after)}</span>
+                        {change.change === "changed" && (
+                          <span className="text-muted-foreground">
+                            {change.changedKeys.join(", ")}
+                          </span>
+                        )}
+                      </div>
+                    ))
+                  )}
+                </div>
+              )
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
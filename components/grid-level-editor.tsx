@@ -0,0 +1,98 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+export interface GridLevelEdit {
+  price: number;
+  sizeContracts: number;
+}
+
+interface GridLevelEditorProps {
+  side: "buy" | "sell";
+  initialPrice?: number;
+  initialSize?: number;
+  // Resolves to true when saved, so the editor can close itself
+  onSave: (edit: GridLevelEdit) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+/**
+ * Inline row for creating or editing a grid level's price and size
+ * Tick and lot size validation happens server-side in /api/set-grid-level
+ */
+export function GridLevelEditor({
+  side,
+  initialPrice,
+  initialSize,
+  onSave,
+  onCancel,
+}: GridLevelEditorProps) {
+  const [price, setPrice] = useState(initialPrice?.toString() ?? "");
+  const [size, setSize] = useState(initialSize?.toString() ?? "");
+  const [saving, setSaving] = useState(false);
+
+  const priceValue = Number(price);
+  const sizeValue = Number(size);
+  const isValid = priceValue > 0 && sizeValue > 0;
+
+  const handleSave = async () => {
+    if (!isValid) return;
+    setSaving(true);
+    try {
+      await onSave({ price: priceValue, sizeContracts: sizeValue });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className={`flex items-center gap-1.5 py-2 px-2 rounded border-l-[3px] ${
+        side === "sell"
+          ? "bg-red-50 dark:bg-red-950/20 border-red-500"
+          : "bg-green-50 dark:bg-green-950/20 border-green-500"
+      }`}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") handleSave();
+        if (e.key === "Escape") onCancel();
+      }}
+    >
+      <Input
+        type="number"
+        step="any"
+        placeholder="Price"
+        value={price}
+        onChange={(e) => setPrice(e.target.value)}
+        className="h-7 text-xs font-mono flex-[1.3]"
+        autoFocus
+      />
+      <Input
+        type="number"
+        step="any"
+        placeholder="Size"
+        value={size}
+        onChange={(e) => setSize(e.target.value)}
+        className="h-7 text-xs flex-1"
+      />
+      <Button
+        size="sm"
+        onClick={handleSave}
+        disabled={!isValid || saving}
+        className="text-xs h-7 px-2"
+      >
+        {saving ? "..." : "Save"}
+      </Button>
+      <Button
+        size="sm"
+        variant="ghost"
+        onClick={onCancel}
+        disabled={saving}
+        className="text-xs h-7 px-2"
+      >
+        Cancel
+      </Button>
+    </div>
+  );
+}
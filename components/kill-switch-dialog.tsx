@@ -0,0 +1,351 @@
+"use client";
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+const CONFIRMATION = "FLATTEN";
+const STEPS = ["pause", "grids", "orders", "positions", "reconcile"] as const;
+
+type Step = (typeof STEPS)[number];
+type ScopeType = "all" | "exchange" | "symbol" | "accounts";
+
+interface KillSwitchAccount {
+  accountId: string;
+  accountName: string;
+  exchange?: string;
+}
+
+interface Progress {
+  accountId: string;
+  accountName: string;
+  exchange: string;
+  step: Step;
+  status: "started" | "done" | "failed";
+  detail?: string;
+}
+
+interface AccountReport {
+  accountId: string;
+  accountName: string;
+  exchange: string;
+  symbolsPaused: string[];
+  ordersCancelled: number;
+  ordersFailed: number;
+  gridSymbolsCleared: string[];
+  positionsClosed: number;
+  positionsFailed: number;
+  errors: string[];
+  remaining: {
+    orders: number;
+    positions: Array<{ symbol: string; side: string; contracts: number }>;
+    gridLevels: number;
+  } | null;
+  clean: boolean;
+}
+
+interface Report {
+  startedAt: number;
+  finishedAt: number;
+  accounts: AccountReport[];
+  clean: boolean;
+}
+
+interface KillSwitchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  accounts: KillSwitchAccount[];
+  symbols: string[];
+  onFinished: () => void;
+}
+
+/**
+ * Emergency "flatten everything" for a scope via /api/kill-switch
+ * Requires typing FLATTEN; shows per-account step progress from the event
+ * stream, then the reconciliation report
+ */
+export function KillSwitchDialog({
+  open,
+  onOpenChange,
+  accounts,
+  symbols,
+  onFinished,
+}: KillSwitchDialogProps) {
+  const [scopeType, setScopeType] = useState<ScopeType>("all");
+  const [exchange, setExchange] = useState("okx");
+  const [symbol, setSymbol] = useState(symbols[0] ?? "");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [confirmation, setConfirmation] = useState("");
+  const [progress, setProgress] = useState<Record<string, Progress[]>>({});
+  const [report, setReport] = useState<Report | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const scope =
+    scopeType === "exchange"
+      ? { exchange }
+      : scopeType === "symbol"
+        ? { symbol }
+        : scopeType === "accounts"
+          ? { accountIds: Array.from(selected) }
+          : {};
+
+  const scopeValid =
+    (scopeType !== "symbol" || !!symbol) && (scopeType !== "accounts" || selected.size > 0);
+
+  const toggleAccount = (accountId: string) => {
+    const next = new Set(selected);
+    if (next.has(accountId)) {
+      next.delete(accountId);
+    } else {
+      next.add(accountId);
+    }
+    setSelected(next);
+  };
+
+  const handleEvent = (event: string, data: any) => {
+    if (event === "progress") {
+      setProgress((prev) => ({
+        ...prev,
+        [data.accountId]: [...(prev[data.accountId] || []), data],
+      }));
+    } else if (event === "report") {
+      setReport(data);
+    } else if (event === "kill-error") {
+      setError(data.error);
+    }
+  };
+
+  const run = async () => {
+    setRunning(true);
+    setError(null);
+    setProgress({});
+    setReport(null);
+
+    try {
+      const response = await fetch("/api/kill-switch", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+        body: JSON.stringify({ scope, confirm: confirmation }),
+      });
+
+      if (!response.ok || !response.body) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.error || "Failed to run kill switch");
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const messages = buffer.split("\n\n");
+        buffer = messages.pop() ?? "";
+
+        for (const message of messages) {
+          const event = message.match(/^event: (.+)$/m)?.[1];
+          const data = message.match(/^data: (.+)$/m)?.[1];
+          if (event && data) {
+            handleEvent(event, JSON.parse(data));
+          }
+        }
+      }
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setRunning(false);
+      onFinished();
+    }
+  };
+
+  const stepStatus = (accountId: string, step: Step) =>
+    [...(progress[accountId] || [])].reverse().find((p) => p.step === step);
+
+  const statusClass = (status?: Progress["status"]) =>
+    status === "done"
+      ? "border-green-500 text-green-600"
+      : status === "failed"
+        ? "border-destructive text-destructive"
+        : status === "started"
+          ? "border-amber-500 text-amber-600"
+          : "";
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !running && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-destructive">Kill Switch</DialogTitle>
+          <DialogDescription>
+            Pauses the bots, clears grid levels (a grid version is saved first), cancels all
+            open orders and market-closes every position in the chosen scope.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 text-sm">
+          <div className="flex gap-2">
+            {(["all", "exchange", "symbol", "accounts"] as const).map((type) => (
+              <Button
+                key={type}
+                variant={scopeType === type ? "default" : "outline"}
+                onClick={() => setScopeType(type)}
+                disabled={running}
+                className="flex-1 text-xs h-8 capitalize"
+              >
+                {type}
+              </Button>
+            ))}
+          </div>
+
+          {scopeType === "exchange" && (
+            <select
+              value={exchange}
+              onChange={(e) => setExchange(e.target.value)}
+              className="w-full h-9 px-3 rounded-md border border-input bg-background text-sm"
+            >
+              <option value="okx">OKX</option>
+              <option value="asterdex">AsterDex</option>
+            </select>
+          )}
+
+          {scopeType === "symbol" && (
+            <select
+              value={symbol}
+              onChange={(e) => setSymbol(e.target.value)}
+              className="w-full h-9 px-3 rounded-md border border-input bg-background text-sm"
+            >
+              {symbols.map((sym) => (
+                <option key={sym} value={sym}>
+                  {sym}
+                </option>
+              ))}
+            </select>
+          )}
+
+          {scopeType === "accounts" && (
+            <div className="max-h-40 overflow-y-auto space-y-1 border rounded-md p-2">
+              {accounts.map((account) => (
+                <label
+                  key={account.accountId}
+                  className="flex items-center gap-2 text-xs cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected.has(account.accountId)}
+                    onChange={() => toggleAccount(account.accountId)}
+                  />
+                  {account.accountName}
+                  <span className="text-muted-foreground uppercase">{account.exchange}</span>
+                </label>
+              ))}
+            </div>
+          )}
+
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-muted-foreground">
+              Type <b>{CONFIRMATION}</b> to confirm
+            </span>
+            <Input
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              disabled={running}
+            />
+          </label>
+        </div>
+
+        {error && (
+          <div className="bg-destructive/10 border border-destructive/20 text-destructive p-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        {Object.keys(progress).length > 0 && (
+          <div className="space-y-1">
+            {Object.entries(progress).map(([accountId, events]) => {
+              const accountReport = report?.accounts.find((a) => a.accountId === accountId);
+              return (
+                <div
+                  key={accountId}
+                  className="rounded bg-muted/30 px-2 py-1.5 text-xs space-y-1"
+                >
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-semibold">{events[0].accountName}</span>
+                    <span className="text-muted-foreground uppercase">{events[0].exchange}</span>
+                    <div className="flex gap-1 ml-auto">
+                      {STEPS.map((step) => {
+                        const status = stepStatus(accountId, step);
+                        return (
+                          <Badge
+                            key={step}
+                            variant="outline"
+                            title={status?.detail}
+                            className={`text-xs ${statusClass(status?.status)}`}
+                          >
+                            {step}
+                          </Badge>
+                        );
+                      })}
+                    </div>
+                  </div>
+                  {accountReport && (
+                    <div className={accountReport.clean ? "text-green-600" : "text-destructive"}>
+                      {accountReport.clean
+                        ? "Flat"
+                        : accountReport.remaining
+                          ? `Remaining: ${accountReport.remaining.orders} orders, ${
+                              accountReport.remaining.positions
+                                .map((pos) => `${pos.symbol} ${pos.side} ${pos.contracts}`)
+                                .join(", ") || "no positions"
+                            }, ${accountReport.remaining.gridLevels} grid levels`
+                          : "Not reconciled"}
+                      {accountReport.errors.map((err) => (
+                        <div key={err}>{err}</div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {report && (
+          <div
+            className={`p-3 rounded-lg text-sm border ${
+              report.clean
+                ? "bg-green-50 dark:bg-green-950/20 border-green-500 text-green-700"
+                : "bg-destructive/10 border-destructive/20 text-destructive"
+            }`}
+          >
+            {report.clean
+              ? `All ${report.accounts.length} accounts flat`
+              : `${report.accounts.filter((a) => !a.clean).length} of ${report.accounts.length} accounts not flat`}{" "}
+            ({((report.finishedAt - report.startedAt) / 1000).toFixed(1)}s)
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="destructive"
+            onClick={run}
+            disabled={running || confirmation !== CONFIRMATION || !scopeValid}
+          >
+            {running ? "Flattening..." : "Flatten"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,175 @@
+"use client";
+
+import { useMemo, useState, type MouseEvent } from "react";
+
+export interface ChartPoint {
+  timestamp: number;
+  value: number;
+}
+
+interface LineChartProps {
+  points: ChartPoint[];
+  formatValue: (value: number) => string;
+  color?: string;
+  // Fill the area between the line and zero (or the bottom edge)
+  area?: boolean;
+  // Always include zero in the y range and draw it as a baseline
+  zeroBaseline?: boolean;
+  height?: number;
+}
+
+const WIDTH = 800;
+const PADDING = { top: 12, right: 12, bottom: 24, left: 72 };
+
+function formatTime(timestamp: number, span: number): string {
+  const date = new Date(timestamp);
+  return span > 2 * 24 * 60 * 60 * 1000
+    ? date.toLocaleDateString("en-US", { month: "2-digit", day: "2-digit" })
+    : date.toLocaleTimeString("en-US", {
+        hour: "2-digit",
+        minute: "2-digit",
+        hour12: false,
+      });
+}
+
+/**
+ * Minimal SVG time-series chart with a hover readout
+ */
+export function LineChart({
+  points,
+  formatValue,
+  color = "#22c55e",
+  area = false,
+  zeroBaseline = false,
+  height = 220,
+}: LineChartProps) {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  const chart = useMemo(() => {
+    if (points.length === 0) return null;
+
+    const values = points.map((p) => p.value);
+    let min = Math.min(...values);
+    let max = Math.max(...values);
+    if (zeroBaseline) {
+      min = Math.min(min, 0);
+      max = Math.max(max, 0);
+    }
+    if (min === max) {
+      const pad = Math.abs(min) * 0.01 || 1;
+      min -= pad;
+      max += pad;
+    }
+
+    const start = points[0].timestamp;
+    const end = points[points.length - 1].timestamp;
+    const span = end - start || 1;
+    const innerWidth = WIDTH - PADDING.left - PADDING.right;
+    const innerHeight = height - PADDING.top - PADDING.bottom;
+
+    const x = (timestamp: number) =>
+      PADDING.left + ((timestamp - start) / span) * innerWidth;
+    const y = (value: number) =>
+      PADDING.top + ((max - value) / (max - min)) * innerHeight;
+
+    const line = points
+      .map((p, i) => `${i === 0 ? "M" : "L"}${x(p.timestamp).toFixed(1)},${y(p.value).toFixed(1)}`)
+      .join(" ");
+    const baseY = y(zeroBaseline ? 0 : min);
+    const fill = `${line} L${x(end).toFixed(1)},${baseY.toFixed(1)} L${x(start).toFixed(1)},${baseY.toFixed(1)} Z`;
+
+    return { min, max, start, end, span, x, y, line, fill, baseY };
+  }, [points, zeroBaseline, height]);
+
+  if (!chart) {
+    return (
+      <div
+        className="flex items-center justify-center text-sm text-muted-foreground"
+        style={{ height }}
+      >
+        No snapshot data in this range
+      </div>
+    );
+  }
+
+  const hover = hoverIndex !== null ? points[hoverIndex] : null;
+
+  const handleMouseMove = (event: MouseEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const svgX = ((event.clientX - rect.left) / rect.width) * WIDTH;
+    const timestamp =
+      chart.start +
+      ((svgX - PADDING.left) / (WIDTH - PADDING.left - PADDING.right)) * chart.span;
+
+    let nearest = 0;
+    points.forEach((p, i) => {
+      if (Math.abs(p.timestamp - timestamp) < Math.abs(points[nearest].timestamp - timestamp)) {
+        nearest = i;
+      }
+    });
+    setHoverIndex(nearest);
+  };
+
+  return (
+    <div className="relative">
+      {hover && (
+        <div className="absolute top-0 right-0 text-xs bg-background/90 border rounded px-2 py-1 pointer-events-none">
+          <span className="text-muted-foreground">
+            {new Date(hover.timestamp).toLocaleString("en-US", { hour12: false })}
+          </span>{" "}
+          <span className="font-semibold">{formatValue(hover.value)}</span>
+        </div>
+      )}
+      <svg
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        className="w-full h-auto"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHoverIndex(null)}
+      >
+        {/* Y axis labels */}
+        <text x={PADDING.left - 8} y={PADDING.top + 4} textAnchor="end" className="fill-muted-foreground text-[11px]">
+          {formatValue(chart.max)}
+        </text>
+        <text x={PADDING.left - 8} y={height - PADDING.bottom} textAnchor="end" className="fill-muted-foreground text-[11px]">
+          {formatValue(chart.min)}
+        </text>
+
+        {/* X axis labels */}
+        <text x={PADDING.left} y={height - 6} className="fill-muted-foreground text-[11px]">
+          {formatTime(chart.start, chart.span)}
+        </text>
+        <text x={WIDTH - PADDING.right} y={height - 6} textAnchor="end" className="fill-muted-foreground text-[11px]">
+          {formatTime(chart.end, chart.span)}
+        </text>
+
+        {zeroBaseline && (
+          <line
+            x1={PADDING.left}
+            x2={WIDTH - PADDING.right}
+            y1={chart.y(0)}
+            y2={chart.y(0)}
+            className="stroke-muted-foreground/40"
+            strokeDasharray="4 4"
+          />
+        )}
+
+        {area && <path d={chart.fill} fill={color} fillOpacity={0.15} />}
+        <path d={chart.line} fill="none" stroke={color} strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+
+        {hover && (
+          <>
+            <line
+              x1={chart.x(hover.timestamp)}
+              x2={chart.x(hover.timestamp)}
+              y1={PADDING.top}
+              y2={height - PADDING.bottom}
+              className="stroke-muted-foreground/60"
+              vectorEffect="non-scaling-stroke"
+            />
+            <circle cx={chart.x(hover.timestamp)} cy={chart.y(hover.value)} r={3} fill={color} />
+          </>
+        )}
+      </svg>
+    </div>
+  );
+}
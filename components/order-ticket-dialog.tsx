@@ -0,0 +1,265 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface OrderPreview {
+  order: {
+    side: "buy" | "sell";
+    type: "market" | "limit";
+    size: number;
+    price?: number;
+    postOnly: boolean;
+    reduceOnly: boolean;
+    posSide?: "net" | "long" | "short";
+  };
+  referencePrice: number;
+  notionalUsd: number;
+  liquidity: "maker" | "taker";
+  feeRate: number;
+  estimatedFeeUsd: number;
+  position: { posSide: "net" | "long" | "short" | null; current: number; resulting: number };
+  warnings: string[];
+}
+
+interface OrderTicketDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  accountId: string;
+  symbol: string;
+  currentPrice?: number;
+  onPlaced: () => void;
+}
+
+/**
+ * Order ticket: limit/market, post-only and reduce-only orders via /api/place-order
+ * Every order is previewed first (rounded size and price, notional, fee and
+ * resulting position); editing the ticket discards the preview
+ */
+export function OrderTicketDialog({
+  open,
+  onOpenChange,
+  accountId,
+  symbol,
+  currentPrice,
+  onPlaced,
+}: OrderTicketDialogProps) {
+  const [side, setSide] = useState<"buy" | "sell">("buy");
+  const [type, setType] = useState<"limit" | "market">("limit");
+  const [price, setPrice] = useState(currentPrice?.toString() ?? "");
+  const [size, setSize] = useState("");
+  const [postOnly, setPostOnly] = useState(false);
+  const [reduceOnly, setReduceOnly] = useState(false);
+  const [preview, setPreview] = useState<OrderPreview | null>(null);
+  // One key per previewed order, so a repeated submit cannot place it twice
+  const [idempotencyKey, setIdempotencyKey] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Any edit invalidates the preview
+  const edit = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPreview(null);
+    setIdempotencyKey(null);
+  };
+
+  const submit = async (previewOnly: boolean) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/place-order", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(!previewOnly && idempotencyKey ? { "Idempotency-Key": idempotencyKey } : {}),
+        },
+        body: JSON.stringify({
+          accountId,
+          symbol,
+          side,
+          type,
+          size,
+          price: type === "limit" ? price : undefined,
+          postOnly: type === "limit" && postOnly,
+          reduceOnly,
+          preview: previewOnly,
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Failed to place order");
+      }
+
+      if (previewOnly) {
+        setPreview(result);
+        setIdempotencyKey(crypto.randomUUID());
+      } else {
+        onPlaced();
+        onOpenChange(false);
+      }
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleClass = (active: boolean, activeClass: string) =>
+    `flex-1 text-xs h-8 ${active ? activeClass : ""}`;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>New Order · {symbol}</DialogTitle>
+          <DialogDescription>
+            Size is in contracts; size and price are rounded to the instrument&apos;s lot and tick size.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 text-sm">
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => edit(setSide)("buy")}
+              className={toggleClass(side === "buy", "bg-green-600 text-white hover:bg-green-700")}
+            >
+              Buy
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => edit(setSide)("sell")}
+              className={toggleClass(side === "sell", "bg-red-600 text-white hover:bg-red-700")}
+            >
+              Sell
+            </Button>
+          </div>
+
+          <div className="flex gap-2">
+            {(["limit", "market"] as const).map((orderType) => (
+              <Button
+                key={orderType}
+                variant={type === orderType ? "default" : "outline"}
+                onClick={() => edit(setType)(orderType)}
+                className="flex-1 text-xs h-8 capitalize"
+              >
+                {orderType}
+              </Button>
+            ))}
+          </div>
+
+          {type === "limit" && (
+            <label className="flex flex-col gap-1">
+              <span className="text-xs text-muted-foreground">Price</span>
+              <Input
+                type="number"
+                step="any"
+                value={price}
+                onChange={(e) => edit(setPrice)(e.target.value)}
+              />
+            </label>
+          )}
+
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-muted-foreground">Size (contracts)</span>
+            <Input
+              type="number"
+              step="any"
+              value={size}
+              onChange={(e) => edit(setSize)(e.target.value)}
+            />
+          </label>
+
+          <div className="flex gap-4 text-xs">
+            {type === "limit" && (
+              <label className="flex items-center gap-1.5 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={postOnly}
+                  onChange={(e) => edit(setPostOnly)(e.target.checked)}
+                />
+                Post-only
+              </label>
+            )}
+            <label className="flex items-center gap-1.5 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={reduceOnly}
+                onChange={(e) => edit(setReduceOnly)(e.target.checked)}
+              />
+              Reduce-only
+            </label>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-destructive/10 border border-destructive/20 text-destructive p-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        {preview && (
+          <div className="bg-muted/50 rounded-lg p-3 border text-xs space-y-1.5">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Order</span>
+              <span className="font-semibold">
+                {preview.order.side.toUpperCase()} {preview.order.size} @{" "}
+                {preview.order.price ?? `market (~$${preview.referencePrice})`}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Notional</span>
+              <span>${preview.notionalUsd.toFixed(2)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">
+                Est. fee ({preview.liquidity}, {(preview.feeRate * 100).toFixed(3)}%)
+              </span>
+              <span>${preview.estimatedFeeUsd.toFixed(4)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">
+                Position
+                {preview.position.posSide && preview.position.posSide !== "net"
+                  ? ` (${preview.position.posSide})`
+                  : ""}
+              </span>
+              <span>
+                {preview.position.current} → <b>{preview.position.resulting}</b>
+              </span>
+            </div>
+            {preview.warnings.map((warning) => (
+              <div key={warning} className="text-amber-600">
+                {warning}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => submit(true)} disabled={loading || !size}>
+            {loading && !preview ? "..." : "Preview"}
+          </Button>
+          <Button
+            onClick={() => submit(false)}
+            disabled={loading || !preview}
+            className={side === "buy" ? "bg-green-600 hover:bg-green-700" : "bg-red-600 hover:bg-red-700"}
+          >
+            {loading && preview ? "..." : `Place ${side === "buy" ? "Buy" : "Sell"}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
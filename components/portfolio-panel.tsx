@@ -0,0 +1,90 @@
+import { Badge } from "@/components/ui/badge";
+import type { PortfolioSummary } from "@/lib/portfolio";
+
+const formatUsd = (value: number) =>
+  `${value < 0 ? "-" : ""}$${Math.abs(value).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const pnlClass = (value: number) => (value >= 0 ? "text-green-600" : "text-red-600");
+
+export function PortfolioPanel({ summary }: { summary: PortfolioSummary }) {
+  const { totals, byExchange, assets } = summary;
+
+  return (
+    <div className="bg-muted/50 rounded-lg p-4 border mb-6 space-y-4">
+      <div className="flex flex-wrap gap-6">
+        <div className="flex-1 min-w-[140px]">
+          <div className="text-xs text-muted-foreground mb-1.5">
+            Portfolio Equity ({totals.accounts} accounts)
+          </div>
+          <div className="text-2xl font-bold">{formatUsd(totals.equity)}</div>
+          {totals.equity24hChange !== null && (
+            <div className={`text-xs mt-1 font-medium ${pnlClass(totals.equity24hChange)}`}>
+              24h: {totals.equity24hChange >= 0 ? "+" : ""}
+              {formatUsd(totals.equity24hChange)}
+              {totals.equity24hChangePercent !== null &&
+                ` (${totals.equity24hChangePercent.toFixed(2)}%)`}
+            </div>
+          )}
+        </div>
+        <div className="flex-1 min-w-[140px]">
+          <div className="text-xs text-muted-foreground mb-1.5">Available</div>
+          <div className="text-2xl font-bold">{formatUsd(totals.availableBalance)}</div>
+        </div>
+        <div className="flex-1 min-w-[140px]">
+          <div className="text-xs text-muted-foreground mb-1.5">Unrealized PnL</div>
+          <div className={`text-2xl font-bold ${pnlClass(totals.unrealizedPnL)}`}>
+            {totals.unrealizedPnL >= 0 ? "+" : ""}
+            {formatUsd(totals.unrealizedPnL)}
+          </div>
+        </div>
+        {Object.entries(byExchange).map(([exchange, exchangeTotals]) => (
+          <div key={exchange} className="flex-1 min-w-[140px]">
+            <div className="text-xs text-muted-foreground mb-1.5 flex items-center gap-1">
+              <Badge variant="secondary" className="text-xs">
+                {exchange}
+              </Badge>
+              {exchangeTotals.accounts} accounts
+            </div>
+            <div className="text-lg font-bold">{formatUsd(exchangeTotals.equity)}</div>
+            <div className={`text-xs ${pnlClass(exchangeTotals.unrealizedPnL)}`}>
+              uPnL {formatUsd(exchangeTotals.unrealizedPnL)}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {assets.length > 0 && (
+        <div>
+          <div className="text-xs text-muted-foreground mb-2">
+            Net exposure by asset
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {assets.map((exposure) => (
+              <div
+                key={exposure.asset}
+                className="bg-background rounded-md border px-3 py-2 text-xs min-w-[150px]"
+                title={Object.entries(exposure.byExchange)
+                  .map(([exchange, venue]) => `${exchange}: ${formatUsd(venue.net)}`)
+                  .join("\n")}
+              >
+                <div className="flex justify-between items-center gap-2">
+                  <span className="font-semibold text-sm">{exposure.asset}</span>
+                  <span className={`font-bold ${pnlClass(exposure.net)}`}>
+                    {exposure.net >= 0 ? "+" : ""}
+                    {formatUsd(exposure.net)}
+                  </span>
+                </div>
+                <div className="text-muted-foreground mt-1">
+                  L {formatUsd(exposure.long)} / S {formatUsd(exposure.short)}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
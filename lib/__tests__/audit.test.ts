@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+
+let audit: typeof import("../audit");
+
+before(async () => {
+  // lib/auth (used for the session user) creates the Directus client on import
+  process.env.DIRECTUS_DOMAIN ??= "http://localhost:8055";
+  audit = await import("../audit");
+});
+
+function lookup(exchanges: Record<string, string>) {
+  const calls: string[] = [];
+  const lookupExchange = async (accountId: string) => {
+    calls.push(accountId);
+    return exchanges[accountId] ?? null;
+  };
+  return { calls, lookupExchange };
+}
+
+describe("getAuditTarget", () => {
+  it("takes the exchange of a close-position call from its account", async () => {
+    const { calls, lookupExchange } = lookup({ acc1: "okx" });
+    const target = await audit.getAuditTarget(
+      { accountId: "acc1", symbol: "BTCUSDT", percentage: 100, orderType: "market" },
+      lookupExchange
+    );
+
+    assert.deepEqual(target, { accountId: "acc1", symbol: "BTCUSDT", exchange: "okx" });
+    assert.deepEqual(calls, ["acc1"]);
+  });
+
+  it("takes the symbol of a cancel-order call from its instId", async () => {
+    const { lookupExchange } = lookup({ acc1: "okx" });
+    const target = await audit.getAuditTarget(
+      { accountId: "acc1", orderId: "123", instId: "BTC-USDT-SWAP" },
+      lookupExchange
+    );
+
+    assert.deepEqual(target, { accountId: "acc1", symbol: "BTCUSDT", exchange: "okx" });
+  });
+
+  it("uses the kill-switch scope without an account lookup", async () => {
+    const { calls, lookupExchange } = lookup({});
+    const target = await audit.getAuditTarget(
+      { scope: { exchange: "asterdex", symbol: "ETHUSDT" }, confirm: "KILL" },
+      lookupExchange
+    );
+
+    assert.deepEqual(target, { accountId: null, symbol: "ETHUSDT", exchange: "asterdex" });
+    assert.deepEqual(calls, []);
+  });
+
+  it("records no exchange when the account lookup fails", async () => {
+    const target = await audit.getAuditTarget({ accountId: "acc1" }, async () => {
+      throw new Error("Directus unavailable");
+    });
+
+    assert.deepEqual(target, { accountId: "acc1", symbol: null, exchange: null });
+  });
+});
@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  computeDrawdown,
+  downsampleEquity,
+  getMaxDrawdown,
+  parseResolution,
+  type EquityCandle,
+} from "../equity";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const candle = (timestamp: number, close: number): EquityCandle => ({
+  timestamp,
+  open: close,
+  high: close,
+  low: close,
+  close,
+});
+
+describe("downsampleEquity", () => {
+  it("builds OHLC candles aligned on bucket boundaries", () => {
+    const candles = downsampleEquity(
+      [
+        { timestamp: HOUR + 5 * MINUTE, equity: 100 },
+        { timestamp: HOUR + 20 * MINUTE, equity: 120 },
+        { timestamp: HOUR + 40 * MINUTE, equity: 90 },
+        { timestamp: HOUR + 55 * MINUTE, equity: 110 },
+        { timestamp: 2 * HOUR, equity: 105 },
+      ],
+      HOUR
+    );
+
+    assert.deepEqual(candles, [
+      { timestamp: HOUR, open: 100, high: 120, low: 90, close: 110 },
+      { timestamp: 2 * HOUR, open: 105, high: 105, low: 105, close: 105 },
+    ]);
+  });
+
+  it("skips empty buckets", () => {
+    const candles = downsampleEquity(
+      [
+        { timestamp: 0, equity: 1 },
+        { timestamp: 5 * HOUR + 1, equity: 2 },
+      ],
+      HOUR
+    );
+
+    assert.deepEqual(
+      candles.map((c) => c.timestamp),
+      [0, 5 * HOUR]
+    );
+  });
+
+  it("returns no candles for no points", () => {
+    assert.deepEqual(downsampleEquity([], HOUR), []);
+  });
+});
+
+describe("parseResolution", () => {
+  it("accepts named resolutions and ms of at least a minute", () => {
+    assert.equal(parseResolution("4h", 0, HOUR), 4 * HOUR);
+    assert.equal(parseResolution(String(2 * MINUTE), 0, HOUR), 2 * MINUTE);
+    assert.equal(parseResolution("1000", 0, HOUR), null);
+    assert.equal(parseResolution("soon", 0, HOUR), null);
+  });
+
+  it("picks the smallest resolution with at most 500 buckets", () => {
+    assert.equal(parseResolution(null, 0, 24 * HOUR), 10 * MINUTE);
+    assert.equal(parseResolution(null, 0, 30 * 24 * HOUR), 4 * HOUR);
+  });
+});
+
+describe("computeDrawdown", () => {
+  it("measures closes against the running peak", () => {
+    const points = computeDrawdown([
+      candle(0, 100),
+      candle(1, 120),
+      candle(2, 90),
+      candle(3, 130),
+      candle(4, 117),
+    ]);
+
+    assert.deepEqual(
+      points.map((p) => [p.peak, p.drawdown]),
+      [
+        [100, 0],
+        [120, 0],
+        [120, -30],
+        [130, 0],
+        [130, -13],
+      ]
+    );
+    assert.equal(points[2].drawdownPercent, -25);
+    assert.equal(points[4].drawdownPercent, -10);
+  });
+
+  it("reports 0% while the peak is not positive", () => {
+    const points = computeDrawdown([candle(0, 0), candle(1, -10)]);
+    assert.equal(points[1].drawdown, -10);
+    assert.equal(points[1].drawdownPercent, 0);
+  });
+
+  it("finds the deepest point", () => {
+    const points = computeDrawdown([candle(0, 100), candle(1, 80), candle(2, 200), candle(3, 170)]);
+    assert.equal(getMaxDrawdown(points)?.timestamp, 1);
+    assert.equal(getMaxDrawdown([]), null);
+  });
+});
@@ -0,0 +1,202 @@
+import type {
+  Balance,
+  ExchangeClient,
+  Fill,
+  Income,
+  Instrument,
+  Order,
+  OrderRequest,
+  OrderResult,
+  Position,
+  TradeHistory,
+} from "../exchange";
+
+/**
+ * In-memory venue for tests
+ * Market orders fill at once against the position with the same symbol and
+ * posSide. `beforeSubmit` and `afterSubmit` can throw or reject to simulate
+ * venue failures before or after the order is accepted.
+ */
+export class FakeExchange implements ExchangeClient {
+  readonly exchange = "okx" as const;
+  positions: Position[] = [];
+  openOrders: Order[] = [];
+  instruments: Instrument[] = [];
+  // Every order the venue accepted, in order
+  placed: Order[] = [];
+  submitted: OrderRequest[] = [];
+  cancelled: string[] = [];
+  beforeSubmit?: (request: OrderRequest) => OrderResult | void;
+  afterSubmit?: (request: OrderRequest) => void;
+
+  async fetchBalance(): Promise<Balance> {
+    return {
+      exchange: this.exchange,
+      equity: 0,
+      walletBalance: 0,
+      availableBalance: 0,
+      unrealizedPnL: 0,
+      updatedAt: Date.now(),
+    };
+  }
+
+  async fetchPositions(symbol?: string): Promise<Position[]> {
+    return this.positions
+      .filter((pos) => !symbol || pos.symbol === symbol)
+      .map((pos) => ({ ...pos }));
+  }
+
+  async fetchOpenOrders(symbol?: string): Promise<Order[]> {
+    return this.openOrders.filter((order) => !symbol || order.symbol === symbol);
+  }
+
+  async fetchFills(): Promise<Fill[]> {
+    return [];
+  }
+
+  async fetchIncome(): Promise<Income[]> {
+    return [];
+  }
+
+  async fetchTradeHistory(): Promise<TradeHistory> {
+    return { fills: [], income: [] };
+  }
+
+  async fetchInstrument(symbol: string): Promise<Instrument | null> {
+    return this.instruments.find((instrument) => instrument.symbol === symbol) ?? null;
+  }
+
+  async fetchInstruments(): Promise<Instrument[]> {
+    return this.instruments;
+  }
+
+  async submitOrder(request: OrderRequest): Promise<OrderResult> {
+    this.submitted.push(request);
+    const rejection = this.beforeSubmit?.(request);
+    if (rejection) {
+      return rejection;
+    }
+
+    const order: Order = {
+      exchange: this.exchange,
+      symbol: request.symbol,
+      venueSymbol: request.symbol,
+      orderId: String(this.placed.length + 1),
+      clientOrderId: request.clientOrderId ?? null,
+      side: request.side,
+      type: request.type,
+      price: request.price ?? null,
+      size: request.size,
+      filledSize: request.size,
+      reduceOnly: !!request.reduceOnly,
+      status: "filled",
+      createdAt: Date.now(),
+    };
+    this.placed.push(order);
+    this.fill(request);
+    this.afterSubmit?.(request);
+
+    return { success: true, orderId: order.orderId, error: null, raw: order };
+  }
+
+  async fetchOrderByClientId(symbol: string, clientOrderId: string): Promise<Order | null> {
+    return (
+      this.placed.find((order) => order.symbol === symbol && order.clientOrderId === clientOrderId) ??
+      null
+    );
+  }
+
+  async cancelOpenOrder(symbol: string, orderId: string): Promise<OrderResult> {
+    return (await this.cancelOpenOrders(symbol, [orderId]))[0];
+  }
+
+  async cancelOpenOrders(symbol: string, orderIds: string[]): Promise<OrderResult[]> {
+    return orderIds.map((orderId) => {
+      const found = this.openOrders.some((order) => order.orderId === orderId);
+      this.openOrders = this.openOrders.filter((order) => order.orderId !== orderId);
+      if (found) this.cancelled.push(orderId);
+      return {
+        success: found,
+        orderId,
+        error: found ? null : "Order does not exist",
+        raw: null,
+      };
+    });
+  }
+
+  private fill(request: OrderRequest): void {
+    const posSide = request.posSide ?? "net";
+    const signed = request.side === "buy" ? request.size : -request.size;
+    const position = this.positions.find(
+      (pos) => pos.symbol === request.symbol && pos.posSide === posSide
+    );
+
+    if (!position) {
+      this.positions.push(
+        makePosition({
+          symbol: request.symbol,
+          posSide,
+          side: signed > 0 ? "LONG" : "SHORT",
+          contracts: Math.abs(signed),
+        })
+      );
+      return;
+    }
+
+    const current = position.side === "LONG" ? position.contracts : -position.contracts;
+    const next = Number((current + signed).toFixed(8));
+    if (next === 0) {
+      this.positions = this.positions.filter((pos) => pos !== position);
+    } else {
+      position.side = next > 0 ? "LONG" : "SHORT";
+      position.contracts = Math.abs(next);
+    }
+  }
+}
+
+/**
+ * Error as thrown by axios when the venue never answered
+ */
+export function transportError(): Error {
+  return Object.assign(new Error("socket hang up"), { code: "ECONNRESET" });
+}
+
+export function makePosition(overrides: Partial<Position>): Position {
+  return {
+    exchange: "okx",
+    symbol: "BTCUSDT",
+    venueSymbol: "BTCUSDT",
+    side: "LONG",
+    contracts: 1,
+    avgPrice: 100000,
+    markPrice: 100000,
+    unrealizedPnL: 0,
+    unrealizedPnLRatio: 0,
+    leverage: 10,
+    notionalUsd: 1000,
+    marginMode: "cross",
+    posSide: "net",
+    liquidationPrice: null,
+    marginRatio: null,
+    margin: null,
+    liquidationDistancePercent: null,
+    ...overrides,
+  };
+}
+
+export function makeInstrument(overrides: Partial<Instrument>): Instrument {
+  return {
+    exchange: "okx",
+    symbol: "BTCUSDT",
+    venueSymbol: "BTCUSDT",
+    baseAsset: "BTC",
+    quoteAsset: "USDT",
+    settleAsset: "USDT",
+    contractType: "linear",
+    tickSize: 0.1,
+    lotSize: 0.01,
+    minSize: 0.01,
+    contractValue: 0.01,
+    ...overrides,
+  };
+}
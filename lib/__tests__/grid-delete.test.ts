@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import { after, beforeEach, describe, it } from "node:test";
+import {
+  clearGridLevels,
+  deleteGridLevel,
+  getGridLevel,
+  getRedisClient,
+  previewDeleteGridLevel,
+  setGridLevel,
+} from "../redis";
+
+// Runs against a real Redis; the keys use a random account ID and are removed afterwards
+const EXCHANGE = "test";
+const ACCOUNT = `test-${crypto.randomUUID()}`;
+const SYMBOL = "BTCUSDT";
+
+describe("deleteGridLevel", { skip: !process.env.REDIS_URL && "REDIS_URL is not set" }, () => {
+  beforeEach(async () => {
+    await clearGridLevels(ACCOUNT, SYMBOL, undefined, EXCHANGE);
+    await setGridLevel(
+      ACCOUNT,
+      SYMBOL,
+      "buy",
+      "level_1",
+      { price: 0.3, size: 10, status: "pending" },
+      EXCHANGE
+    );
+  });
+
+  after(async () => {
+    await clearGridLevels(ACCOUNT, SYMBOL, undefined, EXCHANGE);
+    await getRedisClient().quit();
+  });
+
+  it("deletes the level while it has the expected price", async () => {
+    // 0.1 + 0.2 formats as 0.30000000000000004
+    const result = await deleteGridLevel(ACCOUNT, SYMBOL, "buy", "level_1", EXCHANGE, 0.1 + 0.2);
+
+    assert.equal(result.status, "deleted");
+    assert.equal(result.level?.price, 0.3);
+    assert.equal(await getGridLevel(ACCOUNT, SYMBOL, "buy", "level_1", EXCHANGE), null);
+  });
+
+  it("keeps a level whose price changed and returns it", async () => {
+    const result = await deleteGridLevel(ACCOUNT, SYMBOL, "buy", "level_1", EXCHANGE, 0.31);
+
+    assert.equal(result.status, "price_mismatch");
+    assert.equal(result.level?.price, 0.3);
+    assert.ok(await getGridLevel(ACCOUNT, SYMBOL, "buy", "level_1", EXCHANGE));
+  });
+
+  it("deletes without a price check when no price is expected", async () => {
+    const result = await deleteGridLevel(ACCOUNT, SYMBOL, "buy", "level_1", EXCHANGE);
+    assert.equal(result.status, "deleted");
+  });
+
+  it("reports a missing level", async () => {
+    const result = await deleteGridLevel(ACCOUNT, SYMBOL, "sell", "level_1", EXCHANGE, 0.3);
+    assert.deepEqual(result, { status: "not_found", level: null });
+  });
+
+  it("previews the same outcome without deleting", async () => {
+    assert.equal(
+      (await previewDeleteGridLevel(ACCOUNT, SYMBOL, "buy", "level_1", EXCHANGE, 0.3)).status,
+      "deleted"
+    );
+    assert.equal(
+      (await previewDeleteGridLevel(ACCOUNT, SYMBOL, "buy", "level_1", EXCHANGE, 0.31)).status,
+      "price_mismatch"
+    );
+    assert.ok(await getGridLevel(ACCOUNT, SYMBOL, "buy", "level_1", EXCHANGE));
+  });
+});
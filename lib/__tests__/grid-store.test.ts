@@ -0,0 +1,128 @@
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import { after, beforeEach, describe, it } from "node:test";
+import {
+  clearGridLevels,
+  getGridKey,
+  getGridLevels,
+  getGridHashes,
+  getGridSymbols,
+  getGridVersion,
+  getGridVersions,
+  getNextGridLevelField,
+  getRedisClient,
+  replaceGridLevels,
+  setGridLevel,
+  snapshotGridVersion,
+  writeGridHashes,
+} from "../redis";
+
+// Runs against a real Redis; the keys use a random account ID and are removed afterwards
+const EXCHANGE = "test";
+const ACCOUNT = `test-${crypto.randomUUID()}`;
+const SYMBOL = "BTCUSDT";
+
+function level(price: number) {
+  return { price, size: 0.01, sizeContracts: 1, sizeUSD: price / 100, status: "pending" as const };
+}
+
+describe("grid level storage", { skip: !process.env.REDIS_URL && "REDIS_URL is not set" }, () => {
+  beforeEach(async () => {
+    await clearGridLevels(ACCOUNT, SYMBOL, undefined, EXCHANGE);
+  });
+
+  after(async () => {
+    const versionsKey = `hypotom-monitor:gridversions:${EXCHANGE}:${ACCOUNT}:${SYMBOL}`;
+    await clearGridLevels(ACCOUNT, SYMBOL, undefined, EXCHANGE);
+    await getRedisClient().del(versionsKey, `${versionsKey}:seq`);
+    await getRedisClient().quit();
+  });
+
+  it("replaces both sides with level_0..level_{n-1}", async () => {
+    await setGridLevel(ACCOUNT, SYMBOL, "buy", "level_7", level(90000), EXCHANGE);
+    await replaceGridLevels(
+      ACCOUNT,
+      SYMBOL,
+      { buy: [level(99000), level(98000)], sell: [level(101000)] },
+      EXCHANGE
+    );
+
+    const buy = await getGridLevels(ACCOUNT, SYMBOL, "buy", EXCHANGE);
+    const sell = await getGridLevels(ACCOUNT, SYMBOL, "sell", EXCHANGE);
+    assert.deepEqual(
+      buy.map((stored) => [stored.field, stored.price]),
+      [
+        ["level_0", 99000],
+        ["level_1", 98000],
+      ]
+    );
+    assert.deepEqual(sell.map((stored) => [stored.field, stored.price]), [["level_0", 101000]]);
+  });
+
+  it("never stores the field tag of a level read back", async () => {
+    await setGridLevel(ACCOUNT, SYMBOL, "buy", "level_0", level(99000), EXCHANGE);
+    const [stored] = await getGridLevels(ACCOUNT, SYMBOL, "buy", EXCHANGE);
+    await setGridLevel(ACCOUNT, SYMBOL, "buy", "level_0", stored, EXCHANGE);
+
+    const key = getGridKey(ACCOUNT, SYMBOL, "buy", EXCHANGE);
+    const raw = await getRedisClient().hget(key, "level_0");
+    assert.equal(JSON.parse(raw!).field, undefined);
+  });
+
+  it("picks the field one past the highest level", async () => {
+    await setGridLevel(ACCOUNT, SYMBOL, "buy", "level_0", level(99000), EXCHANGE);
+    await setGridLevel(ACCOUNT, SYMBOL, "buy", "level_4", level(95000), EXCHANGE);
+
+    assert.equal(await getNextGridLevelField(ACCOUNT, SYMBOL, "buy", EXCHANGE), "level_5");
+    assert.equal(await getNextGridLevelField(ACCOUNT, SYMBOL, "sell", EXCHANGE), "level_0");
+  });
+
+  it("keeps the symbol listed until both sides are cleared", async () => {
+    await replaceGridLevels(
+      ACCOUNT,
+      SYMBOL,
+      { buy: [level(99000)], sell: [level(101000)] },
+      EXCHANGE
+    );
+    assert.deepEqual(await getGridSymbols(ACCOUNT, EXCHANGE), [SYMBOL]);
+
+    await clearGridLevels(ACCOUNT, SYMBOL, "buy", EXCHANGE);
+    assert.deepEqual(await getGridLevels(ACCOUNT, SYMBOL, "buy", EXCHANGE), []);
+    assert.equal((await getGridLevels(ACCOUNT, SYMBOL, "sell", EXCHANGE)).length, 1);
+    assert.deepEqual(await getGridSymbols(ACCOUNT, EXCHANGE), [SYMBOL]);
+
+    await clearGridLevels(ACCOUNT, SYMBOL, "sell", EXCHANGE);
+    assert.deepEqual(await getGridSymbols(ACCOUNT, EXCHANGE), []);
+  });
+
+  it("drops a listed symbol whose hashes are gone", async () => {
+    await setGridLevel(ACCOUNT, SYMBOL, "sell", "level_0", level(101000), EXCHANGE);
+    await getRedisClient().del(getGridKey(ACCOUNT, SYMBOL, "sell", EXCHANGE));
+
+    assert.deepEqual(await getGridSymbols(ACCOUNT, EXCHANGE), []);
+  });
+
+  it("snapshots a grid once per change and restores it", async () => {
+    await replaceGridLevels(ACCOUNT, SYMBOL, { buy: [level(99000)], sell: [] }, EXCHANGE);
+    const original = await getGridHashes(ACCOUNT, SYMBOL, EXCHANGE);
+
+    const first = await snapshotGridVersion(ACCOUNT, SYMBOL, "test:first", EXCHANGE, "alice");
+    assert.equal(await snapshotGridVersion(ACCOUNT, SYMBOL, "test:again", EXCHANGE), first);
+
+    await replaceGridLevels(ACCOUNT, SYMBOL, { buy: [], sell: [level(101000)] }, EXCHANGE);
+    const second = await snapshotGridVersion(ACCOUNT, SYMBOL, "test:second", EXCHANGE);
+    assert.equal(second, first + 1);
+
+    const [latest] = await getGridVersions(ACCOUNT, SYMBOL, EXCHANGE);
+    assert.deepEqual(
+      { version: latest.version, buyLevels: latest.buyLevels, sellLevels: latest.sellLevels },
+      { version: second, buyLevels: 0, sellLevels: 1 }
+    );
+
+    const target = await getGridVersion(ACCOUNT, SYMBOL, first, EXCHANGE);
+    assert.equal(target?.user, "alice");
+    await writeGridHashes(ACCOUNT, SYMBOL, target!, EXCHANGE);
+    assert.deepEqual(await getGridHashes(ACCOUNT, SYMBOL, EXCHANGE), original);
+    assert.deepEqual(await getGridSymbols(ACCOUNT, EXCHANGE), [SYMBOL]);
+  });
+});
@@ -0,0 +1,242 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { Instrument } from "../exchange";
+import {
+  buildGridLevel,
+  diffGridHashes,
+  generateGrid,
+  getGridPrices,
+  validateGridSpec,
+  type GridSpec,
+} from "../grid";
+
+const instrument: Instrument = {
+  exchange: "okx",
+  symbol: "BTCUSDT",
+  venueSymbol: "BTC-USDT-SWAP",
+  baseAsset: "BTC",
+  quoteAsset: "USDT",
+  settleAsset: "USDT",
+  contractType: "linear",
+  tickSize: 0.1,
+  lotSize: 0.01,
+  minSize: 0.01,
+  contractValue: 0.01,
+};
+
+const inverse: Instrument = {
+  ...instrument,
+  symbol: "BTCUSD_PERP",
+  venueSymbol: "BTC-USD-SWAP",
+  quoteAsset: "USD",
+  settleAsset: "BTC",
+  contractType: "inverse",
+  lotSize: 1,
+  minSize: 1,
+  contractValue: 100,
+};
+
+function spec(overrides: Partial<GridSpec>): GridSpec {
+  return {
+    lowerPrice: 90000,
+    upperPrice: 110000,
+    levels: 5,
+    spacing: "arithmetic",
+    budgetUsd: 4000,
+    skew: 0,
+    ...overrides,
+  };
+}
+
+describe("buildGridLevel", () => {
+  it("derives size and contracts from sizeUSD", () => {
+    const { level } = buildGridLevel({ price: 100000, sizeUSD: 1000 }, instrument, null);
+    assert.deepEqual(level, {
+      price: 100000,
+      size: 0.01,
+      sizeContracts: 1,
+      sizeUSD: 1000,
+      status: "pending",
+    });
+  });
+
+  it("prefers sizeContracts over size and sizeUSD", () => {
+    const { level } = buildGridLevel(
+      { price: 100000, sizeContracts: 2, size: 5, sizeUSD: 1 },
+      instrument,
+      null
+    );
+    assert.equal(level?.sizeContracts, 2);
+    assert.equal(level?.size, 0.02);
+    assert.equal(level?.sizeUSD, 2000);
+  });
+
+  it("keeps the existing size when only the price changes", () => {
+    const existing = {
+      price: 100000,
+      size: 0.01,
+      sizeContracts: 1,
+      sizeUSD: 1000,
+      status: "filled" as const,
+    };
+    const { level } = buildGridLevel({ price: 90000 }, instrument, existing);
+    assert.deepEqual(level, { ...existing, price: 90000, sizeUSD: 900 });
+  });
+
+  it("counts inverse sizes in contracts of contractValue USD", () => {
+    const { level } = buildGridLevel({ price: 100000, sizeUSD: 1000 }, inverse, null);
+    assert.equal(level?.sizeContracts, 10);
+    assert.equal(level?.size, 10);
+    assert.equal(level?.sizeUSD, 1000);
+  });
+
+  it("rejects a price off the tick size", () => {
+    const { error } = buildGridLevel({ price: 100000.05, sizeContracts: 1 }, instrument, null);
+    assert.match(error!, /not a multiple of tick size 0.1/);
+  });
+
+  it("rejects a size off the lot size or under the minimum", () => {
+    assert.match(
+      buildGridLevel({ price: 100000, sizeContracts: 1.015 }, instrument, null).error!,
+      /not a multiple of lot size 0.01/
+    );
+    const largeMinimum = { ...instrument, minSize: 1 };
+    assert.match(
+      buildGridLevel({ price: 100000, sizeContracts: 0.5 }, largeMinimum, null).error!,
+      /below the minimum order size 1/
+    );
+  });
+
+  it("requires a size for a new level", () => {
+    assert.match(
+      buildGridLevel({ price: 100000 }, instrument, null).error!,
+      /One of sizeContracts, size or sizeUSD/
+    );
+  });
+});
+
+describe("validateGridSpec", () => {
+  it("accepts a valid spec", () => {
+    assert.equal(validateGridSpec(spec({})), null);
+    assert.equal(validateGridSpec(spec({ spacing: "custom", prices: [95000, 105000] })), null);
+  });
+
+  it("rejects inverted bounds, too few levels and an out-of-range skew", () => {
+    assert.match(validateGridSpec(spec({ lowerPrice: 110000 }))!, /lowerPrice < upperPrice/);
+    assert.match(validateGridSpec(spec({ levels: 1 }))!, /levels must be an integer/);
+    assert.match(validateGridSpec(spec({ skew: 1.5 }))!, /skew/);
+  });
+
+  it("requires prices for custom spacing", () => {
+    assert.match(validateGridSpec(spec({ spacing: "custom" }))!, /prices are required/);
+  });
+});
+
+describe("getGridPrices", () => {
+  it("spaces arithmetic levels evenly", () => {
+    assert.deepEqual(
+      getGridPrices(spec({ lowerPrice: 100, upperPrice: 200 })),
+      [100, 125, 150, 175, 200]
+    );
+  });
+
+  it("spaces geometric levels by a constant ratio", () => {
+    const prices = getGridPrices(
+      spec({ lowerPrice: 100, upperPrice: 400, levels: 3, spacing: "geometric" })
+    );
+    assert.deepEqual(prices.map((price) => Math.round(price)), [100, 200, 400]);
+  });
+
+  it("sorts custom prices", () => {
+    assert.deepEqual(getGridPrices(spec({ spacing: "custom", prices: [3, 1, 2] })), [1, 2, 3]);
+  });
+});
+
+describe("generateGrid", () => {
+  it("puts levels below mid on the buy side and above mid on the sell side", () => {
+    const grid = generateGrid(spec({}), instrument, 100000);
+
+    assert.deepEqual(grid.buy.map((level) => level.price), [95000, 90000]);
+    assert.deepEqual(grid.sell.map((level) => level.price), [105000, 110000]);
+    assert.deepEqual(grid.skipped, [{ price: 100000, reason: "At mid price" }]);
+    assert.equal(grid.totals.levels, 4);
+  });
+
+  it("splits the budget evenly and rounds sizes down to the lot size", () => {
+    const grid = generateGrid(spec({}), instrument, 100000);
+
+    // 1000 USD per level: 1000 / 95000 / 0.01 = 1.0526 contracts
+    assert.equal(grid.buy[0].sizeContracts, 1.05);
+    assert.ok(grid.buy.every((level) => level.sizeUSD! <= 1000));
+    assert.ok(grid.sell.every((level) => level.sizeUSD! <= 1000));
+  });
+
+  it("moves the budget to the buy side with a positive skew", () => {
+    const grid = generateGrid(spec({ skew: 1 }), instrument, 100000);
+
+    assert.equal(grid.buy[0].sizeContracts, 2.1);
+    assert.deepEqual(grid.sell, []);
+    assert.deepEqual(grid.skipped.map((skip) => skip.price), [100000, 105000, 110000]);
+  });
+
+  it("rounds prices to the tick size and drops duplicates", () => {
+    const grid = generateGrid(
+      spec({ spacing: "custom", prices: [94999.96, 95000.01, 105000.04] }),
+      instrument,
+      100000
+    );
+
+    assert.deepEqual(grid.buy.map((level) => level.price), [95000]);
+    assert.deepEqual(grid.sell.map((level) => level.price), [105000]);
+  });
+
+  it("skips levels under the minimum size", () => {
+    const grid = generateGrid(spec({ budgetUsd: 10 }), instrument, 100000);
+
+    assert.equal(grid.totals.levels, 0);
+    assert.equal(grid.skipped.length, 5);
+    assert.match(grid.skipped[1].reason, /below the minimum order size 0.01/);
+  });
+});
+
+describe("diffGridHashes", () => {
+  const raw = (price: number, status = "pending") =>
+    JSON.stringify({ price, size: 0.01, sizeContracts: 1, sizeUSD: price / 100, status });
+
+  it("matches levels by field and lists the keys that changed", () => {
+    const diff = diffGridHashes(
+      { buy: { level_0: raw(99000), level_1: raw(98000) }, sell: { level_0: raw(101000) } },
+      { buy: { level_0: raw(99000), level_1: raw(98000, "filled") }, sell: {} }
+    );
+
+    assert.deepEqual(diff.summary, { added: 0, removed: 1, changed: 1, unchanged: 1 });
+    assert.deepEqual(
+      diff.changes.map((change) => [change.side, change.field, change.change, change.changedKeys]),
+      [
+        ["sell", "level_0", "removed", ["price", "size", "sizeContracts", "sizeUSD", "status"]],
+        ["buy", "level_1", "changed", ["status"]],
+      ]
+    );
+    assert.equal(diff.changes[0].after, null);
+  });
+
+  it("orders fields numerically", () => {
+    const diff = diffGridHashes(
+      { buy: {}, sell: {} },
+      { buy: { level_10: raw(90000), level_2: raw(98000) }, sell: {} }
+    );
+
+    assert.deepEqual(diff.changes.map((change) => change.field), ["level_2", "level_10"]);
+    assert.equal(diff.summary.added, 2);
+  });
+
+  it("reports an unparseable level as changed with no level", () => {
+    const diff = diffGridHashes(
+      { buy: { level_0: raw(99000) }, sell: {} },
+      { buy: { level_0: "not json" }, sell: {} }
+    );
+
+    assert.equal(diff.changes[0].change, "changed");
+    assert.equal(diff.changes[0].after, null);
+  });
+});
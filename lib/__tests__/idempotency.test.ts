@@ -0,0 +1,149 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { findPlacedOrder, isTransportError } from "../exchange";
+import type { IdempotencyRecord } from "../redis";
+import { FakeExchange, makePosition, transportError } from "./fake-exchange";
+
+let idempotency: typeof import("../idempotency");
+
+before(async () => {
+  // lib/auth (used for the session user) creates the Directus client on import
+  process.env.DIRECTUS_DOMAIN ??= "http://localhost:8055";
+  idempotency = await import("../idempotency");
+});
+
+describe("fingerprintRequest", () => {
+  it("ignores key order and undefined values", () => {
+    const { fingerprintRequest } = idempotency;
+    assert.equal(
+      fingerprintRequest({ accountId: "a", symbol: "BTCUSDT", size: 1, price: undefined }),
+      fingerprintRequest({ size: 1, symbol: "BTCUSDT", accountId: "a" })
+    );
+    assert.equal(
+      fingerprintRequest({ order: { side: "buy", size: 1 } }),
+      fingerprintRequest({ order: { size: 1, side: "buy" } })
+    );
+  });
+
+  it("changes with any value", () => {
+    const { fingerprintRequest } = idempotency;
+    assert.notEqual(fingerprintRequest({ size: 1 }), fingerprintRequest({ size: 2 }));
+    assert.notEqual(fingerprintRequest({ size: 1 }), fingerprintRequest({ size: "1" }));
+    assert.notEqual(fingerprintRequest([1, 2]), fingerprintRequest([2, 1]));
+    assert.notEqual(fingerprintRequest(null), fingerprintRequest({}));
+  });
+});
+
+describe("deriveClientOrderId", () => {
+  it("is stable per key and part and fits both venues", () => {
+    const { deriveClientOrderId } = idempotency;
+    const id = deriveClientOrderId("key-12345678", "BTCUSDT", "long");
+
+    assert.match(id, /^[0-9a-f]{32}$/);
+    assert.equal(deriveClientOrderId("key-12345678", "BTCUSDT", "long"), id);
+    assert.notEqual(deriveClientOrderId("key-12345678", "BTCUSDT", "short"), id);
+    assert.notEqual(deriveClientOrderId("key-87654321", "BTCUSDT", "long"), id);
+  });
+});
+
+describe("replayIdempotentRequest", () => {
+  const completed: IdempotencyRecord = {
+    fingerprint: "abc",
+    state: "completed",
+    status: 422,
+    body: { success: false, error: "Insufficient margin" },
+    createdAt: 0,
+  };
+
+  it("replays the stored response for the same body", async () => {
+    const { replayIdempotentRequest, IDEMPOTENCY_REPLAYED_HEADER } = idempotency;
+    const response = replayIdempotentRequest(completed, "abc");
+
+    assert.equal(response.status, 422);
+    assert.equal(response.headers.get(IDEMPOTENCY_REPLAYED_HEADER), "true");
+    assert.deepEqual(await response.json(), completed.body);
+  });
+
+  it("rejects the key for a different body", () => {
+    const response = idempotency.replayIdempotentRequest(completed, "other");
+    assert.equal(response.status, 422);
+    assert.equal(response.headers.get(idempotency.IDEMPOTENCY_REPLAYED_HEADER), null);
+  });
+
+  it("answers 409 while the first request or a resumed retry runs", () => {
+    for (const state of ["pending", "unknown"] as const) {
+      const response = idempotency.replayIdempotentRequest(
+        { fingerprint: "abc", state, createdAt: 0 },
+        "abc"
+      );
+      assert.equal(response.status, 409);
+    }
+  });
+
+  it("keeps exchange rejections and marks server errors outcome-unknown", () => {
+    const { getRecordState } = idempotency;
+    assert.equal(getRecordState(200), "completed");
+    assert.equal(getRecordState(422), "completed");
+    assert.equal(getRecordState(500), "unknown");
+    assert.equal(getRecordState(502), "unknown");
+  });
+});
+
+describe("resumed order submission", () => {
+  const request = {
+    symbol: "BTCUSDT",
+    side: "sell" as const,
+    type: "market" as const,
+    size: 1,
+    reduceOnly: true,
+  };
+
+  // One attempt as the order routes run it: look up when resumed, else send
+  async function attempt(venue: FakeExchange, clientOrderId: string, resumed: boolean) {
+    const placed = await findPlacedOrder(venue, request.symbol, clientOrderId, resumed);
+    return placed ?? venue.submitOrder({ ...request, clientOrderId });
+  }
+
+  it("does not resend an order accepted before the connection dropped", async () => {
+    const venue = new FakeExchange();
+    venue.positions = [makePosition({ contracts: 1 })];
+    venue.afterSubmit = () => {
+      venue.afterSubmit = undefined;
+      throw transportError();
+    };
+    const clientOrderId = idempotency.deriveClientOrderId("key-12345678");
+
+    const error = await attempt(venue, clientOrderId, false).catch((e) => e);
+    assert.ok(isTransportError(error));
+    assert.equal(idempotency.getRecordState(500), "unknown");
+
+    const retry = await attempt(venue, clientOrderId, true);
+    assert.equal(retry.orderId, "1");
+    assert.equal(venue.submitted.length, 1);
+    assert.equal(venue.placed.length, 1);
+    assert.deepEqual(venue.positions, []);
+  });
+
+  it("sends the order on retry when the first attempt never reached the venue", async () => {
+    const venue = new FakeExchange();
+    venue.positions = [makePosition({ contracts: 1 })];
+    venue.beforeSubmit = () => {
+      venue.beforeSubmit = undefined;
+      throw transportError();
+    };
+    const clientOrderId = idempotency.deriveClientOrderId("key-87654321");
+
+    await assert.rejects(attempt(venue, clientOrderId, false));
+    await attempt(venue, clientOrderId, true);
+
+    assert.equal(venue.submitted.length, 2);
+    assert.equal(venue.placed.length, 1);
+  });
+
+  it("skips the lookup on a first attempt", async () => {
+    const venue = new FakeExchange();
+    venue.fetchOrderByClientId = async () => assert.fail("looked up without resume");
+    await attempt(venue, "id", false);
+    assert.equal(venue.placed.length, 1);
+  });
+});
@@ -0,0 +1,198 @@
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import { after, before, describe, it } from "node:test";
+import type { ExchangeAccount, Order } from "../exchange";
+import { FakeExchange, makeInstrument, makePosition } from "./fake-exchange";
+
+let killSwitch: typeof import("../kill-switch");
+
+before(async () => {
+  // The account lookup (lib/directus) creates the Directus client on import
+  process.env.DIRECTUS_DOMAIN ??= "http://localhost:8055";
+  killSwitch = await import("../kill-switch");
+});
+
+describe("closeUntilFlat", () => {
+  it("sends one reduce-only market order when it closes the whole position", async () => {
+    const exchange = new FakeExchange();
+    exchange.positions = [makePosition({ contracts: 1 })];
+
+    await killSwitch.closeUntilFlat(exchange, exchange.positions[0], makeInstrument({}));
+
+    assert.deepEqual(exchange.positions, []);
+    assert.equal(exchange.submitted.length, 1);
+    assert.deepEqual(
+      {
+        side: exchange.submitted[0].side,
+        type: exchange.submitted[0].type,
+        size: exchange.submitted[0].size,
+        reduceOnly: exchange.submitted[0].reduceOnly,
+      },
+      { side: "sell", type: "market", size: 1, reduceOnly: true }
+    );
+  });
+
+  it("keeps sending capped orders and stops once flat", async () => {
+    const exchange = new FakeExchange();
+    exchange.positions = [makePosition({ side: "SHORT", contracts: 1 })];
+
+    await killSwitch.closeUntilFlat(
+      exchange,
+      exchange.positions[0],
+      makeInstrument({ marketMaxSize: 0.4 })
+    );
+
+    assert.deepEqual(exchange.positions, []);
+    assert.deepEqual(
+      exchange.submitted.map((request) => [request.side, request.size]),
+      [
+        ["buy", 0.4],
+        ["buy", 0.4],
+        ["buy", 0.2],
+      ]
+    );
+  });
+
+  it("closes only the hedge-mode side it was given", async () => {
+    const exchange = new FakeExchange();
+    exchange.positions = [
+      makePosition({ posSide: "long", side: "LONG", contracts: 1 }),
+      makePosition({ posSide: "short", side: "SHORT", contracts: 2 }),
+    ];
+
+    await killSwitch.closeUntilFlat(exchange, exchange.positions[0], makeInstrument({}));
+
+    assert.deepEqual(
+      exchange.positions.map((pos) => [pos.posSide, pos.contracts]),
+      [["short", 2]]
+    );
+    assert.equal(exchange.submitted[0].posSide, "long");
+  });
+
+  it("stops at the first rejected close order", async () => {
+    const exchange = new FakeExchange();
+    exchange.positions = [makePosition({ contracts: 1 })];
+    exchange.beforeSubmit = () => ({
+      success: false,
+      orderId: null,
+      error: "Insufficient margin",
+      raw: null,
+    });
+
+    await assert.rejects(
+      killSwitch.closeUntilFlat(exchange, exchange.positions[0], makeInstrument({})),
+      /Insufficient margin/
+    );
+    assert.equal(exchange.submitted.length, 1);
+    assert.equal(exchange.positions[0].contracts, 1);
+  });
+
+  it("gives up when the position never goes flat", async () => {
+    const exchange = new FakeExchange();
+    exchange.positions = [makePosition({ contracts: 1 })];
+    // Something reopens the position after every close
+    exchange.afterSubmit = () => {
+      exchange.positions = [makePosition({ contracts: 1 })];
+    };
+
+    await assert.rejects(
+      killSwitch.closeUntilFlat(exchange, exchange.positions[0], makeInstrument({})),
+      /1 contracts still open after 20 close orders/
+    );
+    assert.equal(exchange.submitted.length, 20);
+  });
+});
+
+describe("flattenAccount", { skip: !process.env.REDIS_URL && "REDIS_URL is not set" }, () => {
+  // Runs against a real Redis; the keys use a random account ID and are removed afterwards
+  const account: ExchangeAccount = {
+    id: `test-${crypto.randomUUID()}`,
+    name: "Kill switch test",
+    exchange: "okx",
+    status: "active",
+  };
+  const SYMBOL = "BTCUSDT";
+  let redis: typeof import("../redis");
+
+  before(async () => {
+    redis = await import("../redis");
+  });
+
+  after(async () => {
+    const client = redis.getRedisClient();
+    const versionsKey = `hypotom-monitor:gridversions:okx:${account.id}:${SYMBOL}`;
+    await redis.clearGridLevels(account.id, SYMBOL, undefined, "okx");
+    await client.del(
+      `hypotomuai:okx:mmgrid:control:${account.id}:${SYMBOL}`,
+      versionsKey,
+      `${versionsKey}:seq`
+    );
+    await client.quit();
+  });
+
+  it("pauses, clears grids, cancels orders, closes positions and reconciles in order", async () => {
+    await redis.setGridLevel(
+      account.id,
+      SYMBOL,
+      "buy",
+      "level_0",
+      { price: 99000, size: 0.01, sizeContracts: 1, sizeUSD: 990, status: "pending" },
+      "okx"
+    );
+
+    const exchange = new FakeExchange();
+    exchange.instruments = [makeInstrument({})];
+    exchange.positions = [makePosition({ contracts: 1 })];
+    exchange.openOrders = [
+      {
+        exchange: "okx",
+        symbol: SYMBOL,
+        venueSymbol: SYMBOL,
+        orderId: "open-1",
+        clientOrderId: null,
+        side: "buy",
+        type: "limit",
+        price: 99000,
+        size: 1,
+        filledSize: 0,
+        reduceOnly: false,
+        status: "live",
+        createdAt: Date.now(),
+      } satisfies Order,
+    ];
+
+    const openOrdersAtClose: number[] = [];
+    exchange.beforeSubmit = () => {
+      openOrdersAtClose.push(exchange.openOrders.length);
+    };
+
+    const progress: string[] = [];
+    const report = await killSwitch.flattenAccount(
+      account,
+      {},
+      (event) => progress.push(`${event.step}:${event.status}`),
+      "tester",
+      () => exchange
+    );
+
+    assert.deepEqual(progress, [
+      "pause:started",
+      "pause:done",
+      "grids:started",
+      "grids:done",
+      "orders:started",
+      "orders:done",
+      "positions:started",
+      "positions:done",
+      "reconcile:started",
+      "reconcile:done",
+    ]);
+    assert.deepEqual(openOrdersAtClose, [0]);
+    assert.deepEqual(report.symbolsPaused, [SYMBOL]);
+    assert.deepEqual(report.gridSymbolsCleared, [SYMBOL]);
+    assert.deepEqual(exchange.cancelled, ["open-1"]);
+    assert.equal(report.positionsClosed, 1);
+    assert.equal(report.clean, true);
+    assert.equal((await redis.getBotControl(account.id, SYMBOL, "okx")).paused, true);
+  });
+});
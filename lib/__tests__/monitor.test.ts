@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import type { MonitorCard, MonitorSnapshot } from "../monitor";
+
+let monitor: typeof import("../monitor");
+
+before(async () => {
+  // The account lookup (lib/directus) creates the Directus client on import
+  process.env.DIRECTUS_DOMAIN ??= "http://localhost:8055";
+  monitor = await import("../monitor");
+});
+
+function card(overrides: Partial<MonitorCard>): MonitorCard {
+  return {
+    accountId: "acc1",
+    accountName: "Main",
+    symbol: "BTCUSDT",
+    exchange: "okx",
+    currentPrice: 100000,
+    positions: [],
+    buyOrders: [],
+    sellOrders: [],
+    totalPositionValue: 0,
+    ...overrides,
+  };
+}
+
+function snapshot(
+  accounts: MonitorCard[],
+  timestamp = "2026-01-01T00:00:00.000Z"
+): MonitorSnapshot {
+  return {
+    timestamp,
+    accounts,
+    filters: { exchange: null, symbol: null, accountId: null },
+    stats: {
+      okx: { accounts: 1, cards: accounts.length, errors: 0, durationMs: 0 },
+      asterdex: { accounts: 0, cards: 0, errors: 0, durationMs: 0 },
+    },
+  };
+}
+
+describe("diffMonitorSnapshots", () => {
+  it("reports nothing for identical snapshots", () => {
+    const diff = monitor.diffMonitorSnapshots(snapshot([card({})]), snapshot([card({})]));
+    assert.deepEqual(diff, {
+      timestamp: "2026-01-01T00:00:00.000Z",
+      added: [],
+      updated: [],
+      removed: [],
+    });
+  });
+
+  it("sends only the fields that changed", () => {
+    const diff = monitor.diffMonitorSnapshots(
+      snapshot([card({}), card({ symbol: "ETHUSDT", currentPrice: 3000 })]),
+      snapshot([card({ currentPrice: 101000 }), card({ symbol: "ETHUSDT", currentPrice: 3000 })])
+    );
+
+    assert.deepEqual(diff.updated, [
+      {
+        key: "acc1:BTCUSDT",
+        accountId: "acc1",
+        symbol: "BTCUSDT",
+        changes: { currentPrice: 101000 },
+      },
+    ]);
+  });
+
+  it("compares nested fields by value", () => {
+    const control = { paused: false, reduceOnly: false, maxPositionNotional: null };
+    const diff = monitor.diffMonitorSnapshots(
+      snapshot([card({ control })]),
+      snapshot([card({ control: { ...control } }), card({ symbol: "ETHUSDT" })])
+    );
+
+    assert.deepEqual(diff.updated, []);
+    assert.deepEqual(diff.added.map((added) => added.symbol), ["ETHUSDT"]);
+  });
+
+  it("sends a field that disappeared as null", () => {
+    const diff = monitor.diffMonitorSnapshots(
+      snapshot([card({ error: "Redis timeout" })]),
+      snapshot([card({})])
+    );
+
+    assert.deepEqual(diff.updated[0].changes, { error: null });
+  });
+
+  it("lists cards that are gone by key", () => {
+    const diff = monitor.diffMonitorSnapshots(
+      snapshot([card({}), card({ accountId: "acc2" })]),
+      snapshot([card({})], "2026-01-01T00:00:05.000Z")
+    );
+
+    assert.deepEqual(diff.removed, ["acc2:BTCUSDT"]);
+    assert.equal(diff.timestamp, "2026-01-01T00:00:05.000Z");
+  });
+});
@@ -0,0 +1,289 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { Instrument, Position } from "../exchange";
+import {
+  buildOrderPreview,
+  parseCloseSpec,
+  planClose,
+  resolvePosSide,
+  type OrderTicket,
+} from "../orders";
+
+const instrument: Instrument = {
+  exchange: "okx",
+  symbol: "BTCUSDT",
+  venueSymbol: "BTC-USDT-SWAP",
+  baseAsset: "BTC",
+  quoteAsset: "USDT",
+  settleAsset: "USDT",
+  contractType: "linear",
+  tickSize: 0.1,
+  lotSize: 0.01,
+  minSize: 0.01,
+  contractValue: 0.01,
+};
+
+function position(overrides: Partial<Position>): Position {
+  return {
+    exchange: "okx",
+    symbol: "BTCUSDT",
+    venueSymbol: "BTC-USDT-SWAP",
+    side: "LONG",
+    contracts: 1,
+    avgPrice: 100000,
+    markPrice: 100000,
+    unrealizedPnL: 0,
+    unrealizedPnLRatio: 0,
+    leverage: 10,
+    notionalUsd: 1000,
+    marginMode: "cross",
+    posSide: "net",
+    liquidationPrice: null,
+    marginRatio: null,
+    margin: null,
+    liquidationDistancePercent: null,
+    ...overrides,
+  };
+}
+
+function ticket(overrides: Partial<OrderTicket>): OrderTicket {
+  return {
+    symbol: "BTCUSDT",
+    side: "buy",
+    type: "market",
+    size: 1,
+    postOnly: false,
+    reduceOnly: false,
+    ...overrides,
+  };
+}
+
+const hedged = [
+  position({ side: "LONG", posSide: "long", contracts: 3 }),
+  position({ side: "SHORT", posSide: "short", contracts: 2 }),
+];
+
+describe("resolvePosSide", () => {
+  it("opens the leg matching the side in hedge mode", () => {
+    assert.equal(resolvePosSide(ticket({ side: "buy" }), hedged), "long");
+    assert.equal(resolvePosSide(ticket({ side: "sell" }), hedged), "short");
+  });
+
+  it("reduces the opposite leg in hedge mode", () => {
+    assert.equal(resolvePosSide(ticket({ side: "sell", reduceOnly: true }), hedged), "long");
+    assert.equal(resolvePosSide(ticket({ side: "buy", reduceOnly: true }), hedged), "short");
+  });
+
+  it("uses net for net positions and the venue default without positions", () => {
+    assert.equal(resolvePosSide(ticket({}), [position({})]), "net");
+    assert.equal(resolvePosSide(ticket({}), []), undefined);
+    assert.equal(resolvePosSide(ticket({ posSide: "short" }), []), "short");
+  });
+});
+
+describe("buildOrderPreview", () => {
+  it("rounds size down to the lot and price to the tick", () => {
+    const { preview } = buildOrderPreview(
+      ticket({ type: "limit", size: 1.239, price: 99999.96 }),
+      instrument,
+      [],
+      100000
+    );
+
+    assert.equal(preview?.order.size, 1.23);
+    assert.equal(preview?.order.price, 100000);
+    assert.equal(preview?.warnings.length, 2);
+  });
+
+  it("rejects sizes below the minimum", () => {
+    const { error } = buildOrderPreview(ticket({ size: 0.001 }), instrument, [], 100000);
+    assert.match(error ?? "", /below the minimum/);
+  });
+
+  it("previews only the targeted leg in hedge mode", () => {
+    const { preview } = buildOrderPreview(
+      ticket({ side: "sell", size: 1, reduceOnly: true }),
+      instrument,
+      hedged,
+      100000
+    );
+
+    assert.equal(preview?.order.posSide, "long");
+    assert.deepEqual(preview?.position, { posSide: "long", current: 3, resulting: 2 });
+  });
+
+  it("opens the short leg without netting it against the long one", () => {
+    const { preview } = buildOrderPreview(ticket({ side: "sell", size: 1 }), instrument, hedged, 100000);
+    assert.deepEqual(preview?.position, { posSide: "short", current: -2, resulting: -3 });
+  });
+
+  it("caps reduce-only orders at the position", () => {
+    const { preview } = buildOrderPreview(
+      ticket({ side: "sell", size: 5, reduceOnly: true }),
+      instrument,
+      [position({ contracts: 2 })],
+      100000
+    );
+
+    assert.equal(preview?.position.resulting, 0);
+    assert.match(preview?.warnings[0] ?? "", /exceeds the position/);
+  });
+
+  it("rejects reduce-only orders that would add to the position", () => {
+    const { error } = buildOrderPreview(
+      ticket({ side: "buy", reduceOnly: true }),
+      instrument,
+      [position({ contracts: 2 })],
+      100000
+    );
+    assert.match(error ?? "", /would not reduce/);
+  });
+
+  it("prices crossing limits as taker and estimates the fee", () => {
+    const { preview } = buildOrderPreview(
+      ticket({ type: "limit", size: 1, price: 100100 }),
+      instrument,
+      [],
+      100000
+    );
+
+    assert.equal(preview?.liquidity, "taker");
+    assert.equal(preview?.notionalUsd, 1001);
+    assert.equal(preview?.estimatedFeeUsd, 0.5005);
+  });
+});
+
+describe("planClose", () => {
+  const market = { mode: "market" as const, maxSlippagePercent: 0.5 };
+  const marketRules: Instrument = {
+    ...instrument,
+    marketLotSize: 0.1,
+    marketMinSize: 0.1,
+    marketMaxSize: 5,
+  };
+
+  it("closes exactly the position for 100%", () => {
+    const { plan } = planClose(
+      position({ contracts: 1.237 }),
+      marketRules,
+      { ...market, percentage: 100 },
+      100000
+    );
+
+    assert.equal(plan?.side, "sell");
+    assert.equal(plan?.size, 1.237);
+    assert.equal(plan?.reduceOnly, true);
+  });
+
+  it("rounds partial market closes down to the market lot", () => {
+    const { plan } = planClose(
+      position({ contracts: 1.5 }),
+      marketRules,
+      { ...market, percentage: 50 },
+      100000
+    );
+    assert.equal(plan?.size, 0.7);
+  });
+
+  it("uses the limit lot for limit_ioc closes", () => {
+    const { plan } = planClose(
+      position({ contracts: 1.5 }),
+      marketRules,
+      { mode: "limit_ioc", maxSlippagePercent: 0.5, percentage: 50 },
+      100000
+    );
+    assert.equal(plan?.size, 0.75);
+  });
+
+  it("sizes notional closes from the reference price", () => {
+    // 500 USD / (100000 * 0.01) = 0.5 contracts
+    const { plan } = planClose(
+      position({ contracts: 2 }),
+      instrument,
+      { ...market, notionalUsd: 500 },
+      100000
+    );
+    assert.equal(plan?.size, 0.5);
+  });
+
+  it("sizes inverse notional closes in contract value", () => {
+    const inverse: Instrument = {
+      ...instrument,
+      contractType: "inverse",
+      contractValue: 100,
+      lotSize: 1,
+      minSize: 1,
+    };
+    const { plan } = planClose(
+      position({ side: "SHORT", contracts: 10 }),
+      inverse,
+      { ...market, notionalUsd: 350 },
+      100000
+    );
+
+    assert.equal(plan?.side, "buy");
+    assert.equal(plan?.size, 3);
+  });
+
+  it("rejects partial closes below the minimum size", () => {
+    const { error } = planClose(
+      position({ contracts: 1 }),
+      marketRules,
+      { ...market, quantity: 0.05 },
+      100000
+    );
+    assert.match(error ?? "", /below the minimum order size 0.1/);
+  });
+
+  it("caps market closes at the market maximum", () => {
+    const { plan } = planClose(
+      position({ contracts: 12 }),
+      marketRules,
+      { ...market, percentage: 100 },
+      100000
+    );
+
+    assert.equal(plan?.size, 5);
+    assert.match(plan?.warnings[0] ?? "", /capped at the market order maximum/);
+  });
+
+  it("prices limit_ioc closes at the slippage cap, rounded towards the reference", () => {
+    const spec = { mode: "limit_ioc" as const, maxSlippagePercent: 0.5, percentage: 100 };
+
+    const sell = planClose(position({}), instrument, spec, 100000.05);
+    assert.equal(sell.plan?.price, 99500.1);
+
+    const buy = planClose(position({ side: "SHORT" }), instrument, spec, 100000.05);
+    assert.equal(buy.plan?.price, 100500);
+  });
+
+  it("targets hedge-mode positions through posSide instead of reduce-only", () => {
+    const { plan } = planClose(
+      position({ side: "SHORT", posSide: "short" }),
+      instrument,
+      { ...market, percentage: 100 },
+      100000
+    );
+
+    assert.equal(plan?.side, "buy");
+    assert.equal(plan?.reduceOnly, false);
+  });
+});
+
+describe("parseCloseSpec", () => {
+  it("requires exactly one amount", () => {
+    assert.ok(parseCloseSpec({}).error);
+    assert.ok(parseCloseSpec({ percentage: 50, quantity: 1 }).error);
+    assert.deepEqual(parseCloseSpec({ quantity: "2" }).spec, {
+      quantity: 2,
+      mode: "market",
+      maxSlippagePercent: 0.5,
+    });
+  });
+
+  it("validates the percentage and slippage ranges", () => {
+    assert.ok(parseCloseSpec({ percentage: 150 }).error);
+    assert.ok(parseCloseSpec({ percentage: 50, maxSlippagePercent: 11 }).error);
+    assert.ok(parseCloseSpec({ percentage: 50, mode: "twap" }).error);
+  });
+});
@@ -0,0 +1,28 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { hasRole, isRole, ROLES } from "../roles";
+
+describe("hasRole", () => {
+  it("grants every role up to the user's own", () => {
+    assert.deepEqual(
+      ROLES.map((role) => ROLES.filter((required) => hasRole(role, required))),
+      [["viewer"], ["viewer", "trader"], ["viewer", "trader", "admin"]]
+    );
+  });
+
+  it("grants nothing without a known role", () => {
+    for (const role of [undefined, null, "", "root", "Admin"]) {
+      for (const required of ROLES) {
+        assert.equal(hasRole(role, required), false);
+      }
+    }
+  });
+});
+
+describe("isRole", () => {
+  it("accepts only the listed roles", () => {
+    assert.equal(isRole("trader"), true);
+    assert.equal(isRole("TRADER"), false);
+    assert.equal(isRole(1), false);
+  });
+});
@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseSymbol, toCanonicalSymbol, toVenueSymbol } from "../symbols";
+
+describe("symbols", () => {
+  it("parses every supported format to the same spec", () => {
+    const linear = { base: "BTC", quote: "USDT", contractType: "linear" };
+    assert.deepEqual(parseSymbol("BTCUSDT"), linear);
+    assert.deepEqual(parseSymbol("BTC-USDT-SWAP"), linear);
+    assert.deepEqual(parseSymbol("btc/usdt"), linear);
+
+    const inverse = { base: "BTC", quote: "USD", contractType: "inverse" };
+    assert.deepEqual(parseSymbol("BTCUSD_PERP"), inverse);
+    assert.deepEqual(parseSymbol("BTC-USD-SWAP"), inverse);
+    assert.deepEqual(parseSymbol("BTCUSD"), inverse);
+  });
+
+  it("prefers USDT and USDC over USD", () => {
+    assert.equal(parseSymbol("ETHUSDC")?.quote, "USDC");
+    assert.equal(parseSymbol("ETHUSDT")?.quote, "USDT");
+  });
+
+  it("returns null or the input for unknown formats", () => {
+    assert.equal(parseSymbol("BTCEUR"), null);
+    assert.equal(parseSymbol("USDT"), null);
+    assert.equal(toCanonicalSymbol("BTCEUR"), "BTCEUR");
+    assert.equal(toVenueSymbol("BTCEUR", "okx"), "BTCEUR");
+  });
+
+  for (const canonical of ["BTCUSDT", "ETHUSDC", "BTCUSD_PERP"]) {
+    it(`round-trips ${canonical} through both venues`, () => {
+      for (const exchange of ["okx", "asterdex"] as const) {
+        const venue = toVenueSymbol(canonical, exchange);
+        assert.equal(toCanonicalSymbol(venue), canonical);
+        assert.equal(toVenueSymbol(venue, exchange), venue);
+      }
+    });
+  }
+
+  it("maps to the venue IDs", () => {
+    assert.equal(toVenueSymbol("BTCUSDT", "okx"), "BTC-USDT-SWAP");
+    assert.equal(toVenueSymbol("BTCUSD_PERP", "okx"), "BTC-USD-SWAP");
+    assert.equal(toVenueSymbol("BTC-USDT-SWAP", "asterdex"), "BTCUSDT");
+    assert.equal(toCanonicalSymbol("BTC-USD-SWAP"), "BTCUSD_PERP");
+  });
+});
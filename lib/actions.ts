@@ -0,0 +1,83 @@
+import type { ExchangeId, Order, OrderRequest } from "./exchange";
+import type { GridLevel } from "./redis";
+
+/**
+ * Concrete side effects of a mutating route, returned instead of being
+ * performed when the request has `dryRun: true`
+ * Every action carries a one-line description for confirmation dialogs.
+ */
+export type PlannedAction =
+  | {
+      type: "place_order";
+      description: string;
+      exchange: ExchangeId;
+      order: OrderRequest;
+    }
+  | {
+      type: "cancel_order";
+      description: string;
+      exchange: ExchangeId;
+      symbol: string;
+      orderId: string;
+      side: "buy" | "sell" | null;
+      price: number | null;
+      size: number | null;
+    }
+  | {
+      type: "delete_grid_level";
+      description: string;
+      key: string;
+      field: string;
+      level: GridLevel;
+    };
+
+export function placeOrderAction(exchange: ExchangeId, order: OrderRequest): PlannedAction {
+  const flags = [
+    order.reduceOnly && "reduce-only",
+    order.ioc && "IOC",
+    order.postOnly && "post-only",
+    order.posSide && order.posSide !== "net" && `posSide ${order.posSide}`,
+  ].filter(Boolean);
+
+  return {
+    type: "place_order",
+    description:
+      `${order.side.toUpperCase()} ${order.size} ${order.symbol} ${order.type}` +
+      (order.price !== undefined ? ` @ ${order.price}` : "") +
+      (flags.length > 0 ? ` (${flags.join(", ")})` : ""),
+    exchange,
+    order,
+  };
+}
+
+export function cancelOrderAction(
+  exchange: ExchangeId,
+  order: Pick<Order, "symbol" | "orderId"> & Partial<Pick<Order, "side" | "price" | "size">>
+): PlannedAction {
+  const side = order.side ?? null;
+  const price = order.price ?? null;
+  const size = order.size ?? null;
+
+  return {
+    type: "cancel_order",
+    description:
+      `Cancel ${order.symbol} order ${order.orderId}` +
+      (side && size !== null ? ` (${side.toUpperCase()} ${size}${price !== null ? ` @ ${price}` : ""})` : ""),
+    exchange,
+    symbol: order.symbol,
+    orderId: order.orderId,
+    side,
+    price,
+    size,
+  };
+}
+
+export function deleteGridLevelAction(key: string, field: string, level: GridLevel): PlannedAction {
+  return {
+    type: "delete_grid_level",
+    description: `Delete ${field} (${level.price} × ${level.size}) from ${key}`,
+    key,
+    field,
+    level,
+  };
+}
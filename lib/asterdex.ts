@@ -1,8 +1,31 @@
 import crypto from "crypto";
 import axios, { AxiosInstance } from "axios";
+import type {
+  ExchangeClient,
+  Position,
+  Order,
+  Balance,
+  Fill,
+  FillQuery,
+  Income,
+  Instrument,
+  OrderRequest,
+  OrderResult,
+  TradeHistory,
+} from "./exchange";
+import { getLiquidationDistance, isTransportError, takeLatest, toNumber } from "./exchange";
+import { parseSymbol, toCanonicalSymbol, toVenueSymbol } from "./symbols";
 
 const FUTURES_BASE_URL = "https://fapi.asterdex.com";
 const SPOT_BASE_URL = "https://api.asterdex.com";
+// Max orders per DELETE /fapi/v1/batchOrders request
+const ASTERDEX_BATCH_CANCEL_LIMIT = 10;
+// Max rows per /fapi/v1/userTrades and /fapi/v1/income request
+const ASTERDEX_HISTORY_PAGE_LIMIT = 1000;
+// Max startTime-endTime interval for the history endpoints
+const ASTERDEX_HISTORY_CHUNK_MS = 7 * 24 * 60 * 60 * 1000;
+// "Order does not exist" (GET /fapi/v1/order)
+const ASTERDEX_ORDER_NOT_FOUND = -2013;
 
 interface OrderData {
   symbol: string;
@@ -13,6 +36,7 @@ interface OrderData {
   timeInForce?: string;
   reduceOnly?: string;
   positionSide?: string;
+  newClientOrderId?: string;
 }
 
 interface AsterdexAuthParams {
@@ -20,7 +44,8 @@ interface AsterdexAuthParams {
   apiSecret: string;
 }
 
-export class AsterdexClient {
+export class AsterdexClient implements ExchangeClient {
+  readonly exchange = "asterdex" as const;
   private apiKey: string;
   private apiSecret: string;
   private baseURL: string;
@@ -190,6 +215,32 @@ export class AsterdexClient {
     return response.data;
   }
 
+  async cancelBatchOrders(symbol: string, orderIds: string[]) {
+    return this.retryOnTimestampError(async () => {
+      const timestamp = Date.now();
+      const params: any = {
+        symbol,
+        // JSON array of numeric IDs, kept as strings to avoid precision loss
+        orderIdList: `[${orderIds.join(",")}]`,
+        recvWindow: this.recvWindow,
+        timestamp,
+      };
+
+      // Sign the encoded query string exactly as it is sent
+      const queryString = Object.keys(params)
+        .sort()
+        .map((key) => `${key}=${encodeURIComponent(params[key])}`)
+        .join("&");
+      const signature = this.generateSignature(queryString);
+      const finalQueryString = `${queryString}&signature=${signature}`;
+
+      const path = "/fapi/v1/batchOrders";
+      const headers = this.getHeaders();
+      const response = await this.axios.delete(`${path}?${finalQueryString}`, { headers });
+      return response.data;
+    });
+  }
+
   async getPendingOrders(symbol?: string) {
     const timestamp = Date.now();
     const params: any = { recvWindow: this.recvWindow, timestamp };
@@ -214,6 +265,24 @@ export class AsterdexClient {
     return response.data;
   }
 
+  async getOrder(symbol: string, origClientOrderId: string) {
+    const timestamp = Date.now();
+    const params: any = { symbol, origClientOrderId, recvWindow: this.recvWindow, timestamp };
+
+    const queryString = Object.keys(params)
+      .sort()
+      .map((key) => `${key}=${params[key]}`)
+      .join("&");
+    const signature = this.generateSignature(queryString);
+
+    const path = "/fapi/v1/order";
+    const headers = this.getHeaders();
+    const response = await this.axios.get(`${path}?${queryString}&signature=${signature}`, {
+      headers,
+    });
+    return response.data;
+  }
+
   async getTicker(symbol: string) {
     const path = "/fapi/v1/ticker/24hr";
     const response = await this.axios.get(path, {
@@ -296,4 +365,416 @@ export class AsterdexClient {
     const response = await this.axios.get(`${path}?${finalQueryString}`, { headers });
     return response.data;
   }
-}
\ No newline at end of file
+
+  // ExchangeClient implementation
+
+  async fetchBalance(): Promise<Balance> {
+    const account = await this.retryOnTimestampError(() => this.getAccount());
+
+    return {
+      exchange: "asterdex",
+      equity: toNumber(account.totalMarginBalance),
+      walletBalance: toNumber(account.totalWalletBalance),
+      availableBalance: toNumber(account.availableBalance),
+      unrealizedPnL: toNumber(account.totalUnrealizedProfit),
+      updatedAt: toNumber(account.updateTime, Date.now()),
+    };
+  }
+
+  async fetchPositions(symbol?: string): Promise<Position[]> {
+    const venueSymbol = symbol ? toVenueSymbol(symbol, "asterdex") : undefined;
+    const response = await this.getPositions(venueSymbol);
+    const positions: any[] = Array.isArray(response) ? response : response?.data || [];
+
+    return positions
+      .filter((pos) => !venueSymbol || (pos.symbol || pos.s) === venueSymbol)
+      .map(normalizeAsterdexPosition)
+      .filter((pos): pos is Position => pos !== null);
+  }
+
+  async fetchOpenOrders(symbol?: string): Promise<Order[]> {
+    const response = await this.retryOnTimestampError(() =>
+      this.getPendingOrders(symbol ? toVenueSymbol(symbol, "asterdex") : undefined)
+    );
+    const orders: any[] = Array.isArray(response) ? response : response?.data || [];
+
+    return orders.map(normalizeAsterdexOrder);
+  }
+
+  async fetchOrderByClientId(symbol: string, clientOrderId: string): Promise<Order | null> {
+    try {
+      const order = await this.retryOnTimestampError(() =>
+        this.getOrder(toVenueSymbol(symbol, "asterdex"), clientOrderId)
+      );
+      return normalizeAsterdexOrder(order);
+    } catch (error: any) {
+      if (error.response?.data?.code === ASTERDEX_ORDER_NOT_FOUND) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch fills in 7-day chunks (API maximum interval), paging through each chunk
+   * Without a symbol, traded symbols are discovered from open positions
+   * and realized PnL income in the requested range
+   */
+  async fetchFills(query: FillQuery): Promise<Fill[]> {
+    if (!query.symbol) {
+      const { fills } = await this.fetchTradeHistory(query);
+      return fills;
+    }
+
+    const endTime = query.endTime || Date.now();
+    const startTime = query.startTime || endTime - ASTERDEX_HISTORY_CHUNK_MS;
+    const symbol = toVenueSymbol(query.symbol, "asterdex");
+    return takeLatest(await this.fetchSymbolFills([symbol], startTime, endTime), query.limit);
+  }
+
+  /**
+   * Fetch the income once and reuse it to discover the symbols whose fills
+   * are fetched when no symbol is given
+   */
+  async fetchTradeHistory(query: FillQuery): Promise<TradeHistory> {
+    const endTime = query.endTime || Date.now();
+    const startTime = query.startTime || endTime - ASTERDEX_HISTORY_CHUNK_MS;
+
+    const income = await this.fetchIncome({ symbol: query.symbol, startTime, endTime });
+
+    let symbols: string[];
+    if (query.symbol) {
+      symbols = [toVenueSymbol(query.symbol, "asterdex")];
+    } else {
+      const positions = await this.fetchPositions();
+      symbols = [
+        ...new Set([
+          ...positions.map((pos) => pos.venueSymbol),
+          ...income.map((inc) => inc.venueSymbol),
+        ]),
+      ];
+    }
+
+    const fills = await this.fetchSymbolFills(symbols, startTime, endTime);
+    return {
+      fills: takeLatest(fills, query.limit),
+      income: takeLatest(income, query.limit),
+    };
+  }
+
+  private async fetchSymbolFills(
+    symbols: string[],
+    startTime: number,
+    endTime: number
+  ): Promise<Fill[]> {
+    const fills: Fill[] = [];
+    for (const symbol of symbols) {
+      const trades = await this.fetchHistoryChunks(
+        startTime,
+        endTime,
+        (chunkStart, chunkEnd) =>
+          this.getUserTrades(symbol, chunkStart, chunkEnd, ASTERDEX_HISTORY_PAGE_LIMIT),
+        (trade) => String(trade.id),
+        `fills for ${symbol}`
+      );
+      fills.push(...trades.map(normalizeAsterdexFill));
+    }
+    return fills;
+  }
+
+  async fetchIncome(query: FillQuery): Promise<Income[]> {
+    const endTime = query.endTime || Date.now();
+    const startTime = query.startTime || endTime - ASTERDEX_HISTORY_CHUNK_MS;
+    const symbol = query.symbol ? toVenueSymbol(query.symbol, "asterdex") : undefined;
+
+    const rows = await this.fetchHistoryChunks(
+      startTime,
+      endTime,
+      (chunkStart, chunkEnd) =>
+        this.getIncomeHistory(
+          symbol,
+          "REALIZED_PNL",
+          chunkStart,
+          chunkEnd,
+          ASTERDEX_HISTORY_PAGE_LIMIT
+        ),
+      (income) => `${income.tranId}:${income.tradeId}:${income.symbol}:${income.time}`,
+      `income for ${symbol ?? "all symbols"}`
+    );
+
+    return takeLatest(rows.map(normalizeAsterdexIncome), query.limit);
+  }
+
+  /**
+   * Fetch a history endpoint over a range in 7-day chunks
+   * A full page means there may be more: the chunk is requested again from the
+   * last row's time and rows are de-duplicated by key. A failing chunk is logged
+   * and skipped so the rest of the range is still returned.
+   */
+  private async fetchHistoryChunks(
+    startTime: number,
+    endTime: number,
+    fetchPage: (startTime: number, endTime: number) => Promise<any>,
+    keyOf: (row: any) => string,
+    label: string
+  ): Promise<any[]> {
+    const rows = new Map<string, any>();
+
+    for (let chunkStart = startTime; chunkStart < endTime; chunkStart += ASTERDEX_HISTORY_CHUNK_MS) {
+      const chunkEnd = Math.min(chunkStart + ASTERDEX_HISTORY_CHUNK_MS, endTime);
+      let cursor = chunkStart;
+
+      try {
+        while (true) {
+          const response = await fetchPage(cursor, chunkEnd);
+          const page: any[] = Array.isArray(response) ? response : response?.data || [];
+          page.forEach((row) => rows.set(keyOf(row), row));
+
+          if (page.length < ASTERDEX_HISTORY_PAGE_LIMIT) break;
+
+          const lastTime = Math.max(...page.map((row) => toNumber(row.time)));
+          // A full page within one millisecond: step past it rather than loop
+          cursor = lastTime > cursor ? lastTime : lastTime + 1;
+          if (cursor >= chunkEnd) break;
+        }
+      } catch (error: any) {
+        console.error(
+          `[Asterdex] Error fetching ${label} ${chunkStart}-${chunkEnd}:`,
+          error.message
+        );
+      }
+    }
+
+    return Array.from(rows.values());
+  }
+
+  async fetchInstrument(symbol: string): Promise<Instrument | null> {
+    const venueSymbol = toVenueSymbol(symbol, "asterdex");
+    const exchangeInfo = await this.getExchangeInfo(venueSymbol);
+    const info = exchangeInfo?.symbols?.find((s: any) => s.symbol === venueSymbol);
+    return info ? normalizeAsterdexInstrument(info) : null;
+  }
+
+  async fetchInstruments(): Promise<Instrument[]> {
+    const exchangeInfo = await this.getExchangeInfo();
+    return (exchangeInfo?.symbols || []).map(normalizeAsterdexInstrument);
+  }
+
+  async submitOrder(request: OrderRequest): Promise<OrderResult> {
+    const orderData: OrderData = {
+      symbol: toVenueSymbol(request.symbol, "asterdex"),
+      side: request.side.toUpperCase(),
+      type: request.type.toUpperCase(),
+      quantity: request.size.toString(),
+    };
+
+    if (request.type === "limit" && request.price !== undefined) {
+      orderData.price = request.price.toString();
+      // GTX = good till crossing (post-only)
+      orderData.timeInForce = request.postOnly ? "GTX" : request.ioc ? "IOC" : "GTC";
+    }
+    if (request.reduceOnly) {
+      orderData.reduceOnly = "true";
+    }
+    if (request.posSide && request.posSide !== "net") {
+      orderData.positionSide = request.posSide.toUpperCase();
+    }
+    if (request.clientOrderId) {
+      orderData.newClientOrderId = request.clientOrderId;
+    }
+
+    try {
+      const response = await this.placeOrder(orderData);
+      const orderId = response.orderId || response.clientOrderId || response.i;
+      return {
+        success: !!orderId,
+        orderId: orderId ? String(orderId) : null,
+        error: orderId ? null : response.msg || response.message || "Unknown error",
+        raw: response,
+      };
+    } catch (error: any) {
+      if (isTransportError(error)) {
+        throw error;
+      }
+      return toErrorResult(error);
+    }
+  }
+
+  async cancelOpenOrder(symbol: string, orderId: string): Promise<OrderResult> {
+    try {
+      const response = await this.cancelOrder(toVenueSymbol(symbol, "asterdex"), orderId);
+      return {
+        success: true,
+        orderId: String(response.orderId ?? orderId),
+        error: null,
+        raw: response,
+      };
+    } catch (error: any) {
+      return toErrorResult(error);
+    }
+  }
+
+  async cancelOpenOrders(symbol: string, orderIds: string[]): Promise<OrderResult[]> {
+    const venueSymbol = toVenueSymbol(symbol, "asterdex");
+    const results: OrderResult[] = [];
+
+    for (let i = 0; i < orderIds.length; i += ASTERDEX_BATCH_CANCEL_LIMIT) {
+      const batch = orderIds.slice(i, i + ASTERDEX_BATCH_CANCEL_LIMIT);
+
+      try {
+        // One entry per requested ID, in order: the cancelled order or {code, msg}
+        const response: any[] = await this.cancelBatchOrders(venueSymbol, batch);
+        batch.forEach((orderId, idx) => {
+          const item = response?.[idx];
+          const success = item?.orderId !== undefined;
+          results.push({
+            success,
+            orderId,
+            error: success ? null : item?.msg || "Cancel failed",
+            raw: item ?? null,
+          });
+        });
+      } catch (error: any) {
+        const { error: message } = toErrorResult(error);
+        results.push(
+          ...batch.map((orderId) => ({ success: false, orderId, error: message, raw: null }))
+        );
+      }
+    }
+
+    return results;
+  }
+}
+
+function normalizeAsterdexOrder(order: any): Order {
+  return {
+    exchange: "asterdex",
+    symbol: toCanonicalSymbol(order.symbol),
+    venueSymbol: order.symbol,
+    orderId: String(order.orderId),
+    clientOrderId: order.clientOrderId || null,
+    side: order.side === "BUY" ? "buy" : "sell",
+    type: String(order.type).toLowerCase(),
+    price: toNumber(order.price) > 0 ? toNumber(order.price) : null,
+    size: toNumber(order.origQty),
+    filledSize: toNumber(order.executedQty),
+    reduceOnly: order.reduceOnly === true || order.reduceOnly === "true",
+    status: order.status,
+    createdAt: toNumber(order.time),
+  };
+}
+
+function toErrorResult(error: any): OrderResult {
+  return {
+    success: false,
+    orderId: null,
+    error: error.response?.data?.msg || error.response?.data?.message || error.message,
+    raw: error.response?.data ?? null,
+  };
+}
+
+/**
+ * Normalize a raw AsterDex position (REST payload, websocket payload or backend-cron snapshot)
+ */
+export function normalizeAsterdexPosition(raw: any): Position | null {
+  const symbol = raw.symbol || raw.s;
+  const posAmt = toNumber(raw.positionAmt ?? raw.pa);
+  if (!symbol || posAmt === 0) {
+    return null;
+  }
+
+  const positionSide = String(raw.positionSide || raw.ps || "BOTH").toUpperCase();
+  const posSide = positionSide === "LONG" ? "long" : positionSide === "SHORT" ? "short" : "net";
+  const marginMode =
+    String(raw.marginType || raw.mt || "cross").toLowerCase() === "isolated" ? "isolated" : "cross";
+  const avgPrice = toNumber(raw.entryPrice ?? raw.ep);
+  const markPrice = raw.markPrice ? toNumber(raw.markPrice) : null;
+  const liquidationPrice = toNumber(raw.liquidationPrice) || null;
+
+  return {
+    exchange: "asterdex",
+    symbol: toCanonicalSymbol(symbol),
+    venueSymbol: symbol,
+    side: posAmt > 0 ? "LONG" : "SHORT",
+    contracts: Math.abs(posAmt),
+    avgPrice,
+    markPrice,
+    unrealizedPnL: toNumber(raw.unRealizedProfit ?? raw.unrealizedProfit ?? raw.upl),
+    unrealizedPnLRatio: toNumber(raw.unRealizedProfitRatio ?? raw.uplRatio) * 100,
+    leverage: toNumber(raw.leverage ?? raw.lever, 1),
+    notionalUsd: Math.abs(toNumber(raw.notional ?? raw.notionalUsd)),
+    marginMode,
+    posSide,
+    liquidationPrice,
+    // AsterDex does not report a per-position margin ratio
+    marginRatio: null,
+    // isolatedMargin is 0 for cross positions, which report initialMargin instead
+    margin: toNumber(marginMode === "isolated" ? raw.isolatedMargin : raw.initialMargin) || null,
+    liquidationDistancePercent: getLiquidationDistance(liquidationPrice, markPrice, avgPrice),
+  };
+}
+
+/**
+ * Normalize a raw AsterDex user trade (REST payload or backend-cron snapshot)
+ */
+export function normalizeAsterdexFill(raw: any): Fill {
+  return {
+    exchange: "asterdex",
+    symbol: toCanonicalSymbol(raw.symbol),
+    venueSymbol: raw.symbol,
+    tradeId: String(raw.id),
+    orderId: String(raw.orderId),
+    side: raw.side === "BUY" ? "buy" : "sell",
+    price: toNumber(raw.price),
+    size: toNumber(raw.qty),
+    fee: toNumber(raw.commission),
+    feeAsset: raw.commissionAsset,
+    realizedPnL: toNumber(raw.realizedPnl),
+    maker: !!raw.maker,
+    time: toNumber(raw.time),
+  };
+}
+
+/**
+ * Normalize a raw AsterDex income row (REST payload or backend-cron snapshot)
+ */
+export function normalizeAsterdexIncome(raw: any): Income {
+  return {
+    exchange: "asterdex",
+    symbol: toCanonicalSymbol(raw.symbol),
+    venueSymbol: raw.symbol,
+    incomeType: raw.incomeType,
+    amount: toNumber(raw.income),
+    asset: raw.asset,
+    tradeId: raw.tradeId ? String(raw.tradeId) : null,
+    time: toNumber(raw.time),
+  };
+}
+
+/**
+ * Normalize a raw AsterDex symbol from /fapi/v1/exchangeInfo
+ */
+export function normalizeAsterdexInstrument(raw: any): Instrument {
+  const filters: any[] = raw.filters || [];
+  const priceFilter = filters.find((f) => f.filterType === "PRICE_FILTER");
+  const lotSizeFilter = filters.find((f) => f.filterType === "LOT_SIZE");
+  const marketLotSizeFilter = filters.find((f) => f.filterType === "MARKET_LOT_SIZE");
+  const spec = parseSymbol(raw.symbol);
+
+  return {
+    exchange: "asterdex",
+    symbol: toCanonicalSymbol(raw.symbol),
+    venueSymbol: raw.symbol,
+    baseAsset: raw.baseAsset,
+    quoteAsset: raw.quoteAsset,
+    settleAsset: raw.marginAsset || raw.quoteAsset,
+    contractType: spec?.contractType || "linear",
+    tickSize: toNumber(priceFilter?.tickSize, Math.pow(10, -(raw.pricePrecision ?? 2))),
+    lotSize: toNumber(lotSizeFilter?.stepSize, Math.pow(10, -(raw.quantityPrecision ?? 3))),
+    minSize: toNumber(lotSizeFilter?.minQty),
+    marketLotSize: marketLotSizeFilter ? toNumber(marketLotSizeFilter.stepSize) : undefined,
+    marketMinSize: marketLotSizeFilter ? toNumber(marketLotSizeFilter.minQty) : undefined,
+    marketMaxSize: marketLotSizeFilter ? toNumber(marketLotSizeFilter.maxQty) : undefined,
+    contractValue: toNumber(raw.contractSize, 1),
+  };
+}
@@ -0,0 +1,159 @@
+import crypto from "crypto";
+import { getServerSession } from "next-auth";
+import { authOptions } from "./auth";
+import { fetchItems } from "./directus";
+import { resolveExchange, type ExchangeAccount } from "./exchange";
+import { IDEMPOTENCY_REPLAYED_HEADER } from "./idempotency";
+import { appendAuditEntry, type AuditEntry } from "./redis";
+import { toCanonicalSymbol } from "./symbols";
+
+/**
+ * Audit trail for mutating routes
+ * Entries are stored in Redis (see appendAuditEntry) and listed by /api/audit.
+ */
+
+export const AUDIT_ACTIONS = [
+  "place-order",
+  "close-position",
+  "cancel-order",
+  "cancel-all-orders",
+  "set-grid-level",
+  "generate-grid",
+  "delete-grid-level",
+  "restore-grid-version",
+  "set-bot-control",
+  "kill-switch",
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+/**
+ * Record an audit entry; failures are logged and never affect the action itself
+ */
+export async function recordAudit(entry: Omit<AuditEntry, "id">): Promise<void> {
+  try {
+    await appendAuditEntry({ id: crypto.randomUUID(), ...entry });
+  } catch (error) {
+    console.error(`[Audit] Failed to record ${entry.action}:`, error);
+  }
+}
+
+async function getAccountExchange(accountId: string): Promise<string | null> {
+  const account = await fetchItems<Pick<ExchangeAccount, "id" | "exchange">>("trading_accounts", {
+    filter: { id: { _eq: accountId } },
+    limit: 1,
+    fields: ["id", "exchange"],
+  });
+  return account ? resolveExchange(account) : null;
+}
+
+/**
+ * Account, symbol and exchange an audited call acted on, from the request
+ * The exchange is the kill-switch scope's or the account's (responses do not
+ * all carry it); cancel-order names the symbol by venue instId.
+ */
+export async function getAuditTarget(
+  body: any,
+  lookupExchange: (accountId: string) => Promise<string | null> = getAccountExchange
+): Promise<Pick<AuditEntry, "accountId" | "symbol" | "exchange">> {
+  const accountId: string | null = body?.accountId ?? null;
+  const symbol = body?.symbol ?? body?.scope?.symbol ?? body?.instId ?? null;
+
+  let exchange: string | null = body?.exchange ?? body?.scope?.exchange ?? null;
+  if (!exchange && accountId) {
+    exchange = await lookupExchange(accountId).catch((error) => {
+      console.error(`[Audit] Failed to resolve the exchange of ${accountId}:`, error);
+      return null;
+    });
+  }
+
+  return {
+    accountId,
+    symbol: symbol ? toCanonicalSymbol(String(symbol)) : null,
+    exchange,
+  };
+}
+
+/**
+ * Wrap a mutating route handler so every call is audited
+ * Unauthenticated calls, streamed responses (audited by the route itself),
+ * idempotent replays (the first call is recorded) and read-only calls such as
+ * dry runs are not recorded.
+ */
+export function withAudit<R extends Request>(
+  action: AuditAction,
+  handler: (request: R) => Promise<Response>,
+  isReadOnly: (body: any) => boolean = (body) => !!body?.dryRun
+): (request: R) => Promise<Response> {
+  return async (request) => {
+    const startedAt = Date.now();
+    const body = await request.clone().json().catch(() => null);
+    const response = await handler(request);
+    const latencyMs = Date.now() - startedAt;
+
+    if (
+      response.status === 401 ||
+      isReadOnly(body) ||
+      response.headers.has(IDEMPOTENCY_REPLAYED_HEADER) ||
+      response.headers.get("content-type")?.includes("text/event-stream")
+    ) {
+      return response;
+    }
+
+    const [session, result, target] = await Promise.all([
+      getServerSession(authOptions),
+      response.clone().json().catch(() => null),
+      getAuditTarget(body),
+    ]);
+
+    await recordAudit({
+      timestamp: startedAt,
+      user: session?.user?.name ?? null,
+      action,
+      ...target,
+      request: body,
+      response: result,
+      success: response.ok && result?.success !== false,
+      status: response.status,
+      latencyMs,
+    });
+
+    return response;
+  };
+}
+
+const CSV_COLUMNS: Array<keyof AuditEntry> = [
+  "timestamp",
+  "user",
+  "action",
+  "accountId",
+  "symbol",
+  "exchange",
+  "success",
+  "status",
+  "latencyMs",
+  "request",
+  "response",
+];
+
+function csvCell(value: unknown): string {
+  const text =
+    value === null || value === undefined
+      ? ""
+      : typeof value === "object"
+        ? JSON.stringify(value)
+        : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render audit entries as CSV (ISO timestamps, request/response as JSON)
+ */
+export function toAuditCsv(entries: AuditEntry[]): string {
+  const rows = entries.map((entry) =>
+    CSV_COLUMNS.map((column) =>
+      csvCell(column === "timestamp" ? new Date(entry.timestamp).toISOString() : entry[column])
+    ).join(",")
+  );
+  return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
@@ -1,5 +1,107 @@
-import type { NextAuthOptions } from "next-auth";
+import crypto from "crypto";
+import { NextResponse } from "next/server";
+import { getServerSession, type NextAuthOptions, type Session } from "next-auth";
 import CredentialsProvider from "next-auth/providers/credentials";
+import { fetchItems } from "./directus";
+import { hasRole, isRole, type Role } from "./roles";
+
+/**
+ * Dashboard user record as stored in the Directus `dashboard_users` collection
+ * Usernames are stored lowercase; password_hash comes from hashPassword
+ * (see scripts/hash-password.ts)
+ */
+interface DashboardUser {
+  id: string;
+  username: string;
+  password_hash: string;
+  role: string;
+  status: string;
+}
+
+const SCRYPT_KEY_LENGTH = 64;
+
+// How often a signed-in user's role and status are re-read from Directus
+const ROLE_REFRESH_INTERVAL_MS = 60_000;
+
+function scrypt(password: string, salt: string): Promise<Buffer> {
+  return new Promise((resolve, reject) =>
+    crypto.scrypt(password, salt, SCRYPT_KEY_LENGTH, (error, key) =>
+      error ? reject(error) : resolve(key)
+    )
+  );
+}
+
+/**
+ * Hash a password with scrypt and a random salt
+ * Format: scrypt${salt hex}${hash hex}
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16).toString("hex");
+  const key = await scrypt(password, salt);
+  return `scrypt$${salt}$${key.toString("hex")}`;
+}
+
+/**
+ * Check a password against a hashPassword result (constant-time compare)
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, "hex");
+  const key = await scrypt(password, salt);
+  return expected.length === key.length && crypto.timingSafeEqual(expected, key);
+}
+
+/**
+ * Constant-time string compare; both sides are hashed first so inputs of
+ * different lengths take the same time too
+ */
+function safeEqual(a: string, b: string): boolean {
+  const digest = (value: string) => crypto.createHash("sha256").update(value).digest();
+  return crypto.timingSafeEqual(digest(a), digest(b));
+}
+
+async function authorizeDashboardUser(username: string, password: string) {
+  try {
+    const user = await fetchItems<DashboardUser>("dashboard_users", {
+      filter: { username: { _eq: username }, status: { _eq: "active" } },
+      limit: 1,
+      fields: ["*"],
+    });
+
+    if (!user || !isRole(user.role) || !(await verifyPassword(password, user.password_hash))) {
+      return null;
+    }
+
+    return { id: user.id, name: user.username, role: user.role };
+  } catch (error) {
+    console.error("Error fetching dashboard user:", error);
+    return null;
+  }
+}
+
+/**
+ * Current role of a signed-in user, or undefined when the user was removed,
+ * deactivated or no longer has a valid role
+ * The bootstrap admin (id "admin") stays valid while the environment still
+ * names it.
+ */
+async function reloadRole(id: string, username?: string | null): Promise<Role | undefined> {
+  if (id === "admin") {
+    return process.env.ADMIN_USERNAME?.toLowerCase() === username ? "admin" : undefined;
+  }
+
+  const user = await fetchItems<Pick<DashboardUser, "role" | "status">>("dashboard_users", {
+    filter: { id: { _eq: id } },
+    limit: 1,
+    fields: ["role", "status"],
+  });
+
+  return user && user.status === "active" && isRole(user.role) ? user.role : undefined;
+}
 
 export const authOptions: NextAuthOptions = {
   providers: [
@@ -10,21 +112,66 @@ export const authOptions: NextAuthOptions = {
         password: { label: "Password", type: "password" },
       },
       async authorize(credentials) {
+        const username = credentials?.username?.trim().toLowerCase();
+        const password = credentials?.password;
+
+        if (!username || !password) {
+          return null;
+        }
+
+        // Bootstrap admin from the environment, kept so the dashboard stays
+        // reachable before any dashboard_users exist
         if (
-          credentials?.username?.toLowerCase() ===
-            process.env.ADMIN_USERNAME?.toLowerCase() &&
-          credentials?.password === process.env.ADMIN_PASSWORD
+          process.env.ADMIN_USERNAME &&
+          process.env.ADMIN_PASSWORD &&
+          username === process.env.ADMIN_USERNAME.toLowerCase() &&
+          safeEqual(password, process.env.ADMIN_PASSWORD)
         ) {
           return {
-            id: "1",
-            name: credentials?.username || "admin",
-            email: `${credentials?.username || "admin"}@admin.com`,
+            id: "admin",
+            name: username,
+            email: `${username}@admin.com`,
+            role: "admin" as const,
           };
         }
-        return null;
+
+        return authorizeDashboardUser(username, password);
       },
     }),
   ],
+  callbacks: {
+    async jwt({ token, user }) {
+      if (user) {
+        token.role = user.role;
+        token.roleCheckedAt = Date.now();
+        return token;
+      }
+
+      // Role changes and deactivation apply within ROLE_REFRESH_INTERVAL_MS.
+      // Tokens without a role (revoked, or issued before roles existed) are
+      // left alone; requireRole answers them with 401 so the user signs in again
+      if (
+        token.role &&
+        token.sub &&
+        Date.now() - (token.roleCheckedAt ?? 0) >= ROLE_REFRESH_INTERVAL_MS
+      ) {
+        try {
+          token.role = await reloadRole(token.sub, token.name);
+          token.roleCheckedAt = Date.now();
+        } catch (error) {
+          // Keep the current role and retry on the next request
+          console.error("Error reloading dashboard user role:", error);
+        }
+      }
+      return token;
+    },
+    async session({ session, token }) {
+      if (session.user) {
+        session.user.role = token.role;
+      }
+      return session;
+    },
+  },
   pages: {
     signIn: "/login",
   },
@@ -33,3 +180,38 @@ export const authOptions: NextAuthOptions = {
   },
   secret: process.env.NEXTAUTH_SECRET,
 };
+
+/**
+ * Get the session and check its role
+ * Returns 401 without a session or without a role (the session predates roles
+ * or the user was deactivated) and 403 when the role is below `role`
+ */
+export async function requireRole(
+  role: Role
+): Promise<{ session: Session; error?: undefined } | { session?: undefined; error: NextResponse }> {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  }
+
+  if (!session.user?.role) {
+    return {
+      error: NextResponse.json(
+        { error: "Session expired, please sign in again" },
+        { status: 401 }
+      ),
+    };
+  }
+
+  if (!hasRole(session.user?.role, role)) {
+    return {
+      error: NextResponse.json(
+        { error: `Forbidden: requires the ${role} role` },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { session };
+}
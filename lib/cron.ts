@@ -0,0 +1,104 @@
+import crypto from "crypto";
+import { fetchItems } from "./directus";
+import {
+  createExchangeClient,
+  resolveExchange,
+  type ExchangeAccount,
+  type ExchangeClient,
+  type ExchangeId,
+} from "./exchange";
+
+export interface CronAccountResult {
+  accountId: string;
+  accountName: string;
+  exchange: ExchangeId;
+  success: boolean;
+  error?: string;
+  [key: string]: any;
+}
+
+/**
+ * Check the shared secret sent by the scheduler
+ * Expects `Authorization: Bearer {CRON_SECRET}` (sent automatically by Vercel Cron)
+ * Requests are only let through without a secret in development when CRON_SECRET is unset
+ */
+export function isAuthorizedCronRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret) {
+    return process.env.NODE_ENV === "development";
+  }
+
+  const header = request.headers.get("authorization") || "";
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(header);
+
+  return (
+    expected.length === received.length &&
+    crypto.timingSafeEqual(expected, received)
+  );
+}
+
+/**
+ * Run a collector for every active account on every exchange
+ * Each account runs in isolation: a failure is recorded in its result
+ * and never aborts the other accounts
+ */
+export async function runForActiveAccounts(
+  task: (
+    account: ExchangeAccount,
+    client: ExchangeClient
+  ) => Promise<Record<string, any>>
+): Promise<CronAccountResult[]> {
+  const accounts = await fetchItems<ExchangeAccount[]>("trading_accounts", {
+    filter: {
+      status: { _eq: "active" },
+    },
+    limit: -1,
+    fields: ["*"],
+  });
+
+  return Promise.all(
+    accounts.map(async (account) => {
+      const base = {
+        accountId: account.id,
+        accountName: account.name || account.id,
+        exchange: resolveExchange(account),
+      };
+
+      try {
+        const client = createExchangeClient(account);
+        const details = await task(account, client);
+        return { ...base, ...details, success: true };
+      } catch (error: any) {
+        const message =
+          error.response?.data?.msg ||
+          error.response?.data?.message ||
+          error.message;
+        console.error(
+          `[Cron] Error processing account ${base.accountName} (${base.exchange}):`,
+          message
+        );
+        return { ...base, success: false, error: message };
+      }
+    })
+  );
+}
+
+/**
+ * Build the standard cron response body
+ */
+export function summarizeCronResults(results: CronAccountResult[]) {
+  const successful = results.filter((r) => r.success).length;
+
+  return {
+    success: true,
+    timestamp: new Date().toISOString(),
+    summary: {
+      total: results.length,
+      successful,
+      failed: results.length - successful,
+    },
+    results,
+  };
+}
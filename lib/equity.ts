@@ -0,0 +1,271 @@
+import { normalizePositions, type ExchangeId } from "./exchange";
+import { getEquityAt, getLatestEquity } from "./redis";
+import { toCanonicalSymbol } from "./symbols";
+
+export interface EquityPoint {
+  timestamp: number;
+  equity: number;
+}
+
+export interface EquityCandle {
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+export interface EquityChange {
+  from: number | null;
+  to: number | null;
+  change: number | null;
+  changePercent: number | null;
+}
+
+export type ChangeWindow = "1h" | "24h" | "7d" | "30d";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Lookback and how far the nearest snapshot may be from the target time
+export const CHANGE_WINDOWS: Record<ChangeWindow, { ms: number; toleranceMs: number }> = {
+  "1h": { ms: HOUR, toleranceMs: 15 * MINUTE },
+  "24h": { ms: DAY, toleranceMs: HOUR },
+  "7d": { ms: 7 * DAY, toleranceMs: 6 * HOUR },
+  "30d": { ms: 30 * DAY, toleranceMs: DAY },
+};
+
+const RESOLUTIONS: Record<string, number> = {
+  "10m": 10 * MINUTE,
+  "30m": 30 * MINUTE,
+  "1h": HOUR,
+  "4h": 4 * HOUR,
+  "1d": DAY,
+};
+
+const MAX_BUCKETS = 500;
+
+/**
+ * Resolve a resolution query parameter to a bucket size in ms
+ * Accepts a named resolution (10m, 30m, 1h, 4h, 1d) or a number of ms;
+ * without one, picks the smallest named resolution giving at most 500 buckets
+ */
+export function parseResolution(resolution: string | null, from: number, to: number): number | null {
+  if (resolution) {
+    if (RESOLUTIONS[resolution]) return RESOLUTIONS[resolution];
+    const ms = parseInt(resolution);
+    return !isNaN(ms) && ms >= MINUTE ? ms : null;
+  }
+
+  const span = Math.max(to - from, 0);
+  const named = Object.values(RESOLUTIONS).find((ms) => span / ms <= MAX_BUCKETS);
+  return named ?? DAY;
+}
+
+/**
+ * Downsample equity points into OHLC candles aligned on bucket boundaries
+ * Points must be sorted oldest first; empty buckets are skipped
+ */
+export function downsampleEquity(points: EquityPoint[], bucketMs: number): EquityCandle[] {
+  const candles: EquityCandle[] = [];
+
+  for (const point of points) {
+    const bucket = Math.floor(point.timestamp / bucketMs) * bucketMs;
+    const last = candles[candles.length - 1];
+
+    if (last && last.timestamp === bucket) {
+      last.high = Math.max(last.high, point.equity);
+      last.low = Math.min(last.low, point.equity);
+      last.close = point.equity;
+    } else {
+      candles.push({
+        timestamp: bucket,
+        open: point.equity,
+        high: point.equity,
+        low: point.equity,
+        close: point.equity,
+      });
+    }
+  }
+
+  return candles;
+}
+
+/**
+ * Sum several accounts' candle series into a portfolio curve (last value per bucket)
+ * An account's last close is carried forward into buckets where it has no data
+ */
+export function sumEquityCurves(series: EquityCandle[][]): EquityPoint[] {
+  const buckets = Array.from(
+    new Set(series.flatMap((candles) => candles.map((c) => c.timestamp)))
+  ).sort((a, b) => a - b);
+
+  const cursors = series.map(() => 0);
+  const lastClose: Array<number | null> = series.map(() => null);
+
+  return buckets.map((timestamp) => {
+    let equity = 0;
+    series.forEach((candles, i) => {
+      while (cursors[i] < candles.length && candles[cursors[i]].timestamp <= timestamp) {
+        lastClose[i] = candles[cursors[i]].close;
+        cursors[i]++;
+      }
+      equity += lastClose[i] ?? 0;
+    });
+    return { timestamp, equity };
+  });
+}
+
+function toChange(from: number | null, to: number | null): EquityChange {
+  if (from === null || to === null) {
+    return { from, to, change: null, changePercent: null };
+  }
+  const change = to - from;
+  return {
+    from,
+    to,
+    change,
+    changePercent: from !== 0 ? (change / from) * 100 : null,
+  };
+}
+
+/**
+ * Compute 1h/24h/7d/30d equity changes for an account from its snapshot series
+ */
+export async function getEquityChanges(
+  accountId: string
+): Promise<Record<ChangeWindow, EquityChange>> {
+  const latest = await getLatestEquity(accountId);
+  const now = latest?.timestamp ?? Date.now();
+
+  const entries = await Promise.all(
+    (Object.keys(CHANGE_WINDOWS) as ChangeWindow[]).map(async (window) => {
+      const { ms, toleranceMs } = CHANGE_WINDOWS[window];
+      const past = latest ? await getEquityAt(accountId, now - ms, toleranceMs) : null;
+      return [window, toChange(past?.equity ?? null, latest?.equity ?? null)] as const;
+    })
+  );
+
+  return Object.fromEntries(entries) as Record<ChangeWindow, EquityChange>;
+}
+
+/**
+ * Aggregate per-account changes into portfolio changes
+ * Only accounts with both a start and an end value contribute to a window
+ */
+export function sumEquityChanges(
+  changes: Array<Record<ChangeWindow, EquityChange>>
+): Record<ChangeWindow, EquityChange> {
+  const result = {} as Record<ChangeWindow, EquityChange>;
+
+  for (const window of Object.keys(CHANGE_WINDOWS) as ChangeWindow[]) {
+    const complete = changes
+      .map((c) => c[window])
+      .filter((c) => c.from !== null && c.to !== null);
+
+    result[window] =
+      complete.length > 0
+        ? toChange(
+            complete.reduce((sum, c) => sum + c.from!, 0),
+            complete.reduce((sum, c) => sum + c.to!, 0)
+          )
+        : toChange(null, null);
+  }
+
+  return result;
+}
+
+export interface DrawdownPoint {
+  timestamp: number;
+  equity: number;
+  peak: number;
+  drawdown: number;
+  drawdownPercent: number;
+}
+
+/**
+ * Build the underwater curve from candle closes
+ * Drawdown is measured against the running peak (the highest close so far)
+ * and is zero or negative
+ */
+export function computeDrawdown(candles: EquityCandle[]): DrawdownPoint[] {
+  let peak = -Infinity;
+
+  return candles.map((candle) => {
+    peak = Math.max(peak, candle.close);
+    const drawdown = candle.close - peak;
+    return {
+      timestamp: candle.timestamp,
+      equity: candle.close,
+      peak,
+      drawdown,
+      drawdownPercent: peak > 0 ? (drawdown / peak) * 100 : 0,
+    };
+  });
+}
+
+/**
+ * Deepest point of an underwater curve, or null when the curve is empty
+ */
+export function getMaxDrawdown(points: DrawdownPoint[]): DrawdownPoint | null {
+  return points.reduce<DrawdownPoint | null>(
+    (worst, point) =>
+      !worst || point.drawdownPercent < worst.drawdownPercent ? point : worst,
+    null
+  );
+}
+
+export interface ExposurePoint {
+  timestamp: number;
+  unrealizedPnL: number;
+  longNotional: number;
+  shortNotional: number;
+  netNotional: number;
+  netContracts: number;
+}
+
+/**
+ * Reduce position snapshots to unrealized PnL and position size over time
+ * Shorts count negative in the net figures; with `symbol`, only that
+ * symbol's positions are included
+ */
+export function summarizeExposure(
+  exchange: ExchangeId,
+  snapshots: Array<{ timestamp: number; data: any }>,
+  symbol?: string
+): ExposurePoint[] {
+  const canonical = symbol ? toCanonicalSymbol(symbol) : null;
+
+  return snapshots.map(({ timestamp, data }) => {
+    // Snapshots store { exchange, symbol, positions }; legacy ones are raw arrays
+    const raw = Array.isArray(data) ? data : data?.positions || [];
+    const positions = normalizePositions(data?.exchange || exchange, raw).filter(
+      (pos) => !canonical || pos.symbol === canonical
+    );
+
+    const point: ExposurePoint = {
+      timestamp,
+      unrealizedPnL: 0,
+      longNotional: 0,
+      shortNotional: 0,
+      netNotional: 0,
+      netContracts: 0,
+    };
+
+    for (const pos of positions) {
+      const notional = Math.abs(pos.notionalUsd);
+      const sign = pos.side === "LONG" ? 1 : -1;
+      point.unrealizedPnL += pos.unrealizedPnL;
+      if (sign > 0) {
+        point.longNotional += notional;
+      } else {
+        point.shortNotional += notional;
+      }
+      point.netNotional += sign * notional;
+      point.netContracts += sign * pos.contracts;
+    }
+
+    return point;
+  });
+}
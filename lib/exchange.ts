@@ -0,0 +1,385 @@
+import { OKXClient, normalizeOkxPosition, normalizeOkxFill } from "./okx";
+import {
+  AsterdexClient,
+  normalizeAsterdexPosition,
+  normalizeAsterdexFill,
+  normalizeAsterdexIncome,
+} from "./asterdex";
+import type { ContractType } from "./symbols";
+
+export type ExchangeId = "okx" | "asterdex";
+
+/**
+ * Normalized open position
+ * `symbol` is canonical (see lib/symbols.ts), `venueSymbol` the exchange's own ID
+ * `contracts` is expressed in the venue's native size unit
+ * (contracts on OKX, base asset quantity on AsterDex)
+ * Risk fields are null when the venue does not report them
+ */
+export interface Position {
+  exchange: ExchangeId;
+  symbol: string;
+  venueSymbol: string;
+  side: "LONG" | "SHORT";
+  contracts: number;
+  avgPrice: number;
+  markPrice: number | null;
+  unrealizedPnL: number;
+  unrealizedPnLRatio: number;
+  leverage: number;
+  notionalUsd: number;
+  marginMode: "cross" | "isolated";
+  posSide: "net" | "long" | "short";
+  liquidationPrice: number | null;
+  // Venue-reported margin ratio (OKX mgnRatio); liquidation happens at 1
+  marginRatio: number | null;
+  // Margin allocated to the position (isolated margin, or initial margin when cross)
+  margin: number | null;
+  // Distance from mark (or entry) price to liquidation, in percent of that price
+  liquidationDistancePercent: number | null;
+}
+
+/**
+ * Normalized resting order on the exchange
+ */
+export interface Order {
+  exchange: ExchangeId;
+  symbol: string;
+  venueSymbol: string;
+  orderId: string;
+  clientOrderId: string | null;
+  side: "buy" | "sell";
+  type: string;
+  price: number | null;
+  size: number;
+  filledSize: number;
+  reduceOnly: boolean;
+  status: string;
+  createdAt: number;
+}
+
+/**
+ * Normalized account balance (USD-denominated)
+ */
+export interface Balance {
+  exchange: ExchangeId;
+  equity: number;
+  walletBalance: number;
+  availableBalance: number;
+  unrealizedPnL: number;
+  updatedAt: number;
+}
+
+/**
+ * Normalized trade execution
+ */
+export interface Fill {
+  exchange: ExchangeId;
+  symbol: string;
+  venueSymbol: string;
+  tradeId: string;
+  orderId: string;
+  side: "buy" | "sell";
+  price: number;
+  size: number;
+  fee: number;
+  feeAsset: string;
+  realizedPnL: number;
+  maker: boolean;
+  time: number;
+}
+
+/**
+ * Normalized income entry (realized PnL for now)
+ */
+export interface Income {
+  exchange: ExchangeId;
+  symbol: string;
+  venueSymbol: string;
+  incomeType: string;
+  amount: number;
+  asset: string;
+  tradeId: string | null;
+  time: number;
+}
+
+/**
+ * Normalized instrument trading rules
+ * `lotSize` and `minSize` use the same unit as Position.contracts
+ */
+export interface Instrument {
+  exchange: ExchangeId;
+  symbol: string;
+  venueSymbol: string;
+  baseAsset: string;
+  quoteAsset: string;
+  settleAsset: string;
+  contractType: ContractType;
+  tickSize: number;
+  lotSize: number;
+  minSize: number;
+  // Market order limits when they differ from the limit order ones
+  // (AsterDex MARKET_LOT_SIZE, OKX maxMktSz)
+  marketLotSize?: number;
+  marketMinSize?: number;
+  marketMaxSize?: number;
+  contractValue: number;
+}
+
+export interface OrderRequest {
+  symbol: string;
+  side: "buy" | "sell";
+  type: "market" | "limit";
+  size: number;
+  price?: number;
+  reduceOnly?: boolean;
+  // Limit orders only: rejected instead of taking liquidity
+  postOnly?: boolean;
+  // Limit orders only: immediate-or-cancel, unfilled remainder is cancelled
+  ioc?: boolean;
+  marginMode?: "cross" | "isolated";
+  posSide?: "net" | "long" | "short";
+  // Caller-chosen order ID (OKX clOrdId, AsterDex newClientOrderId)
+  clientOrderId?: string;
+}
+
+export interface OrderResult {
+  success: boolean;
+  orderId: string | null;
+  error: string | null;
+  raw: any;
+}
+
+export interface FillQuery {
+  symbol?: string;
+  startTime?: number;
+  endTime?: number;
+  // Most recent N rows of the merged result (clients page through the whole range)
+  limit?: number;
+}
+
+export interface TradeHistory {
+  fills: Fill[];
+  income: Income[];
+}
+
+// Range of trade history fetched when the caller gives no startTime
+export const DEFAULT_HISTORY_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Common contract implemented by every venue client
+ * Routes should only talk to exchanges through this interface
+ * Symbol arguments accept canonical or venue-native formats
+ */
+export interface ExchangeClient {
+  readonly exchange: ExchangeId;
+  fetchBalance(): Promise<Balance>;
+  fetchPositions(symbol?: string): Promise<Position[]>;
+  fetchOpenOrders(symbol?: string): Promise<Order[]>;
+  fetchFills(query: FillQuery): Promise<Fill[]>;
+  // Realized PnL income in the range, oldest first
+  fetchIncome(query: FillQuery): Promise<Income[]>;
+  // Fills and income over one pass of the venue history (`limit` applies to each)
+  fetchTradeHistory(query: FillQuery): Promise<TradeHistory>;
+  fetchInstrument(symbol: string): Promise<Instrument | null>;
+  fetchInstruments(): Promise<Instrument[]>;
+  submitOrder(request: OrderRequest): Promise<OrderResult>;
+  // Order placed with this client order ID, including filled and cancelled
+  // ones; null when the venue has no such order
+  fetchOrderByClientId(symbol: string, clientOrderId: string): Promise<Order | null>;
+  cancelOpenOrder(symbol: string, orderId: string): Promise<OrderResult>;
+  // Batch cancel for one symbol; one result per order id, in input order
+  cancelOpenOrders(symbol: string, orderIds: string[]): Promise<OrderResult[]>;
+}
+
+/**
+ * Trading account record as stored in the Directus `trading_accounts` collection
+ */
+export interface ExchangeAccount {
+  id: string;
+  name: string;
+  exchange?: string;
+  symbol?: string;
+  api_key?: string;
+  api_secret?: string;
+  api_passphrase?: string;
+  status: string;
+}
+
+export function resolveExchange(account: { exchange?: string }): ExchangeId {
+  return account.exchange === "asterdex" ? "asterdex" : "okx";
+}
+
+/**
+ * Build the exchange client for a trading account
+ * Throws when the credentials required by the venue are missing
+ */
+export function createExchangeClient(account: ExchangeAccount): ExchangeClient {
+  const exchange = resolveExchange(account);
+
+  if (exchange === "asterdex") {
+    if (!account.api_key || !account.api_secret) {
+      throw new Error(
+        "Missing API credentials for Asterdex (API Key and Secret required)"
+      );
+    }
+    return new AsterdexClient(account.api_key, account.api_secret, true);
+  }
+
+  const apiKey = account.api_key || process.env.OKX_API_KEY;
+  const apiSecret = account.api_secret || process.env.OKX_API_SECRET;
+  const passphrase = account.api_passphrase || process.env.OKX_PASSPHRASE;
+
+  if (!apiKey || !apiSecret || !passphrase) {
+    throw new Error(
+      "Missing API credentials for OKX (API Key, Secret, and Passphrase required)"
+    );
+  }
+  return new OKXClient(apiKey, apiSecret, passphrase);
+}
+
+/**
+ * Normalize raw position payloads (e.g. from Redis snapshots) for a venue
+ * Entries that are already normalized are passed through; flat positions are dropped
+ */
+export function normalizePositions(exchange: ExchangeId, raw: any[]): Position[] {
+  const normalize =
+    exchange === "asterdex" ? normalizeAsterdexPosition : normalizeOkxPosition;
+
+  return raw
+    .map((pos) => (isNormalized(pos) ? pos : normalize(pos)))
+    .filter((pos): pos is Position => pos !== null && pos.contracts > 0);
+}
+
+/**
+ * Normalize raw fill payloads (e.g. from Redis snapshots) for a venue
+ */
+export function normalizeFills(exchange: ExchangeId, raw: any[]): Fill[] {
+  const normalize =
+    exchange === "asterdex" ? normalizeAsterdexFill : normalizeOkxFill;
+
+  return raw.map((fill) => (isNormalized(fill) ? fill : normalize(fill)));
+}
+
+/**
+ * Normalize raw income payloads (e.g. from Redis snapshots) for a venue
+ * OKX snapshots carry no income: realized PnL is taken from the fills instead
+ */
+export function normalizeIncome(exchange: ExchangeId, raw: any[], fills: Fill[]): Income[] {
+  if (exchange === "okx") {
+    return incomeFromFills(fills);
+  }
+  return raw.map((income) => (isNormalized(income) ? income : normalizeAsterdexIncome(income)));
+}
+
+/**
+ * Realized PnL income rows for the fills that realized PnL
+ */
+export function incomeFromFills(fills: Fill[]): Income[] {
+  return fills
+    .filter((fill) => fill.realizedPnL !== 0)
+    .map((fill) => ({
+      exchange: fill.exchange,
+      symbol: fill.symbol,
+      venueSymbol: fill.venueSymbol,
+      incomeType: "REALIZED_PNL",
+      amount: fill.realizedPnL,
+      asset: fill.feeAsset,
+      tradeId: fill.tradeId,
+      time: fill.time,
+    }));
+}
+
+/**
+ * Sort rows oldest first and keep the most recent `limit` (all when no limit)
+ */
+export function takeLatest<T extends { time: number }>(rows: T[], limit?: number): T[] {
+  const sorted = [...rows].sort((a, b) => a.time - b.time);
+  return limit && limit > 0 ? sorted.slice(-limit) : sorted;
+}
+
+function isNormalized(value: any): boolean {
+  return typeof value?.venueSymbol === "string" && typeof value?.exchange === "string";
+}
+
+/**
+ * Distance between the reference price and the liquidation price, in percent
+ * Uses the mark price when known, otherwise the entry price
+ */
+export function getLiquidationDistance(
+  liquidationPrice: number | null,
+  markPrice: number | null,
+  avgPrice: number
+): number | null {
+  const reference = markPrice || avgPrice;
+  if (!liquidationPrice || !reference) {
+    return null;
+  }
+  return (Math.abs(reference - liquidationPrice) / reference) * 100;
+}
+
+/**
+ * Round a quantity down to the nearest multiple of step
+ */
+export function roundToStep(value: number, step: number): number {
+  if (!step || step <= 0) return value;
+  const decimals = getStepDecimals(step);
+  return Number((Math.floor(value / step + 1e-9) * step).toFixed(decimals));
+}
+
+/**
+ * Round a price to the nearest multiple of the tick size
+ */
+export function roundToTick(value: number, tick: number): number {
+  if (!tick || tick <= 0) return value;
+  return Number((Math.round(value / tick) * tick).toFixed(getStepDecimals(tick)));
+}
+
+/**
+ * Format a quantity or price with the number of decimals implied by step
+ */
+export function formatToStep(value: number, step: number): string {
+  return value.toFixed(getStepDecimals(step));
+}
+
+/**
+ * Number of decimals in the step itself (2.5 -> 1, 0.001 -> 3, 1.5e-7 -> 8, 10 -> 0)
+ */
+function getStepDecimals(step: number): number {
+  if (!step) return 0;
+  const [mantissa, exponent] = step.toString().split("e");
+  const mantissaDecimals = mantissa.split(".")[1]?.length || 0;
+  return Math.max(0, mantissaDecimals - (exponent ? parseInt(exponent) : 0));
+}
+
+export function toNumber(value: any, fallback: number = 0): number {
+  if (value === null || value === undefined || value === "") return fallback;
+  const num = Number(value);
+  return isNaN(num) ? fallback : num;
+}
+
+/**
+ * True when a venue request failed without a definite answer (no response or
+ * an HTTP 5xx): an order may or may not have been placed
+ * submitOrder throws these and returns every other failure as a rejection.
+ */
+export function isTransportError(error: any): boolean {
+  return !error.response || error.response.status >= 500;
+}
+
+/**
+ * Order an earlier attempt already placed with this client order ID
+ * Only looked up when `resumed` (that attempt ended without a definite answer,
+ * see withIdempotency); callers send the order only when this returns null.
+ */
+export async function findPlacedOrder(
+  client: ExchangeClient,
+  symbol: string,
+  clientOrderId: string | undefined,
+  resumed: boolean
+): Promise<Order | null> {
+  if (!resumed || !clientOrderId) {
+    return null;
+  }
+  return client.fetchOrderByClientId(symbol, clientOrderId);
+}
@@ -0,0 +1,358 @@
+import { roundToStep, type Instrument } from "./exchange";
+import type { GridLevel } from "./redis";
+
+/**
+ * Grid level editing helpers
+ *
+ * Levels are written by the bot to hypotomuai:{exchange}:mmgrid:{accountId}:{symbol}:{SIDE}
+ * with `size` in base asset, `sizeContracts` in the venue's order unit
+ * (Instrument.lotSize applies to it) and `sizeUSD` as the notional at `price`.
+ */
+
+export interface GridLevelInput {
+  price?: number;
+  size?: number;
+  sizeContracts?: number;
+  sizeUSD?: number;
+  status?: GridLevel["status"];
+}
+
+const GRID_LEVEL_STATUSES: GridLevel["status"][] = ["pending", "filled"];
+
+/**
+ * Check that a value is a whole multiple of step (within float error)
+ */
+export function isOnStep(value: number, step: number): boolean {
+  if (!step) return true;
+  const steps = value / step;
+  return Math.abs(steps - Math.round(steps)) < 1e-6;
+}
+
+function toOptionalNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  return Number(value);
+}
+
+/**
+ * Pick the editable fields from a request body
+ */
+export function parseGridLevelInput(body: any): GridLevelInput {
+  return {
+    price: toOptionalNumber(body.price),
+    size: toOptionalNumber(body.size),
+    sizeContracts: toOptionalNumber(body.sizeContracts),
+    sizeUSD: toOptionalNumber(body.sizeUSD),
+    status: body.status,
+  };
+}
+
+/**
+ * Merge edits into a level and validate it against the instrument rules
+ * The size is taken from the first field given among sizeContracts, size and
+ * sizeUSD (in that order); the other two are derived from it so the three
+ * always agree. Returns an error message instead of a level when invalid.
+ */
+export function buildGridLevel(
+  input: GridLevelInput,
+  instrument: Instrument,
+  existing: GridLevel | null
+): { level: GridLevel; error?: undefined } | { level?: undefined; error: string } {
+  const price = input.price ?? existing?.price;
+  const status = input.status ?? existing?.status ?? "pending";
+
+  if (price === undefined || !Number.isFinite(price) || price <= 0) {
+    return { error: "price must be a positive number" };
+  }
+  if (!isOnStep(price, instrument.tickSize)) {
+    return { error: `price ${price} is not a multiple of tick size ${instrument.tickSize}` };
+  }
+  if (!GRID_LEVEL_STATUSES.includes(status)) {
+    return { error: `status must be one of ${GRID_LEVEL_STATUSES.join(", ")}` };
+  }
+
+  const contractValue = instrument.contractValue || 1;
+  const isInverse = instrument.contractType === "inverse";
+
+  let contracts: number | undefined;
+  if (input.sizeContracts !== undefined) {
+    contracts = input.sizeContracts;
+  } else if (input.size !== undefined) {
+    contracts = isInverse ? input.size : input.size / contractValue;
+  } else if (input.sizeUSD !== undefined) {
+    contracts = isInverse
+      ? input.sizeUSD / contractValue
+      : input.sizeUSD / price / contractValue;
+  } else if (existing) {
+    contracts =
+      existing.sizeContracts ?? (isInverse ? existing.size : existing.size / contractValue);
+  }
+
+  if (contracts === undefined || !Number.isFinite(contracts) || contracts <= 0) {
+    return { error: "One of sizeContracts, size or sizeUSD must be a positive number" };
+  }
+  if (!isOnStep(contracts, instrument.lotSize)) {
+    return {
+      error: `Size ${contracts} is not a multiple of lot size ${instrument.lotSize}`,
+    };
+  }
+  if (contracts < instrument.minSize) {
+    return {
+      error: `Size ${contracts} is below the minimum order size ${instrument.minSize}`,
+    };
+  }
+
+  const size = isInverse ? contracts : contracts * contractValue;
+  const sizeUSD = isInverse ? contracts * contractValue : size * price;
+
+  return {
+    level: {
+      ...existing,
+      price,
+      // Strip float error introduced by the unit conversions
+      size: Number(size.toFixed(8)),
+      sizeContracts: Number(contracts.toFixed(8)),
+      sizeUSD: Number(sizeUSD.toFixed(2)),
+      status,
+    },
+  };
+}
+
+export type GridSpacing = "arithmetic" | "geometric" | "custom";
+
+export interface GridSpec {
+  lowerPrice: number;
+  upperPrice: number;
+  levels: number;
+  spacing: GridSpacing;
+  // Explicit level prices, only used with custom spacing
+  prices?: number[];
+  budgetUsd: number;
+  // -1..1: positive puts more of the budget on the buy side, negative on the sell side
+  skew: number;
+}
+
+export interface GeneratedGrid {
+  midPrice: number;
+  buy: GridLevel[];
+  sell: GridLevel[];
+  skipped: Array<{ price: number; reason: string }>;
+  totals: { buyUsd: number; sellUsd: number; levels: number };
+}
+
+const MAX_GRID_LEVELS = 200;
+
+/**
+ * Validate a grid spec, returning an error message when invalid
+ */
+export function validateGridSpec(spec: GridSpec): string | null {
+  if (!["arithmetic", "geometric", "custom"].includes(spec.spacing)) {
+    return "spacing must be arithmetic, geometric or custom";
+  }
+  if (!(spec.budgetUsd > 0)) {
+    return "budgetUsd must be a positive number";
+  }
+  if (!(spec.skew >= -1 && spec.skew <= 1)) {
+    return "skew must be between -1 and 1";
+  }
+
+  if (spec.spacing === "custom") {
+    if (!Array.isArray(spec.prices) || spec.prices.length === 0) {
+      return "prices are required for custom spacing";
+    }
+    if (spec.prices.some((price) => !(price > 0))) {
+      return "prices must be positive numbers";
+    }
+    if (spec.prices.length > MAX_GRID_LEVELS) {
+      return `At most ${MAX_GRID_LEVELS} levels are allowed`;
+    }
+    return null;
+  }
+
+  if (!(spec.lowerPrice > 0) || !(spec.upperPrice > spec.lowerPrice)) {
+    return "lowerPrice and upperPrice must be positive with lowerPrice < upperPrice";
+  }
+  if (!Number.isInteger(spec.levels) || spec.levels < 2 || spec.levels > MAX_GRID_LEVELS) {
+    return `levels must be an integer between 2 and ${MAX_GRID_LEVELS}`;
+  }
+  return null;
+}
+
+/**
+ * Level prices for a spec, lowest first (before tick rounding)
+ */
+export function getGridPrices(spec: GridSpec): number[] {
+  if (spec.spacing === "custom") {
+    return [...(spec.prices || [])].sort((a, b) => a - b);
+  }
+
+  const { lowerPrice, upperPrice, levels } = spec;
+  return Array.from({ length: levels }, (_, i) => {
+    const t = i / (levels - 1);
+    return spec.spacing === "geometric"
+      ? lowerPrice * Math.pow(upperPrice / lowerPrice, t)
+      : lowerPrice + (upperPrice - lowerPrice) * t;
+  });
+}
+
+/**
+ * Build buy and sell levels around the mid price
+ * Prices are rounded to the tick size; levels below mid are buys, above mid
+ * sells. The budget is split between sides by skew and evenly across a
+ * side's levels; sizes are rounded down to the lot size and levels that
+ * fall under the minimum size are skipped.
+ */
+export function generateGrid(
+  spec: GridSpec,
+  instrument: Instrument,
+  midPrice: number
+): GeneratedGrid {
+  const skipped: GeneratedGrid["skipped"] = [];
+  const tick = instrument.tickSize;
+
+  // Round to tick and drop duplicates created by rounding
+  const prices = Array.from(
+    new Set(
+      getGridPrices(spec).map((price) =>
+        tick ? Number((Math.round(price / tick) * tick).toFixed(12)) : price
+      )
+    )
+  );
+
+  const buyPrices = prices.filter((price) => price < midPrice).sort((a, b) => b - a);
+  const sellPrices = prices.filter((price) => price > midPrice).sort((a, b) => a - b);
+  prices
+    .filter((price) => price === midPrice)
+    .forEach((price) => skipped.push({ price, reason: "At mid price" }));
+
+  const buyBudget = (spec.budgetUsd * (1 + spec.skew)) / 2;
+  const sellBudget = spec.budgetUsd - buyBudget;
+
+  const buildSide = (sidePrices: number[], budget: number): GridLevel[] => {
+    if (sidePrices.length === 0) return [];
+    const perLevelUsd = budget / sidePrices.length;
+    const levels: GridLevel[] = [];
+
+    const contractValue = instrument.contractValue || 1;
+
+    for (const price of sidePrices) {
+      const rawContracts =
+        instrument.contractType === "inverse"
+          ? perLevelUsd / contractValue
+          : perLevelUsd / price / contractValue;
+      const contracts = roundToStep(rawContracts, instrument.lotSize);
+
+      if (contracts <= 0 || contracts < instrument.minSize) {
+        skipped.push({
+          price,
+          reason: `Size ${rawContracts.toFixed(6)} is below the minimum order size ${instrument.minSize}`,
+        });
+        continue;
+      }
+
+      const { level } = buildGridLevel({ price, sizeContracts: contracts }, instrument, null);
+      if (level) levels.push(level);
+    }
+
+    return levels;
+  };
+
+  const buy = buildSide(buyPrices, buyBudget);
+  const sell = buildSide(sellPrices, sellBudget);
+
+  return {
+    midPrice,
+    buy,
+    sell,
+    skipped,
+    totals: {
+      buyUsd: Number(buy.reduce((sum, l) => sum + (l.sizeUSD || 0), 0).toFixed(2)),
+      sellUsd: Number(sell.reduce((sum, l) => sum + (l.sizeUSD || 0), 0).toFixed(2)),
+      levels: buy.length + sell.length,
+    },
+  };
+}
+
+export type GridHashes = { buy: Record<string, string>; sell: Record<string, string> };
+
+export interface GridLevelDiff {
+  side: "buy" | "sell";
+  field: string;
+  change: "added" | "removed" | "changed";
+  before: GridLevel | null;
+  after: GridLevel | null;
+  // Level properties that differ (price, size, status, ...)
+  changedKeys: string[];
+}
+
+export interface GridDiff {
+  changes: GridLevelDiff[];
+  summary: { added: number; removed: number; changed: number; unchanged: number };
+}
+
+function parseLevel(value: string | undefined): GridLevel | null {
+  if (value === undefined) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+function fieldIndex(field: string): number {
+  return parseInt(field.split("_")[1]);
+}
+
+/**
+ * Diff two grids level by level, matching levels by hash field
+ */
+export function diffGridHashes(before: GridHashes, after: GridHashes): GridDiff {
+  const changes: GridLevelDiff[] = [];
+  let unchanged = 0;
+
+  for (const side of ["sell", "buy"] as const) {
+    const fields = Array.from(
+      new Set([...Object.keys(before[side]), ...Object.keys(after[side])])
+    ).sort((a, b) => fieldIndex(a) - fieldIndex(b));
+
+    for (const field of fields) {
+      const beforeRaw = before[side][field];
+      const afterRaw = after[side][field];
+
+      if (beforeRaw === afterRaw) {
+        unchanged++;
+        continue;
+      }
+
+      const beforeLevel = parseLevel(beforeRaw);
+      const afterLevel = parseLevel(afterRaw);
+      const keys = new Set([
+        ...Object.keys(beforeLevel || {}),
+        ...Object.keys(afterLevel || {}),
+      ]);
+
+      changes.push({
+        side,
+        field,
+        change:
+          beforeRaw === undefined ? "added" : afterRaw === undefined ? "removed" : "changed",
+        before: beforeLevel,
+        after: afterLevel,
+        changedKeys: Array.from(keys).filter(
+          (key) =>
+            JSON.stringify((beforeLevel as any)?.[key]) !==
+            JSON.stringify((afterLevel as any)?.[key])
+        ),
+      });
+    }
+  }
+
+  return {
+    changes,
+    summary: {
+      added: changes.filter((c) => c.change === "added").length,
+      removed: changes.filter((c) => c.change === "removed").length,
+      changed: changes.filter((c) => c.change === "changed").length,
+      unchanged,
+    },
+  };
+}
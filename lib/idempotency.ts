@@ -0,0 +1,200 @@
+import crypto from "crypto";
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "./auth";
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  resumeIdempotencyKey,
+  type IdempotencyRecord,
+} from "./redis";
+
+/**
+ * Idempotency keys for order-placing routes
+ * A client sends the same Idempotency-Key header on every retry of one action.
+ * The first request runs; a replay with the same body gets the stored response
+ * back instead of sending another order. The key also seeds the client order IDs
+ * sent to the exchange (OKX clOrdId, AsterDex newClientOrderId).
+ */
+
+export const IDEMPOTENCY_HEADER = "Idempotency-Key";
+// Set on responses served from the idempotency store
+export const IDEMPOTENCY_REPLAYED_HEADER = "Idempotent-Replayed";
+
+// Replays of a key are answered for 24 hours
+const IDEMPOTENCY_WINDOW_SECONDS = 24 * 60 * 60;
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9_-]{8,128}$/;
+
+export function getIdempotencyKey(request: Request): string | null {
+  return request.headers.get(IDEMPOTENCY_HEADER);
+}
+
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .sort()
+      .filter((key) => value[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * SHA-256 of the request body with keys sorted, so key order does not matter
+ */
+export function fingerprintRequest(body: unknown): string {
+  return crypto.createHash("sha256").update(stableStringify(body)).digest("hex");
+}
+
+/**
+ * Deterministic client order ID for one order of a keyed request
+ * 32 hex chars: valid as an OKX clOrdId (alphanumeric, max 32) and an
+ * AsterDex newClientOrderId (max 36). parts tell apart several orders of one request.
+ */
+export function deriveClientOrderId(key: string, ...parts: Array<string | number>): string {
+  return crypto
+    .createHash("sha256")
+    .update([key, ...parts].join(":"))
+    .digest("hex")
+    .slice(0, 32);
+}
+
+/**
+ * Passed to the wrapped handler: `resumed` is set when an earlier attempt with
+ * the same key ended without a definite answer, so orders must be looked up
+ * by client order ID before being sent (see findPlacedOrder in lib/exchange.ts)
+ */
+export interface IdempotencyContext {
+  resumed: boolean;
+}
+
+/**
+ * Record state for a handler response: answers below 500 (exchange rejections
+ * included, as 4xx) are "completed" and replayed; 5xx is "unknown"
+ */
+export function getRecordState(status: number): "completed" | "unknown" {
+  return status < 500 ? "completed" : "unknown";
+}
+
+/**
+ * Answer for a key that was already claimed: 422 when it was used for a
+ * different body, 409 while the first request (or a resumed retry) runs, else
+ * the stored response
+ */
+export function replayIdempotentRequest(existing: IdempotencyRecord, fingerprint: string): Response {
+  if (existing.fingerprint !== fingerprint) {
+    return NextResponse.json(
+      { error: `${IDEMPOTENCY_HEADER} was already used for a different request` },
+      { status: 422 }
+    );
+  }
+
+  if (existing.state !== "completed") {
+    return NextResponse.json(
+      { error: `A request with this ${IDEMPOTENCY_HEADER} is still in progress` },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json(existing.body, {
+    status: existing.status,
+    headers: { [IDEMPOTENCY_REPLAYED_HEADER]: "true" },
+  });
+}
+
+/**
+ * Wrap a route handler so requests carrying an Idempotency-Key are run at most once
+ * Keys are scoped per route and session user. A key reused with a different body
+ * is rejected (422); a replay while the first request is still running gets 409.
+ * Every answer below 500 is stored and replayed, including orders the venue
+ * rejected (handlers answer those with 4xx). Thrown errors and 5xx (server or
+ * venue transport errors) are stored as outcome-unknown: the next retry with
+ * the same key runs the handler again with `resumed`, and the handler looks
+ * its orders up by client order ID instead of sending them blindly.
+ */
+export function withIdempotency<R extends Request>(
+  scope: string,
+  handler: (request: R, context: IdempotencyContext) => Promise<Response>
+): (request: R) => Promise<Response> {
+  return async (request) => {
+    const key = getIdempotencyKey(request);
+    if (!key) {
+      return handler(request, { resumed: false });
+    }
+
+    if (!IDEMPOTENCY_KEY_PATTERN.test(key)) {
+      return NextResponse.json(
+        { error: `${IDEMPOTENCY_HEADER} must be 8-128 characters of A-Z, a-z, 0-9, _ or -` },
+        { status: 400 }
+      );
+    }
+
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      // Let the handler answer 401
+      return handler(request, { resumed: false });
+    }
+
+    const body = await request.clone().json().catch(() => null);
+    const fingerprint = fingerprintRequest(body);
+    const keyScope = `${scope}:${session.user?.name ?? "unknown"}`;
+
+    let resumed = false;
+    try {
+      const existing = await claimIdempotencyKey(
+        keyScope,
+        key,
+        fingerprint,
+        IDEMPOTENCY_WINDOW_SECONDS
+      );
+
+      if (existing) {
+        resumed =
+          existing.state === "unknown" &&
+          existing.fingerprint === fingerprint &&
+          (await resumeIdempotencyKey(keyScope, key, fingerprint));
+        if (!resumed) {
+          return replayIdempotentRequest(existing, fingerprint);
+        }
+      }
+    } catch (error: any) {
+      console.error(`[Idempotency] Failed to claim ${scope} key:`, error);
+      return NextResponse.json(
+        { error: error.message || "Failed to check idempotency key" },
+        { status: 500 }
+      );
+    }
+
+    let response: Response;
+    try {
+      response = await handler(request, { resumed });
+    } catch (error: any) {
+      await completeIdempotencyKey(keyScope, key, {
+        fingerprint,
+        state: "unknown",
+        status: 500,
+        body: { error: error.message },
+        createdAt: Date.now(),
+      }).catch(() => undefined);
+      throw error;
+    }
+
+    try {
+      await completeIdempotencyKey(keyScope, key, {
+        fingerprint,
+        state: getRecordState(response.status),
+        status: response.status,
+        body: await response.clone().json().catch(() => null),
+        createdAt: Date.now(),
+      });
+    } catch (error) {
+      console.error(`[Idempotency] Failed to store ${scope} result:`, error);
+    }
+
+    return response;
+  };
+}
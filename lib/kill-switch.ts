@@ -0,0 +1,413 @@
+import { fetchItems } from "./directus";
+import {
+  createExchangeClient,
+  resolveExchange,
+  type ExchangeAccount,
+  type ExchangeClient,
+  type ExchangeId,
+  type Instrument,
+  type Order,
+  type Position,
+} from "./exchange";
+import { planClose } from "./orders";
+import { SUPPORTED_EXCHANGES } from "./monitor";
+import {
+  batchGetGridLevelsBothSides,
+  clearGridLevels,
+  getBotControl,
+  getGridSymbols,
+  setBotControl,
+  snapshotGridVersion,
+} from "./redis";
+import { getInstrument, toCanonicalSymbol } from "./symbols";
+
+/**
+ * Emergency kill switch: flatten every account in a scope
+ *
+ * Per account (all accounts in parallel), one step after another so the grid
+ * bot cannot re-place orders mid-run:
+ *   1. pause: the bot-control paused flag is set for every symbol in scope
+ *   2. grids: grid levels are cleared (a grid version is saved first)
+ *   3. orders: open orders are batch-cancelled
+ *   4. positions: market close orders are sent until each position is zero
+ *      (more than one when the size exceeds the market order maximum)
+ * Then orders, positions and grid levels are fetched again and whatever is
+ * left is reported.
+ */
+
+// Safety stop for the close loop of one position
+const MAX_CLOSE_ORDERS_PER_POSITION = 20;
+
+export interface KillSwitchScope {
+  // Empty scope = every active account
+  exchange?: ExchangeId;
+  symbol?: string;
+  accountIds?: string[];
+}
+
+export type KillSwitchStep = "pause" | "grids" | "orders" | "positions" | "reconcile";
+
+export interface KillSwitchProgress {
+  accountId: string;
+  accountName: string;
+  exchange: ExchangeId;
+  step: KillSwitchStep;
+  status: "started" | "done" | "failed";
+  detail?: string;
+}
+
+export interface KillSwitchAccountReport {
+  accountId: string;
+  accountName: string;
+  exchange: ExchangeId;
+  symbolsPaused: string[];
+  ordersCancelled: number;
+  ordersFailed: number;
+  gridSymbolsCleared: string[];
+  positionsClosed: number;
+  positionsFailed: number;
+  errors: string[];
+  // State after the run
+  remaining: {
+    orders: number;
+    positions: Array<{ symbol: string; side: "LONG" | "SHORT"; contracts: number }>;
+    gridLevels: number;
+  } | null;
+  clean: boolean;
+}
+
+export interface KillSwitchReport {
+  scope: KillSwitchScope;
+  startedAt: number;
+  finishedAt: number;
+  accounts: KillSwitchAccountReport[];
+  clean: boolean;
+}
+
+/**
+ * Validate a kill switch scope from a request body
+ */
+export function parseKillSwitchScope(
+  raw: any
+): { scope: KillSwitchScope; error?: undefined } | { scope?: undefined; error: string } {
+  const scope: KillSwitchScope = {};
+
+  if (raw?.exchange) {
+    if (!SUPPORTED_EXCHANGES.includes(raw.exchange)) {
+      return {
+        error: `Unsupported exchange "${raw.exchange}" (expected ${SUPPORTED_EXCHANGES.join(", ")})`,
+      };
+    }
+    scope.exchange = raw.exchange;
+  }
+
+  if (raw?.symbol) {
+    scope.symbol = toCanonicalSymbol(String(raw.symbol));
+  }
+
+  if (raw?.accountIds !== undefined) {
+    if (
+      !Array.isArray(raw.accountIds) ||
+      raw.accountIds.length === 0 ||
+      !raw.accountIds.every((id: unknown) => typeof id === "string" && id)
+    ) {
+      return { error: "accountIds must be a non-empty array of account IDs" };
+    }
+    scope.accountIds = raw.accountIds;
+  }
+
+  return { scope };
+}
+
+/**
+ * Run the kill switch for a scope, reporting each account step through onProgress
+ */
+export async function runKillSwitch(
+  scope: KillSwitchScope,
+  onProgress: (progress: KillSwitchProgress) => void,
+  user?: string
+): Promise<KillSwitchReport> {
+  const startedAt = Date.now();
+
+  const directusFilter: any = { status: { _eq: "active" } };
+  if (scope.accountIds) {
+    directusFilter.id = { _in: scope.accountIds };
+  }
+
+  const allAccounts = await fetchItems<ExchangeAccount[]>("trading_accounts", {
+    filter: directusFilter,
+    limit: -1,
+    fields: ["*"],
+  });
+
+  const accounts = allAccounts.filter(
+    (account) => !scope.exchange || resolveExchange(account) === scope.exchange
+  );
+
+  const reports = await Promise.all(
+    accounts.map((account) => flattenAccount(account, scope, onProgress, user))
+  );
+
+  return {
+    scope,
+    startedAt,
+    finishedAt: Date.now(),
+    accounts: reports,
+    clean: reports.every((report) => report.clean),
+  };
+}
+
+/**
+ * Run the kill switch steps for one account
+ * The exchange client comes from makeClient (createExchangeClient by default);
+ * a client that cannot be built fails the account at the pause step.
+ */
+export async function flattenAccount(
+  account: ExchangeAccount,
+  scope: KillSwitchScope,
+  onProgress: (progress: KillSwitchProgress) => void,
+  user?: string,
+  makeClient: (account: ExchangeAccount) => ExchangeClient = createExchangeClient
+): Promise<KillSwitchAccountReport> {
+  const exchange = resolveExchange(account);
+  const report: KillSwitchAccountReport = {
+    accountId: account.id,
+    accountName: account.name || account.id,
+    exchange,
+    symbolsPaused: [],
+    ordersCancelled: 0,
+    ordersFailed: 0,
+    gridSymbolsCleared: [],
+    positionsClosed: 0,
+    positionsFailed: 0,
+    errors: [],
+    remaining: null,
+    clean: false,
+  };
+
+  const runStep = async (step: KillSwitchStep, fn: () => Promise<string>) => {
+    onProgress({ ...progressBase(report), step, status: "started" });
+    try {
+      const detail = await fn();
+      onProgress({ ...progressBase(report), step, status: "done", detail });
+    } catch (error: any) {
+      const message =
+        error.response?.data?.msg || error.response?.data?.message || error.message;
+      report.errors.push(`${step}: ${message}`);
+      onProgress({ ...progressBase(report), step, status: "failed", detail: message });
+    }
+  };
+
+  let client: ExchangeClient;
+  try {
+    client = makeClient(account);
+  } catch (error: any) {
+    report.errors.push(error.message);
+    onProgress({
+      ...progressBase(report),
+      step: "pause",
+      status: "failed",
+      detail: error.message,
+    });
+    return report;
+  }
+
+  await runStep("pause", async () => {
+    const [gridSymbols, positions, orders] = await Promise.all([
+      getGridSymbols(account.id, exchange),
+      client.fetchPositions(scope.symbol),
+      client.fetchOpenOrders(scope.symbol),
+    ]);
+    const symbols = new Set(
+      [
+        ...gridSymbols,
+        ...positions.map((position) => position.symbol),
+        ...orders.map((order) => order.symbol),
+        ...(scope.symbol ? [scope.symbol] : []),
+      ]
+        .filter((symbol) => inScope(scope, symbol))
+        .map((symbol) => toCanonicalSymbol(symbol))
+    );
+
+    for (const symbol of symbols) {
+      const previous = await getBotControl(account.id, symbol, exchange);
+      await setBotControl(
+        account.id,
+        symbol,
+        { ...previous, paused: true, updatedAt: Date.now(), updatedBy: user ?? "kill switch" },
+        exchange
+      );
+      report.symbolsPaused.push(symbol);
+    }
+    return `Paused ${symbols.size} symbols`;
+  });
+
+  await runStep("grids", async () => {
+    const symbols = (await getGridSymbols(account.id, exchange)).filter((symbol) =>
+      inScope(scope, symbol)
+    );
+    for (const symbol of symbols) {
+      await snapshotGridVersion(account.id, symbol, "kill switch", exchange, user);
+      await clearGridLevels(account.id, symbol, undefined, exchange);
+      report.gridSymbolsCleared.push(symbol);
+    }
+    return `Cleared grids for ${symbols.length} symbols`;
+  });
+
+  await runStep("orders", async () => {
+    const orders = await client.fetchOpenOrders(scope.symbol);
+    const results = await cancelOrders(client, orders);
+    report.ordersCancelled = results.filter((success) => success).length;
+    report.ordersFailed = results.length - report.ordersCancelled;
+    if (report.ordersFailed > 0) {
+      throw new Error(`Cancelled ${report.ordersCancelled} of ${orders.length} orders`);
+    }
+    return `Cancelled ${report.ordersCancelled} of ${orders.length} orders`;
+  });
+
+  await runStep("positions", async () => {
+    const positions = await client.fetchPositions(scope.symbol);
+
+    await Promise.all(
+      positions.map(async (position) => {
+        try {
+          const instrument = await getInstrument(client, position.symbol);
+          if (!instrument) {
+            throw new Error(`Unknown instrument ${position.symbol}`);
+          }
+
+          await closeUntilFlat(client, position, instrument);
+          report.positionsClosed++;
+        } catch (error: any) {
+          report.positionsFailed++;
+          report.errors.push(
+            `positions: ${position.symbol} ${
+              error.response?.data?.msg || error.response?.data?.message || error.message
+            }`
+          );
+        }
+      })
+    );
+
+    if (report.positionsFailed > 0) {
+      throw new Error(`Closed ${report.positionsClosed} of ${positions.length} positions`);
+    }
+    return `Closed ${report.positionsClosed} positions`;
+  });
+
+  await runStep("reconcile", async () => {
+    const [orders, positions, gridSymbols] = await Promise.all([
+      client.fetchOpenOrders(scope.symbol),
+      client.fetchPositions(scope.symbol),
+      getGridSymbols(account.id, exchange),
+    ]);
+    const levels = await batchGetGridLevelsBothSides(
+      account.id,
+      gridSymbols.filter((symbol) => inScope(scope, symbol)),
+      exchange
+    );
+
+    report.remaining = {
+      orders: orders.length,
+      positions: positions.map((pos) => ({
+        symbol: pos.symbol,
+        side: pos.side,
+        contracts: pos.contracts,
+      })),
+      gridLevels: Array.from(levels.values()).reduce(
+        (sum, grid) => sum + grid.buy.length + grid.sell.length,
+        0
+      ),
+    };
+    report.clean =
+      report.remaining.orders === 0 &&
+      report.remaining.positions.length === 0 &&
+      report.remaining.gridLevels === 0;
+
+    return report.clean
+      ? "Flat"
+      : `Remaining: ${report.remaining.orders} orders, ${report.remaining.positions.length} positions, ${report.remaining.gridLevels} grid levels`;
+  });
+
+  return report;
+}
+
+/**
+ * Send reduce-only market close orders until the position is zero
+ * planClose caps each order at the instrument's market order maximum, so a
+ * large position takes several orders. Throws when an order is rejected or the
+ * position is still open after MAX_CLOSE_ORDERS_PER_POSITION orders.
+ */
+export async function closeUntilFlat(
+  client: ExchangeClient,
+  position: Position,
+  instrument: Instrument
+): Promise<void> {
+  let current: Position | undefined = position;
+
+  for (let sent = 0; current && sent < MAX_CLOSE_ORDERS_PER_POSITION; sent++) {
+    const { plan, error } = planClose(
+      current,
+      instrument,
+      { percentage: 100, mode: "market", maxSlippagePercent: 0 },
+      current.markPrice ?? current.avgPrice
+    );
+    if (!plan) {
+      throw new Error(error);
+    }
+
+    const response = await client.submitOrder({
+      symbol: current.symbol,
+      side: plan.side,
+      type: "market",
+      size: plan.size,
+      reduceOnly: plan.reduceOnly,
+      marginMode: current.marginMode,
+      posSide: current.posSide,
+    });
+    if (!response.success) {
+      throw new Error(response.error || "Close order rejected");
+    }
+
+    current = (await client.fetchPositions(position.symbol)).find(
+      (pos) => pos.posSide === position.posSide
+    );
+  }
+
+  if (current) {
+    throw new Error(
+      `${current.contracts} contracts still open after ${MAX_CLOSE_ORDERS_PER_POSITION} close orders`
+    );
+  }
+}
+
+/**
+ * Batch-cancel orders grouped by symbol; one success flag per order
+ */
+async function cancelOrders(client: ExchangeClient, orders: Order[]): Promise<boolean[]> {
+  const bySymbol = new Map<string, string[]>();
+  for (const order of orders) {
+    bySymbol.set(order.symbol, [...(bySymbol.get(order.symbol) || []), order.orderId]);
+  }
+
+  const results = await Promise.all(
+    Array.from(bySymbol.entries()).map(([symbol, orderIds]) =>
+      client.cancelOpenOrders(symbol, orderIds)
+    )
+  );
+
+  return results.flat().map((result) => result.success);
+}
+
+// Grid keys may carry either symbol format
+function inScope(scope: KillSwitchScope, symbol: string): boolean {
+  return !scope.symbol || toCanonicalSymbol(symbol) === scope.symbol;
+}
+
+function progressBase(report: KillSwitchAccountReport) {
+  return {
+    accountId: report.accountId,
+    accountName: report.accountName,
+    exchange: report.exchange,
+  };
+}
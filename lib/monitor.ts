@@ -0,0 +1,671 @@
+import { fetchItems } from "./directus";
+import {
+  normalizePositions,
+  resolveExchange,
+  type ExchangeAccount,
+  type ExchangeId,
+  type Position,
+} from "./exchange";
+import { toCanonicalSymbol, toVenueSymbol } from "./symbols";
+import {
+  getEquity24hAgo,
+  batchGetGridLevelsBothSides,
+  batchGetBotControls,
+  batchGetAccountStates,
+  getTrackedStateSymbols,
+  getMidPrice,
+  getLatestPositions,
+  getLatestAccountBalance,
+  DEFAULT_BOT_CONTROL,
+  type AccountState,
+  type AccountStateStatus,
+  type BotControl,
+  type StoredGridLevel,
+} from "./redis";
+
+interface Account extends ExchangeAccount {
+  trading_symbols?: Array<{
+    trading_symbols_id: {
+      id: string;
+      name: string;
+      status: string;
+    };
+  }>;
+}
+
+export interface ExchangeStats {
+  accounts: number;
+  cards: number;
+  errors: number;
+  durationMs: number;
+}
+
+/**
+ * One dashboard card: an account/symbol pair
+ * Error cards carry `symbol: "ERROR"` and an `error` message only
+ */
+export interface MonitorCard {
+  accountId: string;
+  accountName: string;
+  symbol: string;
+  exchange: ExchangeId;
+  currentPrice?: number | null;
+  balance?: {
+    equity: number;
+    availableBalance: number;
+    balanceInUse: number;
+    unrealizedPnL: number;
+    equity24hAgo: number | null;
+    equity24hChange: number | null;
+    equity24hChangePercent: number | null;
+  } | null;
+  positions?: ReturnType<typeof toCardPosition>[];
+  buyOrders?: ReturnType<typeof toGridOrders>;
+  sellOrders?: ReturnType<typeof toGridOrders>;
+  totalPositionValue?: number;
+  risk?: CardRisk;
+  control?: BotControl;
+  botState?: BotStateSummary;
+  error?: string;
+}
+
+/**
+ * The bot's mmgrid state for a card
+ * `stale` is set when a symbol that had a state before no longer has one,
+ * i.e. the bot stopped refreshing it and the 5-minute TTL expired
+ */
+export interface BotStateSummary {
+  state: AccountState | null;
+  updatedAt: number | null;
+  stale: boolean;
+}
+
+export type RiskLevel = "low" | "medium" | "high";
+
+/**
+ * Risk summary of a card
+ * `effectiveLeverage` is account-wide (all positions' notional / equity);
+ * the liquidation distance is the closest of the card's own positions
+ */
+export interface CardRisk {
+  effectiveLeverage: number | null;
+  minLiquidationDistancePercent: number | null;
+  level: RiskLevel;
+}
+
+export interface MonitorFilters {
+  exchange: Set<string> | null;
+  symbol: Set<string> | null;
+  accountId: Set<string> | null;
+}
+
+export interface MonitorSnapshot {
+  timestamp: string;
+  accounts: MonitorCard[];
+  filters: Record<keyof MonitorFilters, string[] | null>;
+  stats: Record<ExchangeId, ExchangeStats>;
+}
+
+export const SUPPORTED_EXCHANGES: ExchangeId[] = ["okx", "asterdex"];
+
+// Positions and orders are not fetched from the exchanges directly;
+// they are read from Redis snapshots (updated by the cron jobs)
+
+/**
+ * Format price with appropriate decimal places
+ * Returns number rounded to avoid floating point precision issues
+ */
+function formatPrice(price: number | null): number | null {
+  if (price === null) return null;
+  // Use 3 decimal places for crypto prices
+  return Number(price.toFixed(3));
+}
+
+/**
+ * Pending grid levels as dashboard orders
+ * `field` is the level's hash field and `levelPrice` its unrounded price;
+ * grid mutations address levels by field and use levelPrice as the
+ * optimistic-concurrency check.
+ */
+function toGridOrders(
+  levels: StoredGridLevel[],
+  side: "buy" | "sell",
+  symbol: string
+) {
+  return levels
+    .filter((level) => level.status === "pending")
+    .map((level) => {
+      const sizeContracts = level.sizeContracts || 0;
+      const sizeUSD = level.sizeUSD || 0;
+      const price = level.price || 0;
+      return {
+        price: formatPrice(price),
+        size: sizeContracts,
+        value: sizeUSD,
+        orderId: `grid_${side}_${level.field}`,
+        field: level.field,
+        levelPrice: price,
+        instId: symbol,
+      };
+    })
+    .sort((a, b) =>
+      side === "buy"
+        ? (b.price || 0) - (a.price || 0) // Highest price first
+        : (a.price || 0) - (b.price || 0) // Lowest price first
+    );
+}
+
+function toBotState(
+  status: AccountStateStatus,
+  tracked: boolean
+): BotStateSummary {
+  return { ...status, stale: !status.state && tracked };
+}
+
+function toCardPosition(pos: Position) {
+  return {
+    side: pos.side,
+    contracts: pos.contracts,
+    avgPrice: pos.avgPrice,
+    markPrice: pos.markPrice,
+    unrealizedPnL: pos.unrealizedPnL,
+    unrealizedPnLRatio: pos.unrealizedPnLRatio,
+    leverage: pos.leverage,
+    notionalUsd: pos.notionalUsd,
+    marginMode: pos.marginMode,
+    // Snapshots taken before risk fields were normalized lack them
+    liquidationPrice: pos.liquidationPrice ?? null,
+    marginRatio: pos.marginRatio ?? null,
+    margin: pos.margin ?? null,
+    liquidationDistancePercent: pos.liquidationDistancePercent ?? null,
+    instId: pos.venueSymbol,
+  };
+}
+
+// Liquidation distance (%) and effective leverage thresholds per risk level
+const RISK_THRESHOLDS = {
+  high: { liquidationDistance: 10, effectiveLeverage: 10 },
+  medium: { liquidationDistance: 25, effectiveLeverage: 5 },
+};
+
+function assessRisk(
+  positions: Array<{ liquidationDistancePercent: number | null }>,
+  effectiveLeverage: number | null
+): CardRisk {
+  const distances = positions
+    .map((pos) => pos.liquidationDistancePercent)
+    .filter((distance): distance is number => distance !== null);
+  const minLiquidationDistancePercent =
+    distances.length > 0 ? Math.min(...distances) : null;
+
+  const exceeds = (threshold: { liquidationDistance: number; effectiveLeverage: number }) =>
+    (minLiquidationDistancePercent !== null &&
+      minLiquidationDistancePercent < threshold.liquidationDistance) ||
+    (effectiveLeverage !== null && effectiveLeverage >= threshold.effectiveLeverage);
+
+  return {
+    effectiveLeverage,
+    minLiquidationDistancePercent,
+    level: exceeds(RISK_THRESHOLDS.high)
+      ? "high"
+      : exceeds(RISK_THRESHOLDS.medium)
+        ? "medium"
+        : "low",
+  };
+}
+
+function priceKey(exchange: ExchangeId, symbol: string): string {
+  return `${exchange}:${symbol}`;
+}
+
+/**
+ * Split a comma-separated query parameter into a set, or null when absent
+ */
+function parseListParam(
+  value: string | null,
+  transform: (item: string) => string = (item) => item
+): Set<string> | null {
+  const items = value?.split(",").map((item) => item.trim()).filter(Boolean) || [];
+  return items.length > 0 ? new Set(items.map(transform)) : null;
+}
+
+/**
+ * Build one card per symbol for an account
+ * Positions and balance come from Redis snapshots (updated by backend-cron),
+ * normalized through the exchange adapter of the account's venue
+ */
+async function processAccount(
+  account: Account,
+  accountSymbols: Set<string>,
+  priceMap: Map<string, number | null>,
+  symbolFilter: Set<string> | null
+): Promise<MonitorCard[]> {
+  const exchange = resolveExchange(account);
+
+  // Get positions from Redis (updated by backend-cron every 2 minutes)
+  const positionsSnapshot = await getLatestPositions(account.id);
+  const positions = normalizePositions(
+    exchange,
+    positionsSnapshot?.data?.positions || []
+  );
+
+  // Get balance from Redis (updated by backend-cron every 10 minutes)
+  const balanceSnapshot = await getLatestAccountBalance(account.id);
+  const balanceData = balanceSnapshot?.data;
+
+  const totalEquity = balanceData ? Number(balanceData.totalMarginBalance || 0) : 0;
+  const availableBalance = balanceData ? Number(balanceData.availableBalance || 0) : 0;
+  const unrealizedPnL = balanceData ? Number(balanceData.totalUnrealizedProfit || 0) : 0;
+  const balanceInUse = totalEquity - availableBalance;
+
+  // Account-wide exposure relative to equity, across every symbol
+  const effectiveLeverage =
+    totalEquity > 0
+      ? positions.reduce((sum, pos) => sum + Math.abs(pos.notionalUsd), 0) / totalEquity
+      : null;
+
+  // Get 24h equity comparison
+  let equity24hAgo: number | null = null;
+  let equity24hChange: number | null = null;
+  let equity24hChangePercent: number | null = null;
+
+  if (totalEquity > 0) {
+    try {
+      equity24hAgo = await getEquity24hAgo(account.id);
+
+      if (equity24hAgo !== null) {
+        equity24hChange = totalEquity - equity24hAgo;
+        equity24hChangePercent = (equity24hChange / equity24hAgo) * 100;
+      }
+    } catch (error) {
+      console.error("Redis error:", error);
+    }
+  }
+
+  // Group positions by canonical symbol
+  const positionsBySymbol = new Map<string, Position[]>();
+  for (const pos of positions) {
+    if (!positionsBySymbol.has(pos.symbol)) {
+      positionsBySymbol.set(pos.symbol, []);
+    }
+    positionsBySymbol.get(pos.symbol)!.push(pos);
+  }
+
+  // Get all symbols to check (positions + account-specific symbols)
+  const symbolsToCheck = new Set<string>(
+    [...Array.from(positionsBySymbol.keys()), ...accountSymbols].filter(
+      (symbol) => !symbolFilter || symbolFilter.has(symbol)
+    )
+  );
+
+  // If no symbols to check, return empty array
+  if (symbolsToCheck.size === 0) {
+    return [];
+  }
+
+  // Batch fetch all grid levels for all symbols in a single Redis pipeline
+  const symbolsArray = Array.from(symbolsToCheck);
+  const [gridLevelsMap, controlsMap, statesMap, trackedStateSymbols] = await Promise.all([
+    batchGetGridLevelsBothSides(account.id, symbolsArray, exchange),
+    batchGetBotControls(account.id, symbolsArray, exchange),
+    batchGetAccountStates(account.id, symbolsArray, exchange),
+    getTrackedStateSymbols(account.id, exchange),
+  ]);
+  const trackedStates = new Set(trackedStateSymbols);
+
+  const symbolResults = symbolsArray.map((symbol) => {
+    const symbolPositions = positionsBySymbol.get(symbol) || [];
+
+    // Get pre-fetched price from the price map
+    const currentPrice = priceMap.get(priceKey(exchange, symbol)) || null;
+
+    // Get pre-fetched grid levels from batch result
+    const gridLevels = gridLevelsMap.get(symbol) || { buy: [], sell: [] };
+    const buyOrders = toGridOrders(gridLevels.buy, "buy", symbol);
+    const sellOrders = toGridOrders(gridLevels.sell, "sell", symbol);
+
+    // Only skip if symbol has no positions, no grid levels, AND no current price
+    // This ensures we still show mid price for published symbols even without positions
+    if (
+      symbolPositions.length === 0 &&
+      buyOrders.length === 0 &&
+      sellOrders.length === 0 &&
+      currentPrice === null
+    ) {
+      return null;
+    }
+
+    const cardPositions = symbolPositions.map(toCardPosition);
+
+    // Calculate total position value for sorting
+    const totalPositionValue = cardPositions.reduce(
+      (sum, pos) => sum + pos.notionalUsd,
+      0
+    );
+
+    return {
+      accountId: account.id,
+      accountName: account.name || account.id,
+      symbol: symbol,
+      exchange,
+      currentPrice: formatPrice(currentPrice),
+      balance: balanceData
+        ? {
+            equity: totalEquity,
+            availableBalance: availableBalance,
+            balanceInUse: balanceInUse,
+            unrealizedPnL: unrealizedPnL,
+            equity24hAgo: equity24hAgo,
+            equity24hChange: equity24hChange,
+            equity24hChangePercent: equity24hChangePercent,
+          }
+        : null,
+      positions: cardPositions,
+      buyOrders: buyOrders,
+      sellOrders: sellOrders,
+      totalPositionValue: totalPositionValue,
+      risk: assessRisk(cardPositions, effectiveLeverage),
+      control: controlsMap.get(symbol) || DEFAULT_BOT_CONTROL,
+      botState: toBotState(
+        statesMap.get(symbol) || { state: null, updatedAt: null },
+        trackedStates.has(symbol)
+      ),
+    };
+  });
+
+  // Filter out null results
+  return symbolResults.filter((result): result is NonNullable<typeof result> => result !== null);
+}
+
+
+/**
+ * Read the exchange, symbol and accountId filters from query parameters
+ * Throws on an unsupported exchange
+ */
+export function parseMonitorFilters(searchParams: URLSearchParams): MonitorFilters {
+  const filters: MonitorFilters = {
+    exchange: parseListParam(searchParams.get("exchange"), (item) => item.toLowerCase()),
+    symbol: parseListParam(searchParams.get("symbol"), toCanonicalSymbol),
+    accountId: parseListParam(searchParams.get("accountId")),
+  };
+
+  const invalidExchange = filters.exchange
+    ? Array.from(filters.exchange).find(
+        (exchange) => !SUPPORTED_EXCHANGES.includes(exchange as ExchangeId)
+      )
+    : undefined;
+  if (invalidExchange) {
+    throw new Error(
+      `Unsupported exchange "${invalidExchange}" (expected ${SUPPORTED_EXCHANGES.join(", ")})`
+    );
+  }
+
+  return filters;
+}
+
+/**
+ * Build every dashboard card for the active accounts matching the filters
+ */
+export async function buildMonitorSnapshot(
+  filters: MonitorFilters
+): Promise<MonitorSnapshot> {
+  const directusFilter: any = { status: { _eq: "active" } };
+  if (filters.accountId) {
+    directusFilter.id = { _in: Array.from(filters.accountId) };
+  }
+
+  // Fetch trading accounts with their associated trading symbols
+  const allAccounts = await fetchItems<Account[]>("trading_accounts", {
+    filter: directusFilter,
+    limit: -1,
+    fields: ["*", "trading_symbols.trading_symbols_id.*"],
+  });
+
+  // Accounts without an exchange field are OKX, so the exchange filter
+  // is applied after resolving each account's venue
+  const accounts = allAccounts.filter(
+    (account) => !filters.exchange || filters.exchange.has(resolveExchange(account))
+  );
+
+  // Collect all unique venue/symbol pairs across all accounts
+  const allPriceKeys = new Map<string, { exchange: ExchangeId; symbol: string }>();
+  const accountSymbolsMap = new Map<string, Set<string>>();
+
+  accounts.forEach((account) => {
+    const exchange = resolveExchange(account);
+    const accountSymbols = new Set<string>(
+      account.trading_symbols
+        ?.filter((ts) => ts.trading_symbols_id?.status === "published")
+        .map((ts) => toCanonicalSymbol(ts.trading_symbols_id.name)) || []
+    );
+    if (account.symbol) {
+      accountSymbols.add(toCanonicalSymbol(account.symbol));
+    }
+    accountSymbolsMap.set(account.id, accountSymbols);
+    accountSymbols.forEach((symbol) => {
+      if (!filters.symbol || filters.symbol.has(symbol)) {
+        allPriceKeys.set(priceKey(exchange, symbol), { exchange, symbol });
+      }
+    });
+  });
+
+  // Fetch prices for all venue/symbol pairs once (in parallel)
+  // Prices are published to Redis by the bots, so no exchange API calls are needed
+  const priceMap = new Map<string, number | null>();
+
+  await Promise.all(
+    Array.from(allPriceKeys.entries()).map(async ([key, { exchange, symbol }]) => {
+      try {
+        const price = await getMidPrice(exchange, toVenueSymbol(symbol, exchange));
+        if (price === null) {
+          console.warn(`[Monitor] No price found in Redis for ${exchange} ${symbol}`);
+        }
+        priceMap.set(key, price);
+      } catch (error) {
+        console.error(`[Monitor] Error fetching price for ${exchange} ${symbol}:`, error);
+        priceMap.set(key, null);
+      }
+    })
+  );
+
+  const stats = Object.fromEntries(
+    SUPPORTED_EXCHANGES.map((exchange) => [
+      exchange,
+      { accounts: 0, cards: 0, errors: 0, durationMs: 0 },
+    ])
+  ) as Record<ExchangeId, ExchangeStats>;
+
+  // Process all accounts in parallel for much better performance
+  const accountPromises = accounts.map(async (account): Promise<MonitorCard[]> => {
+    const exchange = resolveExchange(account);
+    const startedAt = Date.now();
+    stats[exchange].accounts++;
+
+    try {
+      // Get pre-computed account symbols
+      const accountSymbols = accountSymbolsMap.get(account.id) || new Set<string>();
+
+      const cards = await processAccount(account, accountSymbols, priceMap, filters.symbol);
+      stats[exchange].cards += cards.length;
+      return cards;
+    } catch (error: any) {
+      stats[exchange].errors++;
+      return [
+        {
+          accountId: account.id,
+          accountName: account.name || account.id,
+          symbol: "ERROR",
+          exchange,
+          error:
+            error.response?.data?.msg ||
+            error.response?.data?.message ||
+            error.message,
+        },
+      ];
+    } finally {
+      // Accounts run in parallel, so this is the slowest account per exchange
+      stats[exchange].durationMs = Math.max(
+        stats[exchange].durationMs,
+        Date.now() - startedAt
+      );
+    }
+  });
+
+  // Wait for all accounts to be processed in parallel
+  const accountResults = await Promise.all(accountPromises);
+
+  // Flatten the results (each account returns an array)
+  const allData = accountResults.flat();
+
+  // Sort by total position value (biggest first)
+  const sortedData = allData.sort(
+    (a, b) => (b.totalPositionValue || 0) - (a.totalPositionValue || 0)
+  );
+
+  return {
+    timestamp: new Date().toISOString(),
+    accounts: sortedData,
+    filters: {
+      exchange: filters.exchange ? Array.from(filters.exchange) : null,
+      symbol: filters.symbol ? Array.from(filters.symbol) : null,
+      accountId: filters.accountId ? Array.from(filters.accountId) : null,
+    },
+    stats,
+  };
+}
+
+// Stream subscribers with the same filters share one snapshot build
+const SHARED_SNAPSHOT_TTL_MS = 4000;
+
+interface SharedSnapshot {
+  snapshot: Promise<MonitorSnapshot>;
+  // null while the build is in flight
+  builtAt: number | null;
+}
+
+const sharedSnapshots = new Map<string, SharedSnapshot>();
+
+function filtersKey(filters: MonitorFilters): string {
+  return (Object.keys(filters) as Array<keyof MonitorFilters>)
+    .map((name) => {
+      const values = filters[name];
+      return `${name}=${values ? Array.from(values).sort().join(",") : "*"}`;
+    })
+    .join("&");
+}
+
+/**
+ * Monitor snapshot shared by every caller with the same filters
+ * Rebuilt at most once per TTL: callers during a build await the same promise,
+ * later ones reuse the result until it is older than the TTL. Failed builds are
+ * not kept, so the next caller retries.
+ */
+export function getSharedMonitorSnapshot(filters: MonitorFilters): Promise<MonitorSnapshot> {
+  const key = filtersKey(filters);
+  const now = Date.now();
+  const isFresh = (entry: SharedSnapshot) =>
+    entry.builtAt === null || now - entry.builtAt < SHARED_SNAPSHOT_TTL_MS;
+
+  const cached = sharedSnapshots.get(key);
+  if (cached && isFresh(cached)) {
+    return cached.snapshot;
+  }
+
+  // Drop stale entries for filters nobody is streaming anymore
+  for (const [staleKey, entry] of sharedSnapshots) {
+    if (!isFresh(entry)) sharedSnapshots.delete(staleKey);
+  }
+
+  const entry: SharedSnapshot = { snapshot: buildMonitorSnapshot(filters), builtAt: null };
+  sharedSnapshots.set(key, entry);
+  entry.snapshot.then(
+    () => {
+      entry.builtAt = Date.now();
+    },
+    () => {
+      if (sharedSnapshots.get(key) === entry) sharedSnapshots.delete(key);
+    }
+  );
+
+  return entry.snapshot;
+}
+
+/**
+ * Identity of a card across snapshots
+ */
+export function monitorCardKey(card: Pick<MonitorCard, "accountId" | "symbol">): string {
+  return `${card.accountId}:${card.symbol}`;
+}
+
+// Card fields compared when diffing; identity fields never change for a key
+const DIFF_FIELDS = [
+  "accountName",
+  "exchange",
+  "currentPrice",
+  "balance",
+  "positions",
+  "buyOrders",
+  "sellOrders",
+  "totalPositionValue",
+  "risk",
+  "control",
+  "botState",
+  "error",
+] as const;
+
+export interface MonitorCardPatch {
+  key: string;
+  accountId: string;
+  symbol: string;
+  changes: Partial<MonitorCard>;
+}
+
+export interface MonitorDiff {
+  timestamp: string;
+  added: MonitorCard[];
+  updated: MonitorCardPatch[];
+  removed: string[];
+}
+
+/**
+ * Compute the per-card changes between two snapshots
+ * Updated cards only carry the fields that changed (price, positions,
+ * grid levels, balance, ...); new cards are sent whole
+ */
+export function diffMonitorSnapshots(
+  previous: MonitorSnapshot,
+  next: MonitorSnapshot
+): MonitorDiff {
+  const previousCards = new Map(
+    previous.accounts.map((card) => [monitorCardKey(card), card])
+  );
+  const nextKeys = new Set<string>();
+  const added: MonitorCard[] = [];
+  const updated: MonitorCardPatch[] = [];
+
+  for (const card of next.accounts) {
+    const key = monitorCardKey(card);
+    nextKeys.add(key);
+    const before = previousCards.get(key);
+
+    if (!before) {
+      added.push(card);
+      continue;
+    }
+
+    const changes: Partial<MonitorCard> = {};
+    for (const field of DIFF_FIELDS) {
+      if (JSON.stringify(before[field]) !== JSON.stringify(card[field])) {
+        (changes as any)[field] = card[field] ?? null;
+      }
+    }
+
+    if (Object.keys(changes).length > 0) {
+      updated.push({ key, accountId: card.accountId, symbol: card.symbol, changes });
+    }
+  }
+
+  const removed = Array.from(previousCards.keys()).filter((key) => !nextKeys.has(key));
+
+  return { timestamp: next.timestamp, added, updated, removed };
+}
@@ -1,7 +1,32 @@
 import crypto from "crypto";
 import axios, { AxiosInstance } from "axios";
+import type {
+  ExchangeClient,
+  Position,
+  Order,
+  Balance,
+  Fill,
+  FillQuery,
+  Income,
+  Instrument,
+  OrderRequest,
+  OrderResult,
+  TradeHistory,
+} from "./exchange";
+import {
+  getLiquidationDistance,
+  incomeFromFills,
+  isTransportError,
+  takeLatest,
+  toNumber,
+} from "./exchange";
+import { toCanonicalSymbol, toVenueSymbol } from "./symbols";
 
 const BASE_URL = "https://www.okx.com";
+// Max orders per /api/v5/trade/cancel-batch-orders request
+const OKX_BATCH_CANCEL_LIMIT = 20;
+// Max rows per /api/v5/trade/fills-history request
+const OKX_FILLS_PAGE_LIMIT = 100;
 
 interface OrderData {
   instId: string;
@@ -12,18 +37,14 @@ interface OrderData {
   sz: string;
   px?: string;
   reduceOnly?: boolean;
+  clOrdId?: string;
 }
 
-// In-memory cache for instrument info to prevent 429 rate limit errors
-interface InstrumentCache {
-  data: any;
-  timestamp: number;
-}
-
-const instrumentCache = new Map<string, InstrumentCache>();
-const INSTRUMENT_CACHE_TTL = 3600000; // 1 hour in milliseconds
+// "Order does not exist" (GET /api/v5/trade/order)
+const OKX_ORDER_NOT_FOUND = "51603";
 
-export class OKXClient {
+export class OKXClient implements ExchangeClient {
+  readonly exchange = "okx" as const;
   private apiKey: string;
   private secretKey: string;
   private passphrase: string;
@@ -79,16 +100,9 @@ export class OKXClient {
     return response.data;
   }
 
+  // Uncached: callers go through getInstrument (lib/symbols.ts), which keeps
+  // instruments for an hour to stay clear of the 429 rate limit
   async getInstrumentInfo(instId: string) {
-    // Check cache first
-    const cached = instrumentCache.get(instId);
-    const now = Date.now();
-
-    if (cached && now - cached.timestamp < INSTRUMENT_CACHE_TTL) {
-      return cached.data;
-    }
-
-    // Cache miss or expired - fetch from API
     const path = "/api/v5/public/instruments";
     const response = await this.axios.get(path, {
       params: {
@@ -96,13 +110,14 @@ export class OKXClient {
         instId,
       },
     });
+    return response.data;
+  }
 
-    // Store in cache
-    instrumentCache.set(instId, {
-      data: response.data,
-      timestamp: now,
+  async getInstruments(instType: string = "SWAP") {
+    const path = "/api/v5/public/instruments";
+    const response = await this.axios.get(path, {
+      params: { instType },
     });
-
     return response.data;
   }
 
@@ -125,6 +140,14 @@ export class OKXClient {
     return response.data;
   }
 
+  async cancelBatchOrders(orders: { instId: string; ordId: string }[]) {
+    const path = "/api/v5/trade/cancel-batch-orders";
+    const body = JSON.stringify(orders);
+    const headers = await this.getHeaders("POST", path, body);
+    const response = await this.axios.post(path, body, { headers });
+    return response.data;
+  }
+
   async getPendingOrders(instType: string = "SWAP", instId: string | null = null) {
     const path = "/api/v5/trade/orders-pending";
     let queryParams = `?instType=${instType}`;
@@ -138,6 +161,13 @@ export class OKXClient {
     return response.data;
   }
 
+  async getOrder(instId: string, clOrdId: string) {
+    const pathWithParams = `/api/v5/trade/order?instId=${instId}&clOrdId=${clOrdId}`;
+    const headers = await this.getHeaders("GET", pathWithParams);
+    const response = await this.axios.get(pathWithParams, { headers });
+    return response.data;
+  }
+
   async getTicker(instId: string) {
     const path = "/api/v5/market/ticker";
     const response = await this.axios.get(path, {
@@ -145,4 +175,351 @@ export class OKXClient {
     });
     return response.data;
   }
+
+  async getFillsHistory(
+    instType: string = "SWAP",
+    instId?: string,
+    begin?: number,
+    end?: number,
+    limit: number = 100,
+    after?: string
+  ) {
+    const path = "/api/v5/trade/fills-history";
+    let queryParams = `?instType=${instType}&limit=${limit}`;
+    if (instId) {
+      queryParams += `&instId=${instId}`;
+    }
+    if (after) {
+      queryParams += `&after=${after}`;
+    }
+    if (begin) {
+      queryParams += `&begin=${begin}`;
+    }
+    if (end) {
+      queryParams += `&end=${end}`;
+    }
+    const pathWithParams = path + queryParams;
+
+    const headers = await this.getHeaders("GET", pathWithParams);
+    const response = await this.axios.get(pathWithParams, { headers });
+    return response.data;
+  }
+
+  // ExchangeClient implementation
+
+  async fetchBalance(): Promise<Balance> {
+    const response = await this.getAccountBalance();
+    if (response.code !== "0" || !response.data?.length) {
+      throw new Error(response.msg || "Failed to fetch OKX balance");
+    }
+
+    const data = response.data[0];
+    const details: any[] = data.details || [];
+    const usdt = details.find((d) => d.ccy === "USDT");
+    const equity = toNumber(data.totalEq);
+    const unrealizedPnL = details.reduce((sum, d) => sum + toNumber(d.uplUsd ?? d.upl), 0);
+
+    return {
+      exchange: "okx",
+      equity,
+      walletBalance: equity - unrealizedPnL,
+      availableBalance: toNumber(data.availEq, toNumber(usdt?.availBal)),
+      unrealizedPnL,
+      updatedAt: toNumber(data.uTime, Date.now()),
+    };
+  }
+
+  async fetchPositions(symbol?: string): Promise<Position[]> {
+    const response = await this.getPositions("SWAP");
+    if (response.code !== "0") {
+      throw new Error(response.msg || "Failed to fetch OKX positions");
+    }
+
+    const instId = symbol ? toVenueSymbol(symbol, "okx") : null;
+    return (response.data || [])
+      .filter((pos: any) => !instId || pos.instId === instId)
+      .map(normalizeOkxPosition)
+      .filter((pos: Position | null): pos is Position => pos !== null);
+  }
+
+  async fetchOpenOrders(symbol?: string): Promise<Order[]> {
+    const response = await this.getPendingOrders(
+      "SWAP",
+      symbol ? toVenueSymbol(symbol, "okx") : null
+    );
+    if (response.code !== "0") {
+      throw new Error(response.msg || "Failed to fetch OKX orders");
+    }
+
+    return (response.data || []).map(normalizeOkxOrder);
+  }
+
+  async fetchOrderByClientId(symbol: string, clientOrderId: string): Promise<Order | null> {
+    const response = await this.getOrder(toVenueSymbol(symbol, "okx"), clientOrderId).catch(
+      (error) => {
+        if (error.response?.data) return error.response.data;
+        throw error;
+      }
+    );
+
+    if (response.code === OKX_ORDER_NOT_FOUND) {
+      return null;
+    }
+    if (response.code !== "0") {
+      throw new Error(response.msg || "Failed to fetch OKX order");
+    }
+    return response.data?.[0] ? normalizeOkxOrder(response.data[0]) : null;
+  }
+
+  /**
+   * Fetch fills newest first, following the `after` (billId) cursor until a
+   * short page, or until `limit` fills are collected
+   */
+  async fetchFills(query: FillQuery): Promise<Fill[]> {
+    const instId = query.symbol ? toVenueSymbol(query.symbol, "okx") : undefined;
+    const fills: Fill[] = [];
+    let after: string | undefined;
+
+    while (true) {
+      const response = await this.getFillsHistory(
+        "SWAP",
+        instId,
+        query.startTime,
+        query.endTime,
+        OKX_FILLS_PAGE_LIMIT,
+        after
+      );
+      if (response.code !== "0") {
+        throw new Error(response.msg || "Failed to fetch OKX fills");
+      }
+
+      const page: any[] = response.data || [];
+      fills.push(...page.map(normalizeOkxFill));
+
+      after = page[page.length - 1]?.billId;
+      if (page.length < OKX_FILLS_PAGE_LIMIT || !after) break;
+      if (query.limit && fills.length >= query.limit) break;
+    }
+
+    return takeLatest(fills, query.limit);
+  }
+
+  /**
+   * OKX reports realized PnL per fill (fillPnl), so income is derived from fills
+   */
+  async fetchIncome(query: FillQuery): Promise<Income[]> {
+    const { income } = await this.fetchTradeHistory(query);
+    return income;
+  }
+
+  /**
+   * Page the fills once and derive the income from them
+   */
+  async fetchTradeHistory(query: FillQuery): Promise<TradeHistory> {
+    const fills = await this.fetchFills({ ...query, limit: undefined });
+    return {
+      fills: takeLatest(fills, query.limit),
+      income: takeLatest(incomeFromFills(fills), query.limit),
+    };
+  }
+
+  async fetchInstrument(symbol: string): Promise<Instrument | null> {
+    const response = await this.getInstrumentInfo(toVenueSymbol(symbol, "okx"));
+    if (response.code !== "0" || !response.data?.length) {
+      return null;
+    }
+    return normalizeOkxInstrument(response.data[0]);
+  }
+
+  async fetchInstruments(): Promise<Instrument[]> {
+    const response = await this.getInstruments("SWAP");
+    if (response.code !== "0") {
+      throw new Error(response.msg || "Failed to fetch OKX instruments");
+    }
+    return (response.data || []).map(normalizeOkxInstrument);
+  }
+
+  async submitOrder(request: OrderRequest): Promise<OrderResult> {
+    const orderData: OrderData = {
+      instId: toVenueSymbol(request.symbol, "okx"),
+      tdMode: request.marginMode || "cross",
+      side: request.side,
+      ordType:
+        request.type === "limit" && request.postOnly
+          ? "post_only"
+          : request.type === "limit" && request.ioc
+            ? "ioc"
+            : request.type,
+      sz: request.size.toString(),
+    };
+
+    if (request.type === "limit" && request.price !== undefined) {
+      orderData.px = request.price.toString();
+    }
+    if (request.reduceOnly) {
+      orderData.reduceOnly = true;
+    }
+    if (request.posSide && request.posSide !== "net") {
+      orderData.posSide = request.posSide;
+    }
+    if (request.clientOrderId) {
+      orderData.clOrdId = request.clientOrderId;
+    }
+
+    try {
+      return toOrderResult(await this.placeOrder(orderData));
+    } catch (error: any) {
+      if (isTransportError(error)) {
+        throw error;
+      }
+      return toOrderResult(error.response.data ?? {});
+    }
+  }
+
+  async cancelOpenOrder(symbol: string, orderId: string): Promise<OrderResult> {
+    const response = await this.cancelOrder(toVenueSymbol(symbol, "okx"), orderId);
+    return toOrderResult(response);
+  }
+
+  async cancelOpenOrders(symbol: string, orderIds: string[]): Promise<OrderResult[]> {
+    const instId = toVenueSymbol(symbol, "okx");
+    const results: OrderResult[] = [];
+
+    for (let i = 0; i < orderIds.length; i += OKX_BATCH_CANCEL_LIMIT) {
+      const batch = orderIds.slice(i, i + OKX_BATCH_CANCEL_LIMIT);
+
+      try {
+        const response = await this.cancelBatchOrders(
+          batch.map((ordId) => ({ instId, ordId }))
+        );
+        for (const ordId of batch) {
+          const item = response.data?.find((d: any) => d.ordId === ordId);
+          const success = item?.sCode === "0";
+          results.push({
+            success,
+            orderId: ordId,
+            error: success ? null : item?.sMsg || response.msg || "Cancel failed",
+            raw: item ?? response,
+          });
+        }
+      } catch (error: any) {
+        const message = error.response?.data?.msg || error.message;
+        results.push(
+          ...batch.map((ordId) => ({ success: false, orderId: ordId, error: message, raw: null }))
+        );
+      }
+    }
+
+    return results;
+  }
+}
+
+function normalizeOkxOrder(order: any): Order {
+  return {
+    exchange: "okx",
+    symbol: toCanonicalSymbol(order.instId),
+    venueSymbol: order.instId,
+    orderId: order.ordId,
+    clientOrderId: order.clOrdId || null,
+    side: order.side,
+    type: order.ordType,
+    price: order.px ? toNumber(order.px) : null,
+    size: toNumber(order.sz),
+    filledSize: toNumber(order.accFillSz),
+    reduceOnly: order.reduceOnly === "true",
+    status: order.state,
+    createdAt: toNumber(order.cTime),
+  };
+}
+
+function toOrderResult(response: any): OrderResult {
+  const success = response.code === "0" && response.data?.[0]?.sCode !== "1";
+  return {
+    success,
+    orderId: success ? response.data[0].ordId : null,
+    error: success ? null : response.data?.[0]?.sMsg || response.msg,
+    raw: response,
+  };
+}
+
+/**
+ * Normalize a raw OKX position (REST payload or backend-cron snapshot)
+ */
+export function normalizeOkxPosition(raw: any): Position | null {
+  const pos = toNumber(raw.pos);
+  if (!raw.instId || pos === 0) {
+    return null;
+  }
+
+  const posSide = raw.posSide === "long" || raw.posSide === "short" ? raw.posSide : "net";
+  const side =
+    posSide === "long" ? "LONG" : posSide === "short" ? "SHORT" : pos > 0 ? "LONG" : "SHORT";
+  const marginMode = raw.mgnMode === "isolated" ? "isolated" : "cross";
+  const avgPrice = toNumber(raw.avgPx);
+  const markPrice = raw.markPx ? toNumber(raw.markPx) : null;
+  const liquidationPrice = toNumber(raw.liqPx) || null;
+
+  return {
+    exchange: "okx",
+    symbol: toCanonicalSymbol(raw.instId),
+    venueSymbol: raw.instId,
+    side,
+    contracts: Math.abs(pos),
+    avgPrice,
+    markPrice,
+    unrealizedPnL: toNumber(raw.upl),
+    unrealizedPnLRatio: toNumber(raw.uplRatio) * 100,
+    leverage: toNumber(raw.lever, 1),
+    notionalUsd: Math.abs(toNumber(raw.notionalUsd)),
+    marginMode,
+    posSide,
+    liquidationPrice,
+    marginRatio: raw.mgnRatio ? toNumber(raw.mgnRatio) : null,
+    // OKX reports `margin` for isolated positions and `imr` for cross
+    margin: toNumber(marginMode === "isolated" ? raw.margin : raw.imr) || null,
+    liquidationDistancePercent: getLiquidationDistance(liquidationPrice, markPrice, avgPrice),
+  };
+}
+
+/**
+ * Normalize a raw OKX fill (REST payload or backend-cron snapshot)
+ */
+export function normalizeOkxFill(raw: any): Fill {
+  return {
+    exchange: "okx",
+    symbol: toCanonicalSymbol(raw.instId),
+    venueSymbol: raw.instId,
+    tradeId: String(raw.tradeId),
+    orderId: String(raw.ordId),
+    side: raw.side === "buy" ? "buy" : "sell",
+    price: toNumber(raw.fillPx),
+    size: toNumber(raw.fillSz),
+    // OKX reports fees as negative numbers
+    fee: -toNumber(raw.fee),
+    feeAsset: raw.feeCcy,
+    realizedPnL: toNumber(raw.fillPnl),
+    maker: raw.execType === "M",
+    time: toNumber(raw.ts),
+  };
+}
+
+/**
+ * Normalize a raw OKX instrument from /api/v5/public/instruments
+ */
+export function normalizeOkxInstrument(raw: any): Instrument {
+  const [baseAsset, quoteAsset] = (raw.instFamily || raw.uly || raw.instId).split("-");
+  return {
+    exchange: "okx",
+    symbol: toCanonicalSymbol(raw.instId),
+    venueSymbol: raw.instId,
+    baseAsset,
+    quoteAsset,
+    settleAsset: raw.settleCcy || quoteAsset,
+    contractType: raw.ctType === "inverse" ? "inverse" : "linear",
+    tickSize: toNumber(raw.tickSz),
+    lotSize: toNumber(raw.lotSz, 1),
+    minSize: toNumber(raw.minSz, toNumber(raw.lotSz, 1)),
+    marketMaxSize: raw.maxMktSz ? toNumber(raw.maxMktSz) : undefined,
+    contractValue: toNumber(raw.ctVal, 1),
+  };
 }
@@ -0,0 +1,359 @@
+import {
+  roundToStep,
+  roundToTick,
+  type ExchangeId,
+  type Instrument,
+  type Position,
+} from "./exchange";
+
+/**
+ * Order ticket helpers for /api/place-order and close sizing for /api/close-position
+ *
+ * Sizes are in the venue's order unit (Instrument.lotSize applies, same unit
+ * as Position.contracts); prices in quote currency.
+ */
+
+export interface OrderTicket {
+  symbol: string;
+  side: "buy" | "sell";
+  type: "market" | "limit";
+  size: number;
+  price?: number;
+  postOnly: boolean;
+  reduceOnly: boolean;
+  // Position the order targets; derived from the side and the open positions
+  // when not given (see resolvePosSide)
+  posSide?: Position["posSide"];
+}
+
+/**
+ * Default fee rates used for the preview (VIP 0, no discounts)
+ */
+export const FEE_RATES: Record<ExchangeId, { maker: number; taker: number }> = {
+  okx: { maker: 0.0002, taker: 0.0005 },
+  asterdex: { maker: 0.0001, taker: 0.00035 },
+};
+
+export interface OrderPreview {
+  // Ticket after rounding to the instrument's tick and lot size
+  order: OrderTicket;
+  referencePrice: number;
+  notionalUsd: number;
+  liquidity: "maker" | "taker";
+  feeRate: number;
+  estimatedFeeUsd: number;
+  position: {
+    // Only the targeted position: the long or short leg in hedge mode
+    posSide: Position["posSide"] | null;
+    // Signed contracts: long positive, short negative
+    current: number;
+    resulting: number;
+  };
+  warnings: string[];
+}
+
+/**
+ * Validate an order ticket from a request body
+ * Returns an error message instead of a ticket when invalid
+ */
+export function parseOrderTicket(
+  body: any
+): { ticket: OrderTicket; error?: undefined } | { ticket?: undefined; error: string } {
+  const { symbol, side, type } = body;
+  const size = Number(body.size);
+  const price = body.price === undefined || body.price === "" ? undefined : Number(body.price);
+  const postOnly = !!body.postOnly;
+  const reduceOnly = !!body.reduceOnly;
+  const posSide = body.posSide || undefined;
+
+  if (!symbol) {
+    return { error: "Missing symbol" };
+  }
+  if (side !== "buy" && side !== "sell") {
+    return { error: "side must be buy or sell" };
+  }
+  if (type !== "market" && type !== "limit") {
+    return { error: "type must be market or limit" };
+  }
+  if (!Number.isFinite(size) || size <= 0) {
+    return { error: "size must be a positive number" };
+  }
+  if (type === "limit" && (price === undefined || !Number.isFinite(price) || price <= 0)) {
+    return { error: "price must be a positive number for limit orders" };
+  }
+  if (postOnly && type !== "limit") {
+    return { error: "postOnly is only supported for limit orders" };
+  }
+  if (posSide !== undefined && posSide !== "net" && posSide !== "long" && posSide !== "short") {
+    return { error: "posSide must be net, long or short" };
+  }
+
+  return {
+    ticket: {
+      symbol,
+      side,
+      type,
+      size,
+      price: type === "limit" ? price : undefined,
+      postOnly,
+      reduceOnly,
+      posSide,
+    },
+  };
+}
+
+/**
+ * Position an order targets
+ * In hedge mode (any long/short position open) buys open the long leg and
+ * sells the short one; reduce-only orders target the opposite leg. Net-mode
+ * positions give "net". Without positions the account mode is unknown and
+ * the venue default applies (undefined) unless the ticket names a posSide.
+ */
+export function resolvePosSide(
+  ticket: OrderTicket,
+  positions: Position[]
+): Position["posSide"] | undefined {
+  if (ticket.posSide) {
+    return ticket.posSide;
+  }
+  if (positions.some((pos) => pos.posSide !== "net")) {
+    const opensLong = ticket.side === "buy" ? !ticket.reduceOnly : ticket.reduceOnly;
+    return opensLong ? "long" : "short";
+  }
+  return positions.length > 0 ? "net" : undefined;
+}
+
+/**
+ * Round a ticket to instrument precision and estimate its cost and effect
+ * The price is rounded to the nearest tick and the size down to the lot size.
+ * Limit orders that would cross the reference price are treated as taker.
+ * The position effect covers only the targeted position, so the long and
+ * short legs of a hedge-mode account are not netted together.
+ */
+export function buildOrderPreview(
+  ticket: OrderTicket,
+  instrument: Instrument,
+  positions: Position[],
+  referencePrice: number
+): { preview: OrderPreview; error?: undefined } | { preview?: undefined; error: string } {
+  const size = roundToStep(ticket.size, instrument.lotSize);
+  const price = ticket.price !== undefined ? roundToTick(ticket.price, instrument.tickSize) : undefined;
+  const warnings: string[] = [];
+
+  if (size <= 0 || size < instrument.minSize) {
+    return {
+      error: `Size ${size} is below the minimum order size ${instrument.minSize}`,
+    };
+  }
+  if (size !== ticket.size) {
+    warnings.push(`Size rounded from ${ticket.size} to ${size} (lot size ${instrument.lotSize})`);
+  }
+  if (price !== undefined && price !== ticket.price) {
+    warnings.push(`Price rounded from ${ticket.price} to ${price} (tick size ${instrument.tickSize})`);
+  }
+
+  const posSide = resolvePosSide(ticket, positions);
+  const targeted = posSide
+    ? positions.filter((pos) => pos.posSide === posSide)
+    : positions;
+  const current = targeted.reduce(
+    (sum, pos) => sum + (pos.side === "LONG" ? pos.contracts : -pos.contracts),
+    0
+  );
+  const delta = ticket.side === "buy" ? size : -size;
+
+  if (ticket.reduceOnly) {
+    if (current === 0 || Math.sign(delta) === Math.sign(current)) {
+      return { error: "Reduce-only order would not reduce the current position" };
+    }
+    if (size > Math.abs(current)) {
+      warnings.push(
+        `Reduce-only size ${size} exceeds the position (${Math.abs(current)}); only the position will be closed`
+      );
+    }
+  }
+
+  const resulting = ticket.reduceOnly
+    ? Math.abs(delta) >= Math.abs(current)
+      ? 0
+      : current + delta
+    : current + delta;
+
+  const crosses =
+    price !== undefined &&
+    (ticket.side === "buy" ? price >= referencePrice : price <= referencePrice);
+
+  if (ticket.postOnly && crosses) {
+    warnings.push("Post-only order crosses the current price and will be rejected");
+  }
+
+  const executionPrice = price ?? referencePrice;
+  const contractValue = instrument.contractValue || 1;
+  const notionalUsd =
+    instrument.contractType === "inverse"
+      ? size * contractValue
+      : size * contractValue * executionPrice;
+
+  const liquidity = ticket.type === "market" || (crosses && !ticket.postOnly) ? "taker" : "maker";
+  const feeRate = FEE_RATES[instrument.exchange][liquidity];
+
+  return {
+    preview: {
+      order: { ...ticket, size, price, posSide },
+      referencePrice,
+      notionalUsd: Number(notionalUsd.toFixed(2)),
+      liquidity,
+      feeRate,
+      estimatedFeeUsd: Number((notionalUsd * feeRate).toFixed(4)),
+      position: {
+        posSide: posSide ?? null,
+        current: Number(current.toFixed(8)),
+        resulting: Number(resulting.toFixed(8)),
+      },
+      warnings,
+    },
+  };
+}
+
+export type CloseMode = "market" | "limit_ioc";
+
+/**
+ * How much of a position to close and how
+ * Exactly one of percentage, quantity (contracts) or notionalUsd is set
+ */
+export interface CloseSpec {
+  percentage?: number;
+  quantity?: number;
+  notionalUsd?: number;
+  mode: CloseMode;
+  // limit_ioc only: worst acceptable price distance from the reference price
+  maxSlippagePercent: number;
+}
+
+export const DEFAULT_CLOSE_SLIPPAGE_PERCENT = 0.5;
+const MAX_CLOSE_SLIPPAGE_PERCENT = 10;
+
+export interface ClosePlan {
+  side: "buy" | "sell";
+  size: number;
+  // limit_ioc only
+  price?: number;
+  reduceOnly: boolean;
+  warnings: string[];
+}
+
+/**
+ * Validate close parameters from a request body
+ */
+export function parseCloseSpec(
+  body: any
+): { spec: CloseSpec; error?: undefined } | { spec?: undefined; error: string } {
+  const amounts = (["percentage", "quantity", "notionalUsd"] as const).filter(
+    (key) => body[key] !== undefined && body[key] !== null && body[key] !== ""
+  );
+
+  if (amounts.length !== 1) {
+    return { error: "Exactly one of percentage, quantity or notionalUsd is required" };
+  }
+
+  const key = amounts[0];
+  const amount = Number(body[key]);
+
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return { error: `${key} must be a positive number` };
+  }
+  if (key === "percentage" && amount > 100) {
+    return { error: "percentage must be between 0 and 100" };
+  }
+
+  const mode: CloseMode = body.mode || "market";
+  if (mode !== "market" && mode !== "limit_ioc") {
+    return { error: "mode must be market or limit_ioc" };
+  }
+
+  const maxSlippagePercent =
+    body.maxSlippagePercent === undefined
+      ? DEFAULT_CLOSE_SLIPPAGE_PERCENT
+      : Number(body.maxSlippagePercent);
+  if (
+    !Number.isFinite(maxSlippagePercent) ||
+    maxSlippagePercent <= 0 ||
+    maxSlippagePercent > MAX_CLOSE_SLIPPAGE_PERCENT
+  ) {
+    return {
+      error: `maxSlippagePercent must be greater than 0 and at most ${MAX_CLOSE_SLIPPAGE_PERCENT}`,
+    };
+  }
+
+  return { spec: { [key]: amount, mode, maxSlippagePercent } as CloseSpec };
+}
+
+/**
+ * Size a close order for one position
+ * Market closes use the market lot rules when the venue has them. A request
+ * covering the whole position closes exactly the position size, so no dust
+ * is left behind by rounding. limit_ioc closes are priced at the slippage cap,
+ * rounded to the tick towards the reference price.
+ */
+export function planClose(
+  position: Position,
+  instrument: Instrument,
+  spec: CloseSpec,
+  referencePrice: number
+): { plan: ClosePlan; error?: undefined } | { plan?: undefined; error: string } {
+  const isMarket = spec.mode === "market";
+  const step = (isMarket && instrument.marketLotSize) || instrument.lotSize;
+  const minSize = (isMarket && instrument.marketMinSize) || instrument.minSize;
+  const contractValue = instrument.contractValue || 1;
+  const side = position.side === "LONG" ? "sell" : "buy";
+  const warnings: string[] = [];
+
+  let rawSize: number;
+  if (spec.percentage !== undefined) {
+    rawSize = (position.contracts * spec.percentage) / 100;
+  } else if (spec.quantity !== undefined) {
+    rawSize = spec.quantity;
+  } else {
+    rawSize =
+      instrument.contractType === "inverse"
+        ? spec.notionalUsd! / contractValue
+        : spec.notionalUsd! / (referencePrice * contractValue);
+  }
+
+  const isFullClose = rawSize >= position.contracts;
+  let size = isFullClose ? position.contracts : roundToStep(rawSize, step);
+
+  if (!isFullClose && (size <= 0 || size < minSize)) {
+    return {
+      error: `Close size ${size} is below the minimum order size ${minSize} (step ${step})`,
+    };
+  }
+
+  if (isMarket && instrument.marketMaxSize && size > instrument.marketMaxSize) {
+    size = roundToStep(instrument.marketMaxSize, step);
+    warnings.push(
+      `Close size capped at the market order maximum ${instrument.marketMaxSize}; close the remainder separately`
+    );
+  }
+
+  let price: number | undefined;
+  if (!isMarket) {
+    const slippage = spec.maxSlippagePercent / 100;
+    const limit = side === "sell" ? referencePrice * (1 - slippage) : referencePrice * (1 + slippage);
+    const tick = instrument.tickSize;
+    const ticks = side === "sell" ? Math.ceil(limit / tick - 1e-9) : Math.floor(limit / tick + 1e-9);
+    price = tick ? roundToTick(ticks * tick, tick) : limit;
+  }
+
+  return {
+    plan: {
+      side,
+      size,
+      price,
+      // Hedge-mode orders target the position through posSide instead;
+      // both venues reject the reduce-only flag there
+      reduceOnly: position.posSide === "net",
+      warnings,
+    },
+  };
+}
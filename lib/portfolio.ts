@@ -0,0 +1,138 @@
+import { parseSymbol } from "./symbols";
+
+/**
+ * Portfolio roll-up of the dashboard cards
+ *
+ * Pure functions over MonitorCard data so the same figures can be computed
+ * by /api/portfolio and by the dashboard from its live (streamed) state.
+ */
+
+export interface PortfolioTotals {
+  accounts: number;
+  equity: number;
+  availableBalance: number;
+  unrealizedPnL: number;
+  equity24hAgo: number | null;
+  equity24hChange: number | null;
+  equity24hChangePercent: number | null;
+}
+
+export interface AssetExposure {
+  asset: string;
+  long: number;
+  short: number;
+  net: number;
+  byExchange: Record<string, { long: number; short: number; net: number }>;
+}
+
+export interface PortfolioSummary {
+  totals: PortfolioTotals;
+  byExchange: Record<string, PortfolioTotals>;
+  assets: AssetExposure[];
+}
+
+// Structural subset of MonitorCard, so the dashboard's own card type can be passed in
+interface PortfolioCard {
+  accountId: string;
+  symbol: string;
+  exchange?: string;
+  balance?: {
+    equity: number;
+    availableBalance: number;
+    unrealizedPnL: number;
+    equity24hAgo?: number | null;
+  } | null;
+  positions?: Array<{ side: "LONG" | "SHORT"; notionalUsd: number }>;
+  error?: string;
+}
+
+function emptyTotals(): PortfolioTotals {
+  return {
+    accounts: 0,
+    equity: 0,
+    availableBalance: 0,
+    unrealizedPnL: 0,
+    equity24hAgo: null,
+    equity24hChange: null,
+    equity24hChangePercent: null,
+  };
+}
+
+function addBalance(totals: PortfolioTotals, balance: NonNullable<PortfolioCard["balance"]>) {
+  totals.accounts++;
+  totals.equity += balance.equity;
+  totals.availableBalance += balance.availableBalance;
+  totals.unrealizedPnL += balance.unrealizedPnL;
+
+  // Only accounts with a 24h reference point contribute to the 24h change
+  if (balance.equity24hAgo !== null && balance.equity24hAgo !== undefined) {
+    totals.equity24hAgo = (totals.equity24hAgo ?? 0) + balance.equity24hAgo;
+    totals.equity24hChange = (totals.equity24hChange ?? 0) + (balance.equity - balance.equity24hAgo);
+  }
+}
+
+function finalizeTotals(totals: PortfolioTotals): PortfolioTotals {
+  return {
+    ...totals,
+    equity24hChangePercent:
+      totals.equity24hAgo && totals.equity24hChange !== null
+        ? (totals.equity24hChange / totals.equity24hAgo) * 100
+        : null,
+  };
+}
+
+/**
+ * Sum balances per account (each account's balance repeats on every one of
+ * its cards) and net position notional per base asset across venues
+ */
+export function summarizePortfolio(cards: PortfolioCard[]): PortfolioSummary {
+  const totals = emptyTotals();
+  const byExchange: Record<string, PortfolioTotals> = {};
+  const assets = new Map<string, AssetExposure>();
+  const countedAccounts = new Set<string>();
+
+  for (const card of cards) {
+    if (card.error) continue;
+    const exchange = card.exchange || "okx";
+
+    if (card.balance && !countedAccounts.has(card.accountId)) {
+      countedAccounts.add(card.accountId);
+      addBalance(totals, card.balance);
+      addBalance((byExchange[exchange] ??= emptyTotals()), card.balance);
+    }
+
+    const asset = parseSymbol(card.symbol)?.base || card.symbol;
+
+    for (const position of card.positions || []) {
+      const notional = Math.abs(position.notionalUsd);
+      const isLong = position.side === "LONG";
+
+      if (!assets.has(asset)) {
+        assets.set(asset, { asset, long: 0, short: 0, net: 0, byExchange: {} });
+      }
+      const exposure = assets.get(asset)!;
+      const venue = (exposure.byExchange[exchange] ??= { long: 0, short: 0, net: 0 });
+
+      if (isLong) {
+        exposure.long += notional;
+        venue.long += notional;
+      } else {
+        exposure.short += notional;
+        venue.short += notional;
+      }
+      exposure.net += isLong ? notional : -notional;
+      venue.net += isLong ? notional : -notional;
+    }
+  }
+
+  return {
+    totals: finalizeTotals(totals),
+    byExchange: Object.fromEntries(
+      Object.entries(byExchange).map(([exchange, t]) => [exchange, finalizeTotals(t)])
+    ),
+    // Largest gross exposure first
+    assets: Array.from(assets.values()).sort(
+      (a, b) => b.long + b.short - (a.long + a.short)
+    ),
+  };
+}
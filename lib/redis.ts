@@ -19,9 +19,47 @@ export function getRedisClient(): Redis {
   return redis;
 }
 
+/**
+ * Snapshot time series
+ *
+ * Equity is stored in a per-account sorted set (score = timestamp,
+ * member = "{timestamp}:{equity}"), so range and nearest-point queries
+ * never need a KEYS scan:
+ *   hypotom-monitor:series:equity:{accountId}
+ *
+ * Positions, orders and trade history payloads keep their own keys
+ * (hypotom-monitor:{kind}:{accountId}:{timestamp}, expiring after 30 days) and
+ * are indexed by timestamp in a per-account sorted set:
+ *   hypotom-monitor:series:{kind}:{accountId}
+ *
+ * Keys written before the series existed are imported once with
+ * scripts/migrate-snapshots.ts (see migrateLegacySnapshots).
+ */
+type SnapshotKind = "positions" | "orders" | "trades";
+
+const EQUITY_RETENTION_MS = 31 * 24 * 60 * 60 * 1000; // 31 days (covers 30d change)
+const SNAPSHOT_RETENTION_SECONDS = 30 * 24 * 60 * 60; // 30 days
+
+function seriesKey(kind: SnapshotKind | "equity", accountId: string): string {
+  return `hypotom-monitor:series:${kind}:${accountId}`;
+}
+
+function snapshotKey(kind: SnapshotKind, accountId: string, timestamp: number | string): string {
+  return `hypotom-monitor:${kind}:${accountId}:${timestamp}`;
+}
+
+// Set by migrateLegacySnapshots once the legacy keys are imported (value = ms)
+const LEGACY_MIGRATED_KEY = "hypotom-monitor:series:migrated";
+
+function parseEquityMember(member: string): { timestamp: number; equity: number } {
+  const [timestamp, equity] = member.split(":");
+  return { timestamp: parseInt(timestamp), equity: parseFloat(equity) };
+}
+
 /**
  * Store equity snapshot for an account
- * Key format: hypotom-monitor:equity:{accountId}:{timestamp}
+ * Key format: hypotom-monitor:series:equity:{accountId} (sorted set)
+ * Points older than 31 days are trimmed on write
  */
 export async function storeEquitySnapshot(
   accountId: string,
@@ -29,10 +67,78 @@ export async function storeEquitySnapshot(
 ): Promise<void> {
   const client = getRedisClient();
   const timestamp = Date.now();
-  const key = `hypotom-monitor:equity:${accountId}:${timestamp}`;
+  const key = seriesKey("equity", accountId);
 
-  // Store with 7 days TTL (in seconds)
-  await client.setex(key, 7 * 24 * 60 * 60, equity.toString());
+  await client
+    .multi()
+    .zadd(key, timestamp, `${timestamp}:${equity}`)
+    .zremrangebyscore(key, "-inf", timestamp - EQUITY_RETENTION_MS)
+    .exec();
+}
+
+/**
+ * Get equity points for an account within a time range (inclusive), oldest first
+ */
+export async function getEquityHistory(
+  accountId: string,
+  startTime: number,
+  endTime: number
+): Promise<Array<{ timestamp: number; equity: number }>> {
+  const client = getRedisClient();
+  const members = await client.zrangebyscore(
+    seriesKey("equity", accountId),
+    startTime,
+    endTime
+  );
+  return members.map(parseEquityMember);
+}
+
+/**
+ * Get the most recent equity point for an account
+ */
+export async function getLatestEquity(
+  accountId: string
+): Promise<{ timestamp: number; equity: number } | null> {
+  const client = getRedisClient();
+  const [member] = await client.zrevrangebyscore(
+    seriesKey("equity", accountId),
+    "+inf",
+    "-inf",
+    "LIMIT",
+    0,
+    1
+  );
+  return member ? parseEquityMember(member) : null;
+}
+
+/**
+ * Get the equity point closest to a timestamp
+ * Only points within `toleranceMs` on either side are considered
+ */
+export async function getEquityAt(
+  accountId: string,
+  timestamp: number,
+  toleranceMs: number
+): Promise<{ timestamp: number; equity: number } | null> {
+  const client = getRedisClient();
+  const key = seriesKey("equity", accountId);
+
+  // Nearest point at or before, and nearest point after the target
+  const [before, after] = await Promise.all([
+    client.zrevrangebyscore(key, timestamp, timestamp - toleranceMs, "LIMIT", 0, 1),
+    client.zrangebyscore(key, `(${timestamp}`, timestamp + toleranceMs, "LIMIT", 0, 1),
+  ]);
+
+  const candidates = [...before, ...after].map(parseEquityMember);
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  return candidates.reduce((closest, point) =>
+    Math.abs(point.timestamp - timestamp) < Math.abs(closest.timestamp - timestamp)
+      ? point
+      : closest
+  );
 }
 
 /**
@@ -42,68 +148,179 @@ export async function storeEquitySnapshot(
 export async function getEquity24hAgo(
   accountId: string
 ): Promise<number | null> {
+  const twentyFourHoursAgo = Date.now() - 24 * 60 * 60 * 1000;
+  const point = await getEquityAt(accountId, twentyFourHoursAgo, 60 * 60 * 1000);
+  return point ? point.equity : null;
+}
+
+/**
+ * Trim snapshot series past their retention window
+ * Equity points older than 31 days and index entries older than 30 days are removed.
+ * Series keys are found with SCAN, never KEYS.
+ */
+export async function cleanupOldSnapshots(): Promise<void> {
   const client = getRedisClient();
   const now = Date.now();
-  const twentyFourHoursAgo = now - 24 * 60 * 60 * 1000;
 
-  // Search window: 23-25 hours ago
-  const searchStart = twentyFourHoursAgo - 60 * 60 * 1000; // 25h ago
-  const searchEnd = twentyFourHoursAgo + 60 * 60 * 1000; // 23h ago
+  const keys = await scanKeys("hypotom-monitor:series:*");
+  const pipeline = client.pipeline();
+
+  for (const key of keys) {
+    const kind = key.split(":")[2];
+    if (kind === "equity") {
+      pipeline.zremrangebyscore(key, "-inf", now - EQUITY_RETENTION_MS);
+    } else if (kind === "positions" || kind === "orders" || kind === "trades" || kind === "state") {
+      pipeline.zremrangebyscore(key, "-inf", now - SNAPSHOT_RETENTION_SECONDS * 1000);
+    }
+  }
 
-  // Get all keys matching the pattern
-  const pattern = `hypotom-monitor:equity:${accountId}:*`;
-  const keys = await client.keys(pattern);
+  await pipeline.exec();
+}
 
-  if (keys.length === 0) {
-    return null;
+/**
+ * Collect keys matching a pattern with non-blocking SCAN
+ */
+async function scanKeys(pattern: string): Promise<string[]> {
+  const client = getRedisClient();
+  const keys: string[] = [];
+  let cursor = "0";
+
+  do {
+    const [nextCursor, batch] = await client.scan(cursor, "MATCH", pattern, "COUNT", 500);
+    keys.push(...batch);
+    cursor = nextCursor;
+  } while (cursor !== "0");
+
+  return keys;
+}
+
+/**
+ * Store a snapshot payload and index it by timestamp
+ * Also refreshes the {kind}:{accountId}:latest key
+ */
+async function storeSnapshot(
+  kind: SnapshotKind,
+  accountId: string,
+  payload: any,
+  ttlSeconds: number
+): Promise<void> {
+  const client = getRedisClient();
+  const timestamp = Date.now();
+  const key = snapshotKey(kind, accountId, timestamp);
+  const latestKey = snapshotKey(kind, accountId, "latest");
+  const indexKey = seriesKey(kind, accountId);
+  const latest = JSON.stringify({ timestamp, data: payload });
+
+  await client
+    .multi()
+    .setex(key, ttlSeconds, JSON.stringify(payload))
+    .setex(latestKey, ttlSeconds, latest)
+    .zremrangebyscore(indexKey, "-inf", timestamp - ttlSeconds * 1000)
+    .zadd(indexKey, timestamp, timestamp.toString())
+    .exec();
+}
+
+/**
+ * Read indexed snapshots within a time range, oldest first
+ * With `bucketMs`, only the last snapshot of each bucket is loaded
+ * Index entries whose payload has expired are dropped from the index
+ */
+async function getSnapshotRange(
+  kind: SnapshotKind,
+  accountId: string,
+  startTime: number,
+  endTime: number,
+  bucketMs?: number
+): Promise<Array<{ timestamp: number; data: any }>> {
+  const client = getRedisClient();
+  const indexKey = seriesKey(kind, accountId);
+  let timestamps = await client.zrangebyscore(indexKey, startTime, endTime);
+
+  if (bucketMs) {
+    timestamps = timestamps.filter((timestamp, i) => {
+      const next = timestamps[i + 1];
+      return (
+        !next ||
+        Math.floor(parseInt(next) / bucketMs) !== Math.floor(parseInt(timestamp) / bucketMs)
+      );
+    });
   }
 
-  // Find the key closest to 24h ago
-  let closestKey: string | null = null;
-  let closestDiff = Infinity;
+  if (timestamps.length === 0) {
+    return [];
+  }
 
-  for (const key of keys) {
-    const parts = key.split(":");
-    const timestamp = parseInt(parts[3]); // Updated index after adding prefix
-
-    if (timestamp >= searchStart && timestamp <= searchEnd) {
-      const diff = Math.abs(timestamp - twentyFourHoursAgo);
-      if (diff < closestDiff) {
-        closestDiff = diff;
-        closestKey = key;
-      }
+  const values = await client.mget(
+    timestamps.map((timestamp) => snapshotKey(kind, accountId, timestamp))
+  );
+
+  const results: Array<{ timestamp: number; data: any }> = [];
+  const expired: string[] = [];
+
+  values.forEach((value, i) => {
+    if (value) {
+      results.push({ timestamp: parseInt(timestamps[i]), data: JSON.parse(value) });
+    } else {
+      expired.push(timestamps[i]);
     }
-  }
+  });
 
-  if (!closestKey) {
-    return null;
+  if (expired.length > 0) {
+    await client.zrem(indexKey, ...expired);
   }
 
-  const value = await client.get(closestKey);
-  return value ? parseFloat(value) : null;
+  return results;
 }
 
 /**
- * Clean up old equity snapshots (older than 7 days)
- * This is optional as we're using TTL, but can be used for manual cleanup
+ * Import legacy snapshot keys into the sorted-set series
+ * Legacy formats:
+ *   hypotom-monitor:equity:{accountId}:{timestamp}     (string value)
+ *   hypotom-monitor:{kind}:{accountId}:{timestamp}     (payload, indexed only)
+ * A one-time import run by scripts/migrate-snapshots.ts, never from a read
+ * path: it SCANs the whole keyspace. Returns null when the migration marker is
+ * already set, unless `force`. Legacy keys are left to expire; equity points
+ * past the retention window are skipped.
  */
-export async function cleanupOldSnapshots(): Promise<void> {
+export async function migrateLegacySnapshots(
+  force: boolean = false
+): Promise<Record<SnapshotKind | "equity", number> | null> {
   const client = getRedisClient();
-  const now = Date.now();
-  const sevenDaysAgo = now - 7 * 24 * 60 * 60 * 1000;
+  const migrated = { equity: 0, positions: 0, orders: 0, trades: 0 };
 
-  const pattern = `hypotom-monitor:equity:*`;
-  const keys = await client.keys(pattern);
+  if (!force && (await client.exists(LEGACY_MIGRATED_KEY))) {
+    return null;
+  }
 
-  const deletePromises = keys
-    .filter((key) => {
-      const parts = key.split(":");
-      const timestamp = parseInt(parts[3]); // Updated index after adding prefix
-      return timestamp < sevenDaysAgo;
-    })
-    .map((key) => client.del(key));
+  for (const kind of ["equity", "positions", "orders", "trades"] as const) {
+    const keys = await scanKeys(`hypotom-monitor:${kind}:*`);
+    const legacyKeys = keys.filter((key) => /^\d+$/.test(key.split(":")[3] || ""));
+
+    if (kind === "equity") {
+      const values = legacyKeys.length > 0 ? await client.mget(legacyKeys) : [];
+      const pipeline = client.pipeline();
+      legacyKeys.forEach((key, i) => {
+        const value = values[i];
+        if (value === null) return;
+        const [, , accountId, timestamp] = key.split(":");
+        if (parseInt(timestamp) < Date.now() - EQUITY_RETENTION_MS) return;
+        pipeline.zadd(seriesKey("equity", accountId), timestamp, `${timestamp}:${value}`);
+        migrated.equity++;
+      });
+      await pipeline.exec();
+    } else {
+      const pipeline = client.pipeline();
+      for (const key of legacyKeys) {
+        const [, , accountId, timestamp] = key.split(":");
+        pipeline.zadd(seriesKey(kind, accountId), timestamp, timestamp);
+        migrated[kind]++;
+      }
+      await pipeline.exec();
+    }
+  }
 
-  await Promise.all(deletePromises);
+  await client.set(LEGACY_MIGRATED_KEY, String(Date.now()));
+  return migrated;
 }
 
 /**
@@ -114,23 +331,8 @@ export async function storePositionsSnapshot(
   accountId: string,
   positions: any
 ): Promise<void> {
-  const client = getRedisClient();
-  const timestamp = Date.now();
-  const key = `hypotom-monitor:positions:${accountId}:${timestamp}`;
-
-  // Store with 30 days TTL (in seconds)
-  await client.setex(key, 30 * 24 * 60 * 60, JSON.stringify(positions));
-
-  // Also store the latest snapshot with a fixed key
-  const latestKey = `hypotom-monitor:positions:${accountId}:latest`;
-  await client.setex(
-    latestKey,
-    30 * 24 * 60 * 60,
-    JSON.stringify({
-      timestamp,
-      data: positions,
-    })
-  );
+  // Store with 30 days TTL
+  await storeSnapshot("positions", accountId, positions, SNAPSHOT_RETENTION_SECONDS);
 }
 
 /**
@@ -141,23 +343,8 @@ export async function storeOrdersSnapshot(
   accountId: string,
   orders: any
 ): Promise<void> {
-  const client = getRedisClient();
-  const timestamp = Date.now();
-  const key = `hypotom-monitor:orders:${accountId}:${timestamp}`;
-
-  // Store with 30 days TTL (in seconds)
-  await client.setex(key, 30 * 24 * 60 * 60, JSON.stringify(orders));
-
-  // Also store the latest snapshot with a fixed key
-  const latestKey = `hypotom-monitor:orders:${accountId}:latest`;
-  await client.setex(
-    latestKey,
-    30 * 24 * 60 * 60,
-    JSON.stringify({
-      timestamp,
-      data: orders,
-    })
-  );
+  // Store with 30 days TTL
+  await storeSnapshot("orders", accountId, orders, SNAPSHOT_RETENTION_SECONDS);
 }
 
 /**
@@ -186,325 +373,1223 @@ export async function getLatestOrders(
 
 /**
  * Get positions history for an account within a time range
+ * Pass `bucketMs` to sample one snapshot (the last) per bucket
  */
 export async function getPositionsHistory(
+  accountId: string,
+  startTime: number,
+  endTime: number,
+  bucketMs?: number
+): Promise<Array<{ timestamp: number; data: any }>> {
+  return getSnapshotRange("positions", accountId, startTime, endTime, bucketMs);
+}
+
+/**
+ * Get orders history for an account within a time range
+ */
+export async function getOrdersHistory(
+  accountId: string,
+  startTime: number,
+  endTime: number
+): Promise<Array<{ timestamp: number; data: any }>> {
+  return getSnapshotRange("orders", accountId, startTime, endTime);
+}
+
+/**
+ * Store trade history snapshot for an account
+ * Key format: hypotom-monitor:trades:{accountId}:{timestamp}
+ */
+export async function storeTradeHistorySnapshot(
+  accountId: string,
+  tradeHistory: any
+): Promise<void> {
+  // Store with 30 days TTL
+  await storeSnapshot("trades", accountId, tradeHistory, SNAPSHOT_RETENTION_SECONDS);
+}
+
+/**
+ * Get latest trade history snapshot for an account
+ */
+export async function getLatestTradeHistory(
+  accountId: string
+): Promise<{ timestamp: number; data: any } | null> {
+  const client = getRedisClient();
+  const key = `hypotom-monitor:trades:${accountId}:latest`;
+  const value = await client.get(key);
+  return value ? JSON.parse(value) : null;
+}
+
+/**
+ * Get trade history for an account within a time range
+ */
+export async function getTradeHistoryRange(
   accountId: string,
   startTime: number,
   endTime: number
 ): Promise<Array<{ timestamp: number; data: any }>> {
+  return getSnapshotRange("trades", accountId, startTime, endTime);
+}
+
+/**
+ * Grid Level Interface
+ */
+export interface GridLevel {
+  price: number;
+  size: number;
+  sizeContracts?: number;
+  sizeUSD?: number;
+  status: "pending" | "filled";
+}
+
+/**
+ * Grid level as read from Redis, tagged with its hash field (e.g. "level_3")
+ * The field is the level's stable identifier: array positions shift once
+ * levels are filtered or sorted, so mutations must address levels by field.
+ */
+export interface StoredGridLevel extends GridLevel {
+  field: string;
+}
+
+/**
+ * Redis key of one side of a grid
+ * Key format: hypotomuai:{exchange}:mmgrid:{accountId}:{symbol}:{SIDE} (uppercase)
+ */
+export function getGridKey(
+  accountId: string,
+  symbol: string,
+  side: "buy" | "sell",
+  exchange: string = "asterdex"
+): string {
+  return `hypotomuai:${exchange}:mmgrid:${accountId}:${symbol}:${side.toUpperCase()}`;
+}
+
+/**
+ * Per-account symbol sets
+ *
+ * Writers of grid hashes and state keys SADD the symbol to a set next to
+ * them, so readers never SCAN the keyspace:
+ *   hypotomuai:{exchange}:mmgrid:grid-symbols:{accountId}
+ *   hypotomuai:{exchange}:mmgrid:state-symbols:{accountId}
+ * Grid symbols are removed when both sides are cleared, state symbols once
+ * the state-snapshot cron sees the key expired. Keys written before the
+ * sets existed are indexed once by scripts/index-account-symbols.ts.
+ */
+function gridSymbolsKey(exchange: string, accountId: string): string {
+  return `hypotomuai:${exchange}:mmgrid:grid-symbols:${accountId}`;
+}
+
+function liveStateSymbolsKey(exchange: string, accountId: string): string {
+  return `hypotomuai:${exchange}:mmgrid:state-symbols:${accountId}`;
+}
+
+/**
+ * Symbols with a grid hash (either side) for an account
+ * Symbols whose hashes are both gone (e.g. the last level was deleted) are
+ * dropped from the set on the way.
+ */
+export async function getGridSymbols(
+  accountId: string,
+  exchange: string = "asterdex"
+): Promise<string[]> {
   const client = getRedisClient();
-  const pattern = `hypotom-monitor:positions:${accountId}:*`;
-  const keys = await client.keys(pattern);
+  const key = gridSymbolsKey(exchange, accountId);
+  const symbols = await client.smembers(key);
+  if (symbols.length === 0) {
+    return [];
+  }
 
-  const results = [];
-  for (const key of keys) {
-    if (key.endsWith(":latest")) continue; // Skip the latest key
+  const pipeline = client.pipeline();
+  for (const symbol of symbols) {
+    pipeline.exists(
+      getGridKey(accountId, symbol, "buy", exchange),
+      getGridKey(accountId, symbol, "sell", exchange)
+    );
+  }
+  const results = (await pipeline.exec()) ?? [];
 
-    const parts = key.split(":");
-    const timestamp = parseInt(parts[3]); // Updated index after adding prefix
+  const gone = symbols.filter((_, i) => results[i]?.[1] === 0);
+  if (gone.length > 0) {
+    await client.srem(key, ...gone);
+  }
+  return symbols.filter((symbol) => !gone.includes(symbol));
+}
+
+const GRID_LEVEL_FIELD_PATTERN = /^level_\d+$/;
+
+/**
+ * Check that a string is a grid level hash field name (level_{index})
+ */
+export function isGridLevelField(field: unknown): field is string {
+  return typeof field === "string" && GRID_LEVEL_FIELD_PATTERN.test(field);
+}
+
+/**
+ * Get grid levels for an account and symbol
+ * Key format: hypotomuai:{exchange}:mmgrid:{accountId}:{symbol}:{SIDE} (uppercase)
+ * Data is stored as a Redis Hash
+ */
+export async function getGridLevels(
+  accountId: string,
+  symbol: string,
+  side: "buy" | "sell",
+  exchange: string = "asterdex"
+): Promise<StoredGridLevel[]> {
+  const client = getRedisClient();
+  // Match the actual Redis structure: hypotomuai:{exchange}:mmgrid:{accountId}:{symbol}:{SIDE}
+  const sideUpper = side.toUpperCase();
+  const key = `hypotomuai:${exchange}:mmgrid:${accountId}:${symbol}:${sideUpper}`;
+
+  try {
+    const data = await client.hgetall(key);
+
+    if (!data || Object.keys(data).length === 0) {
+      return [];
+    }
+
+    // Convert hash to array of grid levels, sorted by level number
+    const levels: StoredGridLevel[] = [];
+    const levelKeys = Object.keys(data).sort((a, b) => {
+      const numA = parseInt(a.split("_")[1]);
+      const numB = parseInt(b.split("_")[1]);
+      return numA - numB;
+    });
+
+    for (const levelKey of levelKeys) {
+      try {
+        const levelData = JSON.parse(data[levelKey]);
+        levels.push({ ...levelData, field: levelKey });
+      } catch (e) {
+        console.error(`Error parsing grid level ${levelKey}:`, e);
+        console.error(`Raw data for ${levelKey}:`, data[levelKey]);
+      }
+    }
+
+    return levels;
+  } catch (error) {
+    console.error(
+      `Error getting grid levels for ${accountId}:${symbol}:${side}:`,
+      error
+    );
+    return [];
+  }
+}
+
+/**
+ * Set a grid level for an account and symbol
+ * Key format: hypotomuai:{exchange}:mmgrid:{accountId}:{symbol}:{SIDE} (uppercase)
+ * Field: level_{index}
+ */
+export async function setGridLevel(
+  accountId: string,
+  symbol: string,
+  side: "buy" | "sell",
+  field: string,
+  level: GridLevel,
+  exchange: string = "asterdex"
+): Promise<void> {
+  const client = getRedisClient();
+  const sideUpper = side.toUpperCase();
+  const key = `hypotomuai:${exchange}:mmgrid:${accountId}:${symbol}:${sideUpper}`;
+  // Never persist the field tag of a level read back from Redis
+  const { field: _field, ...data } = level as StoredGridLevel;
+
+  await client
+    .multi()
+    .hset(key, field, JSON.stringify(data))
+    .sadd(gridSymbolsKey(exchange, accountId), symbol)
+    .exec();
+}
+
+/**
+ * Get a single grid level by field, or null when the field does not exist
+ */
+export async function getGridLevel(
+  accountId: string,
+  symbol: string,
+  side: "buy" | "sell",
+  field: string,
+  exchange: string = "asterdex"
+): Promise<GridLevel | null> {
+  const client = getRedisClient();
+  const sideUpper = side.toUpperCase();
+  const key = `hypotomuai:${exchange}:mmgrid:${accountId}:${symbol}:${sideUpper}`;
+  const value = await client.hget(key, field);
+  return value ? JSON.parse(value) : null;
+}
+
+/**
+ * Get the next free level field (one past the highest existing level_{index})
+ */
+export async function getNextGridLevelField(
+  accountId: string,
+  symbol: string,
+  side: "buy" | "sell",
+  exchange: string = "asterdex"
+): Promise<string> {
+  const client = getRedisClient();
+  const sideUpper = side.toUpperCase();
+  const key = `hypotomuai:${exchange}:mmgrid:${accountId}:${symbol}:${sideUpper}`;
+  const fields = await client.hkeys(key);
+
+  const indexes = fields
+    .map((field) => parseInt(field.split("_")[1]))
+    .filter((index) => !isNaN(index));
+  return `level_${indexes.length > 0 ? Math.max(...indexes) + 1 : 0}`;
+}
+
+/**
+ * Atomically replace both sides of a grid
+ * Both hashes are deleted and rewritten in one MULTI, so the bot never
+ * reads a half-written grid. Fields are level_0..level_{n-1} per side.
+ */
+export async function replaceGridLevels(
+  accountId: string,
+  symbol: string,
+  levels: { buy: GridLevel[]; sell: GridLevel[] },
+  exchange: string = "asterdex"
+): Promise<void> {
+  const toHash = (sideLevels: GridLevel[]) =>
+    Object.fromEntries(
+      sideLevels.map((level, index) => [`level_${index}`, JSON.stringify(level)])
+    );
+
+  await writeGridHashes(
+    accountId,
+    symbol,
+    { buy: toHash(levels.buy), sell: toHash(levels.sell) },
+    exchange
+  );
+}
+
+/**
+ * Grid version history
+ *
+ * Before every dashboard mutation the raw BUY/SELL hashes of a grid are
+ * copied into a per-account+symbol sorted set (score = version number,
+ * member = JSON GridVersion), so any change can be diffed and undone:
+ *   hypotom-monitor:gridversions:{exchange}:{accountId}:{symbol}
+ * Version numbers come from a counter next to it (…:seq) and only the
+ * latest GRID_VERSION_LIMIT versions are kept.
+ */
+export interface GridVersion {
+  version: number;
+  timestamp: number;
+  // Mutation that was about to run, e.g. "delete-grid-level:clearAll"
+  reason: string;
+  user?: string;
+  // Raw hash contents, field -> JSON level, exactly as the bot wrote them
+  buy: Record<string, string>;
+  sell: Record<string, string>;
+}
+
+export type GridVersionSummary = Omit<GridVersion, "buy" | "sell"> & {
+  buyLevels: number;
+  sellLevels: number;
+};
+
+const GRID_VERSION_LIMIT = 100;
+
+function gridVersionsKey(exchange: string, accountId: string, symbol: string): string {
+  return `hypotom-monitor:gridversions:${exchange}:${accountId}:${symbol}`;
+}
+
+/**
+ * Read the raw BUY/SELL hashes of a grid
+ */
+export async function getGridHashes(
+  accountId: string,
+  symbol: string,
+  exchange: string = "asterdex"
+): Promise<{ buy: Record<string, string>; sell: Record<string, string> }> {
+  const client = getRedisClient();
+  const [buy, sell] = await Promise.all([
+    client.hgetall(getGridKey(accountId, symbol, "buy", exchange)),
+    client.hgetall(getGridKey(accountId, symbol, "sell", exchange)),
+  ]);
+  return { buy: buy || {}, sell: sell || {} };
+}
+
+/**
+ * Snapshot the current grid as a new version
+ * When the grid is unchanged since the latest version no new version is
+ * written and the latest version number is returned instead.
+ */
+export async function snapshotGridVersion(
+  accountId: string,
+  symbol: string,
+  reason: string,
+  exchange: string = "asterdex",
+  user?: string
+): Promise<number> {
+  const client = getRedisClient();
+  const key = gridVersionsKey(exchange, accountId, symbol);
+
+  const [hashes, latest] = await Promise.all([
+    getGridHashes(accountId, symbol, exchange),
+    client.zrange(key, -1, -1),
+  ]);
+
+  if (latest.length > 0) {
+    const previous: GridVersion = JSON.parse(latest[0]);
+    // Field order of HGETALL is not stable, so compare field by field
+    const sameHash = (a: Record<string, string>, b: Record<string, string>) =>
+      Object.keys(a).length === Object.keys(b).length &&
+      Object.entries(a).every(([field, value]) => b[field] === value);
+
+    if (sameHash(previous.buy, hashes.buy) && sameHash(previous.sell, hashes.sell)) {
+      return previous.version;
+    }
+  }
+
+  const version = await client.incr(`${key}:seq`);
+  const entry: GridVersion = {
+    version,
+    timestamp: Date.now(),
+    reason,
+    user,
+    ...hashes,
+  };
+
+  await client
+    .multi()
+    .zadd(key, version, JSON.stringify(entry))
+    .zremrangebyrank(key, 0, -(GRID_VERSION_LIMIT + 1))
+    .exec();
+
+  return version;
+}
+
+/**
+ * List stored versions of a grid, newest first, without the level payloads
+ */
+export async function getGridVersions(
+  accountId: string,
+  symbol: string,
+  exchange: string = "asterdex"
+): Promise<GridVersionSummary[]> {
+  const client = getRedisClient();
+  const members = await client.zrevrange(gridVersionsKey(exchange, accountId, symbol), 0, -1);
+
+  return members.map((member) => {
+    const { buy, sell, ...meta }: GridVersion = JSON.parse(member);
+    return {
+      ...meta,
+      buyLevels: Object.keys(buy).length,
+      sellLevels: Object.keys(sell).length,
+    };
+  });
+}
+
+/**
+ * Get one stored version of a grid, or null when it does not exist
+ */
+export async function getGridVersion(
+  accountId: string,
+  symbol: string,
+  version: number,
+  exchange: string = "asterdex"
+): Promise<GridVersion | null> {
+  const client = getRedisClient();
+  const members = await client.zrangebyscore(
+    gridVersionsKey(exchange, accountId, symbol),
+    version,
+    version
+  );
+  return members.length > 0 ? JSON.parse(members[0]) : null;
+}
+
+/**
+ * Atomically overwrite both sides of a grid with raw hash contents
+ */
+export async function writeGridHashes(
+  accountId: string,
+  symbol: string,
+  hashes: { buy: Record<string, string>; sell: Record<string, string> },
+  exchange: string = "asterdex"
+): Promise<void> {
+  const client = getRedisClient();
+  const transaction = client.multi();
+
+  for (const side of ["buy", "sell"] as const) {
+    const key = getGridKey(accountId, symbol, side, exchange);
+    transaction.del(key);
+    if (Object.keys(hashes[side]).length > 0) {
+      transaction.hset(key, hashes[side]);
+    }
+  }
+
+  if (Object.keys(hashes.buy).length > 0 || Object.keys(hashes.sell).length > 0) {
+    transaction.sadd(gridSymbolsKey(exchange, accountId), symbol);
+  } else {
+    transaction.srem(gridSymbolsKey(exchange, accountId), symbol);
+  }
+
+  await transaction.exec();
+}
+
+/**
+ * Clear all grid levels for an account and symbol
+ */
+export async function clearGridLevels(
+  accountId: string,
+  symbol: string,
+  side?: "buy" | "sell",
+  exchange: string = "asterdex"
+): Promise<void> {
+  const client = getRedisClient();
+
+  if (side) {
+    await client.del(getGridKey(accountId, symbol, side, exchange));
+    const otherSide = side === "buy" ? "sell" : "buy";
+    if (await client.exists(getGridKey(accountId, symbol, otherSide, exchange))) {
+      return;
+    }
+  } else {
+    // Clear both buy and sell
+    await client.del(getGridKey(accountId, symbol, "buy", exchange));
+    await client.del(getGridKey(accountId, symbol, "sell", exchange));
+  }
+
+  await client.srem(gridSymbolsKey(exchange, accountId), symbol);
+}
+
+export type DeleteGridLevelResult =
+  | { status: "deleted"; level: GridLevel }
+  | { status: "not_found"; level: null }
+  | { status: "price_mismatch"; level: GridLevel };
+
+// Compare-and-delete in one script so the bot cannot rewrite the level
+// between the price check and the HDEL. Price comparison uses a relative
+// tolerance to absorb float formatting differences between writers.
+const DELETE_GRID_LEVEL_SCRIPT = `
+local value = redis.call("HGET", KEYS[1], ARGV[1])
+if not value then
+  return {"not_found", false}
+end
+if ARGV[2] ~= "" then
+  local expected = tonumber(ARGV[2])
+  local price = tonumber(cjson.decode(value).price)
+  if price == nil or math.abs(price - expected) > math.abs(expected) * 1e-9 then
+    return {"price_mismatch", value}
+  end
+end
+redis.call("HDEL", KEYS[1], ARGV[1])
+return {"deleted", value}
+`;
+
+/**
+ * Delete a specific grid level by field
+ * With expectedPrice the level is only deleted while it still has that price,
+ * otherwise the current level is returned with status "price_mismatch".
+ */
+export async function deleteGridLevel(
+  accountId: string,
+  symbol: string,
+  side: "buy" | "sell",
+  field: string,
+  exchange: string = "asterdex",
+  expectedPrice?: number
+): Promise<DeleteGridLevelResult> {
+  const client = getRedisClient();
+
+  const [status, value] = (await client.eval(
+    DELETE_GRID_LEVEL_SCRIPT,
+    1,
+    getGridKey(accountId, symbol, side, exchange),
+    field,
+    expectedPrice === undefined ? "" : String(expectedPrice)
+  )) as [DeleteGridLevelResult["status"], string | null];
+
+  if (status === "not_found" || !value) {
+    return { status: "not_found", level: null };
+  }
+
+  return { status, level: JSON.parse(value) } as DeleteGridLevelResult;
+}
+
+/**
+ * Same checks as deleteGridLevel without deleting anything (dry runs)
+ * Status "deleted" means the level would be deleted.
+ */
+export async function previewDeleteGridLevel(
+  accountId: string,
+  symbol: string,
+  side: "buy" | "sell",
+  field: string,
+  exchange: string = "asterdex",
+  expectedPrice?: number
+): Promise<DeleteGridLevelResult> {
+  const level = await getGridLevel(accountId, symbol, side, field, exchange);
+
+  if (!level) {
+    return { status: "not_found", level: null };
+  }
+
+  if (
+    expectedPrice !== undefined &&
+    !(Math.abs(Number(level.price) - expectedPrice) <= Math.abs(expectedPrice) * 1e-9)
+  ) {
+    return { status: "price_mismatch", level };
+  }
+
+  return { status: "deleted", level };
+}
+
+/**
+ * Account State Interface
+ */
+export interface AccountState {
+  lastMidPrice?: number;
+  lastPosition?: number;
+  cycleNumber?: number;
+  [key: string]: any; // Allow additional fields
+}
+
+// The bot rewrites its state every cycle; an expired key means it stopped
+export const ACCOUNT_STATE_TTL_SECONDS = 300;
+
+function accountStateKey(exchange: string, accountId: string, symbol: string): string {
+  return `hypotomuai:${exchange}:mmgrid:state:${accountId}:${symbol}`;
+}
+
+/**
+ * Store account state for a symbol
+ * Key format: hypotomuai:{exchange}:mmgrid:state:{accountId}:{symbol}
+ * TTL: 5 minutes (300 seconds)
+ */
+export async function setAccountState(
+  accountId: string,
+  symbol: string,
+  state: AccountState,
+  exchange: string = "asterdex"
+): Promise<void> {
+  const client = getRedisClient();
+  const key = accountStateKey(exchange, accountId, symbol);
+
+  // Store with 5 min TTL
+  await client
+    .multi()
+    .setex(key, ACCOUNT_STATE_TTL_SECONDS, JSON.stringify(state))
+    .sadd(liveStateSymbolsKey(exchange, accountId), symbol)
+    .exec();
+}
+
+/**
+ * Get account state for a symbol
+ * Key format: hypotomuai:{exchange}:mmgrid:state:{accountId}:{symbol}
+ */
+export async function getAccountState(
+  accountId: string,
+  symbol: string,
+  exchange: string = "asterdex"
+): Promise<AccountState | null> {
+  const client = getRedisClient();
+  const key = accountStateKey(exchange, accountId, symbol);
+
+  try {
+    const value = await client.get(key);
+    return value ? JSON.parse(value) : null;
+  } catch (error) {
+    console.error(
+      `Error getting account state for ${accountId}:${symbol}:`,
+      error
+    );
+    return null;
+  }
+}
+
+/**
+ * Live account state with the time it was last written
+ * updatedAt is derived from the remaining TTL (rounded to the second);
+ * state is null when the key has expired or was never written
+ */
+export interface AccountStateStatus {
+  state: AccountState | null;
+  updatedAt: number | null;
+}
+
+/**
+ * Batch get account states for multiple symbols using a Redis pipeline
+ */
+export async function batchGetAccountStates(
+  accountId: string,
+  symbols: string[],
+  exchange: string = "asterdex"
+): Promise<Map<string, AccountStateStatus>> {
+  const client = getRedisClient();
+  const results = new Map<string, AccountStateStatus>();
+
+  if (symbols.length === 0) {
+    return results;
+  }
+
+  const pipeline = client.pipeline();
+  for (const symbol of symbols) {
+    const key = accountStateKey(exchange, accountId, symbol);
+    pipeline.get(key);
+    pipeline.pttl(key);
+  }
+
+  try {
+    const pipelineResults = await pipeline.exec();
+    if (!pipelineResults) {
+      return results;
+    }
+
+    const now = Date.now();
+    symbols.forEach((symbol, i) => {
+      const [valueError, value] = pipelineResults[i * 2];
+      const [, pttl] = pipelineResults[i * 2 + 1];
+
+      let state: AccountState | null = null;
+      try {
+        state = !valueError && value ? JSON.parse(value as string) : null;
+      } catch {
+        // Unparseable state counts as missing
+      }
+
+      const updatedAt =
+        state && typeof pttl === "number" && pttl > 0
+          ? Math.round((now - (ACCOUNT_STATE_TTL_SECONDS * 1000 - pttl)) / 1000) * 1000
+          : null;
+
+      results.set(symbol, { state, updatedAt });
+    });
+
+    return results;
+  } catch (error) {
+    console.error(`Error in batch get account states:`, error);
+    return results;
+  }
+}
+
+/**
+ * Account state history
+ *
+ * The state-snapshot cron appends a point to a per-symbol sorted set
+ * (score = timestamp, member = JSON AccountStateEntry) whenever the bot's
+ * state changed since the last point. A null state marks the key expiring:
+ *   hypotom-monitor:series:state:{exchange}:{accountId}:{symbol}
+ * Symbols that ever had a state are tracked so expiry can still be seen
+ * after the live key is gone:
+ *   hypotom-monitor:state-symbols:{exchange}:{accountId} (set)
+ */
+export interface AccountStateEntry {
+  timestamp: number;
+  state: AccountState | null;
+}
+
+function stateSeriesKey(exchange: string, accountId: string, symbol: string): string {
+  return `hypotom-monitor:series:state:${exchange}:${accountId}:${symbol}`;
+}
+
+function stateSymbolsKey(exchange: string, accountId: string): string {
+  return `hypotom-monitor:state-symbols:${exchange}:${accountId}`;
+}
+
+/**
+ * Symbols with a tracked state history for an account
+ */
+export async function getTrackedStateSymbols(
+  accountId: string,
+  exchange: string = "asterdex"
+): Promise<string[]> {
+  const client = getRedisClient();
+  return client.smembers(stateSymbolsKey(exchange, accountId));
+}
+
+/**
+ * Symbols the bot has written a state key for since it last expired
+ */
+export async function getLiveStateSymbols(
+  accountId: string,
+  exchange: string = "asterdex"
+): Promise<string[]> {
+  const client = getRedisClient();
+  return client.smembers(liveStateSymbolsKey(exchange, accountId));
+}
+
+/**
+ * Drop symbols whose state key expired from the live set
+ */
+export async function removeLiveStateSymbols(
+  accountId: string,
+  symbols: string[],
+  exchange: string = "asterdex"
+): Promise<void> {
+  if (symbols.length === 0) return;
+  const client = getRedisClient();
+  await client.srem(liveStateSymbolsKey(exchange, accountId), ...symbols);
+}
+
+/**
+ * Add the symbols of existing grid hashes and state keys to the per-account
+ * symbol sets. A one-time SCAN of the keyspace run by
+ * scripts/index-account-symbols.ts, never from a read path.
+ */
+export async function indexAccountSymbols(): Promise<{ grids: number; states: number }> {
+  const client = getRedisClient();
+  const indexed = { grids: 0, states: 0 };
+  const keys = await scanKeys("hypotomuai:*:mmgrid:*");
+  const pipeline = client.pipeline();
+
+  for (const key of keys) {
+    const [, exchange, , ...rest] = key.split(":");
+    const state = key.match(/^hypotomuai:[^:]+:mmgrid:state:([^:]+):(.+)$/);
+    const grid = rest.join(":").match(/^([^:]+):(.+):(BUY|SELL)$/);
+
+    if (state) {
+      pipeline.sadd(liveStateSymbolsKey(exchange, state[1]), state[2]);
+      indexed.states++;
+    } else if (grid && !["control", "grid-symbols", "state-symbols"].includes(grid[1])) {
+      pipeline.sadd(gridSymbolsKey(exchange, grid[1]), grid[2]);
+      indexed.grids++;
+    }
+  }
+
+  await pipeline.exec();
+  return indexed;
+}
+
+/**
+ * Append a state to the history when it differs from the latest point
+ * Returns true when a point was written
+ */
+export async function recordAccountState(
+  accountId: string,
+  symbol: string,
+  state: AccountState | null,
+  exchange: string = "asterdex",
+  timestamp: number = Date.now()
+): Promise<boolean> {
+  const client = getRedisClient();
+  const key = stateSeriesKey(exchange, accountId, symbol);
 
-    if (timestamp >= startTime && timestamp <= endTime) {
-      const value = await client.get(key);
-      if (value) {
-        results.push({
-          timestamp,
-          data: JSON.parse(value),
-        });
-      }
+  const [latest] = await client.zrange(key, -1, -1);
+  if (latest !== undefined) {
+    const previous: AccountStateEntry = JSON.parse(latest);
+    if (JSON.stringify(previous.state) === JSON.stringify(state)) {
+      return false;
     }
+  } else if (state === null) {
+    // Nothing to record for a symbol that never had a state
+    return false;
   }
 
-  return results.sort((a, b) => a.timestamp - b.timestamp);
+  const entry: AccountStateEntry = { timestamp, state };
+  await client
+    .multi()
+    .zadd(key, timestamp, JSON.stringify(entry))
+    .zremrangebyscore(key, "-inf", timestamp - SNAPSHOT_RETENTION_SECONDS * 1000)
+    .sadd(stateSymbolsKey(exchange, accountId), symbol)
+    .exec();
+
+  return true;
 }
 
 /**
- * Get orders history for an account within a time range
+ * Get state history points in a time range, oldest first
  */
-export async function getOrdersHistory(
+export async function getAccountStateHistory(
   accountId: string,
+  symbol: string,
   startTime: number,
-  endTime: number
-): Promise<Array<{ timestamp: number; data: any }>> {
+  endTime: number,
+  exchange: string = "asterdex"
+): Promise<AccountStateEntry[]> {
   const client = getRedisClient();
-  const pattern = `hypotom-monitor:orders:${accountId}:*`;
-  const keys = await client.keys(pattern);
+  const members = await client.zrangebyscore(
+    stateSeriesKey(exchange, accountId, symbol),
+    startTime,
+    endTime
+  );
+  return members.map((member) => JSON.parse(member));
+}
 
-  const results = [];
-  for (const key of keys) {
-    if (key.endsWith(":latest")) continue; // Skip the latest key
+/**
+ * Bot control flags for an account and symbol
+ * Written by the dashboard and read by the bot every cycle:
+ * - paused: place no new grid orders
+ * - reduceOnly: only place orders that shrink the current position
+ * - maxPositionNotional: stop adding to the position beyond this USD notional (null = no cap)
+ */
+export interface BotControl {
+  paused: boolean;
+  reduceOnly: boolean;
+  maxPositionNotional: number | null;
+  updatedAt?: number;
+  updatedBy?: string;
+}
 
-    const parts = key.split(":");
-    const timestamp = parseInt(parts[3]); // Updated index after adding prefix
+export const DEFAULT_BOT_CONTROL: BotControl = {
+  paused: false,
+  reduceOnly: false,
+  maxPositionNotional: null,
+};
 
-    if (timestamp >= startTime && timestamp <= endTime) {
-      const value = await client.get(key);
-      if (value) {
-        results.push({
-          timestamp,
-          data: JSON.parse(value),
-        });
-      }
-    }
-  }
+function botControlKey(exchange: string, accountId: string, symbol: string): string {
+  return `hypotomuai:${exchange}:mmgrid:control:${accountId}:${symbol}`;
+}
 
-  return results.sort((a, b) => a.timestamp - b.timestamp);
+function parseBotControl(value: string | null): BotControl {
+  if (!value) return { ...DEFAULT_BOT_CONTROL };
+  try {
+    return { ...DEFAULT_BOT_CONTROL, ...JSON.parse(value) };
+  } catch {
+    return { ...DEFAULT_BOT_CONTROL };
+  }
 }
 
 /**
- * Store trade history snapshot for an account
- * Key format: hypotom-monitor:trades:{accountId}:{timestamp}
+ * Store bot control flags for a symbol
+ * Key format: hypotomuai:{exchange}:mmgrid:control:{accountId}:{symbol}
+ * No TTL: flags stay in force until changed
  */
-export async function storeTradeHistorySnapshot(
+export async function setBotControl(
   accountId: string,
-  tradeHistory: any
+  symbol: string,
+  control: BotControl,
+  exchange: string = "asterdex"
 ): Promise<void> {
   const client = getRedisClient();
-  const timestamp = Date.now();
-  const key = `hypotom-monitor:trades:${accountId}:${timestamp}`;
-
-  // Store forever (no TTL)
-  await client.set(key, JSON.stringify(tradeHistory));
-
-  // Also store the latest snapshot with a fixed key (no TTL)
-  const latestKey = `hypotom-monitor:trades:${accountId}:latest`;
-  await client.set(
-    latestKey,
-    JSON.stringify({
-      timestamp,
-      data: tradeHistory,
-    })
-  );
+  await client.set(botControlKey(exchange, accountId, symbol), JSON.stringify(control));
 }
 
 /**
- * Get latest trade history snapshot for an account
+ * Get bot control flags for a symbol (defaults when none are set)
+ * Key format: hypotomuai:{exchange}:mmgrid:control:{accountId}:{symbol}
  */
-export async function getLatestTradeHistory(
-  accountId: string
-): Promise<{ timestamp: number; data: any } | null> {
+export async function getBotControl(
+  accountId: string,
+  symbol: string,
+  exchange: string = "asterdex"
+): Promise<BotControl> {
   const client = getRedisClient();
-  const key = `hypotom-monitor:trades:${accountId}:latest`;
-  const value = await client.get(key);
-  return value ? JSON.parse(value) : null;
+  return parseBotControl(await client.get(botControlKey(exchange, accountId, symbol)));
 }
 
 /**
- * Get trade history for an account within a time range
+ * Batch get bot control flags for multiple symbols with a single MGET
  */
-export async function getTradeHistoryRange(
+export async function batchGetBotControls(
   accountId: string,
-  startTime: number,
-  endTime: number
-): Promise<Array<{ timestamp: number; data: any }>> {
+  symbols: string[],
+  exchange: string = "asterdex"
+): Promise<Map<string, BotControl>> {
   const client = getRedisClient();
-  const pattern = `hypotom-monitor:trades:${accountId}:*`;
-  const keys = await client.keys(pattern);
+  const results = new Map<string, BotControl>();
 
-  const results = [];
-  for (const key of keys) {
-    if (key.endsWith(":latest")) continue; // Skip the latest key
-
-    const parts = key.split(":");
-    const timestamp = parseInt(parts[3]); // Updated index after adding prefix
+  if (symbols.length === 0) {
+    return results;
+  }
 
-    if (timestamp >= startTime && timestamp <= endTime) {
-      const value = await client.get(key);
-      if (value) {
-        results.push({
-          timestamp,
-          data: JSON.parse(value),
-        });
-      }
-    }
+  try {
+    const values = await client.mget(
+      ...symbols.map((symbol) => botControlKey(exchange, accountId, symbol))
+    );
+    symbols.forEach((symbol, i) => results.set(symbol, parseBotControl(values[i])));
+  } catch (error) {
+    console.error(`Error in batch get bot controls:`, error);
   }
 
-  return results.sort((a, b) => a.timestamp - b.timestamp);
+  return results;
 }
 
 /**
- * Grid Level Interface
+ * Market Price Interface
+ * Matches the format used by ai-trading OKX price service
  */
-export interface GridLevel {
+export interface MarketPrice {
   price: number;
-  size: number;
-  status: "pending" | "filled";
+  bid?: number;
+  ask?: number;
+  last?: number;
+  timestamp: number;
+  exchange?: string;
 }
 
 /**
- * Get grid levels for an account and symbol
- * Key format: hypotomuai:{exchange}:mmgrid:{accountId}:{symbol}:{SIDE} (uppercase)
- * Data is stored as a Redis Hash
+ * Audit log entry for a mutating dashboard action
  */
-export async function getGridLevels(
-  accountId: string,
-  symbol: string,
-  side: "buy" | "sell",
-  exchange: string = "asterdex"
-): Promise<GridLevel[]> {
-  const client = getRedisClient();
-  // Match the actual Redis structure: hypotomuai:{exchange}:mmgrid:{accountId}:{symbol}:{SIDE}
-  const sideUpper = side.toUpperCase();
-  const key = `hypotomuai:${exchange}:mmgrid:${accountId}:${symbol}:${sideUpper}`;
-
-  try {
-    const data = await client.hgetall(key);
+export interface AuditEntry {
+  id: string;
+  timestamp: number;
+  user: string | null;
+  // Route name, e.g. "close-position"
+  action: string;
+  accountId: string | null;
+  symbol: string | null;
+  exchange: string | null;
+  request: any;
+  response: any;
+  success: boolean;
+  status: number;
+  latencyMs: number;
+}
 
-    if (!data || Object.keys(data).length === 0) {
-      return [];
-    }
+export interface AuditQuery {
+  from: number;
+  to: number;
+  user?: string;
+  accountId?: string;
+  action?: string;
+  limit: number;
+  // nextCursor of the previous page (same from/to and filters)
+  cursor?: number;
+}
 
-    // Convert hash to array of grid levels, sorted by level number
-    const levels: GridLevel[] = [];
-    const levelKeys = Object.keys(data).sort((a, b) => {
-      const numA = parseInt(a.split("_")[1]);
-      const numB = parseInt(b.split("_")[1]);
-      return numA - numB;
-    });
+export interface AuditPage {
+  entries: AuditEntry[];
+  // Pass as cursor for the next page; null when the range is exhausted
+  nextCursor: number | null;
+}
 
-    for (const levelKey of levelKeys) {
-      try {
-        const levelData = JSON.parse(data[levelKey]);
-        levels.push(levelData);
-      } catch (e) {
-        console.error(`Error parsing grid level ${levelKey}:`, e);
-        console.error(`Raw data for ${levelKey}:`, data[levelKey]);
-      }
-    }
+const AUDIT_LOG_KEY = "hypotom-monitor:audit";
+// Set once the entries written before the index sets existed are indexed
+const AUDIT_INDEXED_KEY = "hypotom-monitor:audit:indexed";
+const AUDIT_RETENTION_MS = 365 * 24 * 60 * 60 * 1000; // 1 year
+// Members read per ZREVRANGEBYSCORE when filtering a page
+const AUDIT_SCAN_BATCH = 500;
 
-    return levels;
-  } catch (error) {
-    console.error(
-      `Error getting grid levels for ${accountId}:${symbol}:${side}:`,
-      error
-    );
-    return [];
-  }
+/**
+ * Index sets an entry is added to besides hypotom-monitor:audit
+ * Key format: hypotom-monitor:audit:{user|account|action}:{value}
+ */
+function getAuditIndexKeys(entry: Pick<AuditEntry, "user" | "accountId" | "action">): string[] {
+  return [
+    entry.user ? `${AUDIT_LOG_KEY}:user:${entry.user}` : null,
+    entry.accountId ? `${AUDIT_LOG_KEY}:account:${entry.accountId}` : null,
+    entry.action ? `${AUDIT_LOG_KEY}:action:${entry.action}` : null,
+  ].filter((key): key is string => key !== null);
 }
 
 /**
- * Set a grid level for an account and symbol
- * Key format: hypotomuai:{exchange}:mmgrid:{accountId}:{symbol}:{SIDE} (uppercase)
- * Field: level_{index}
+ * Append an audit entry
+ * Key format: hypotom-monitor:audit (sorted set, score = timestamp) plus one
+ * index set per user, account and action holding the same member. Entries
+ * older than a year are trimmed on write; index sets expire a year after
+ * their last entry.
  */
-export async function setGridLevel(
-  accountId: string,
-  symbol: string,
-  side: "buy" | "sell",
-  levelIndex: number,
-  level: GridLevel,
-  exchange: string = "asterdex"
-): Promise<void> {
+export async function appendAuditEntry(entry: AuditEntry): Promise<void> {
   const client = getRedisClient();
-  const sideUpper = side.toUpperCase();
-  const key = `hypotomuai:${exchange}:mmgrid:${accountId}:${symbol}:${sideUpper}`;
-  const field = `level_${levelIndex}`;
+  const member = JSON.stringify(entry);
+  const cutoff = Date.now() - AUDIT_RETENTION_MS;
+  const transaction = client.multi();
+
+  transaction
+    .zadd(AUDIT_LOG_KEY, entry.timestamp, member)
+    .zremrangebyscore(AUDIT_LOG_KEY, "-inf", cutoff);
+
+  for (const key of getAuditIndexKeys(entry)) {
+    transaction
+      .zadd(key, entry.timestamp, member)
+      .zremrangebyscore(key, "-inf", cutoff)
+      .pexpire(key, AUDIT_RETENTION_MS);
+  }
 
-  await client.hset(key, field, JSON.stringify(level));
+  await transaction.exec();
 }
 
+let auditIndexing: Promise<void> | null = null;
+
 /**
- * Clear all grid levels for an account and symbol
+ * Add entries written before the index sets existed to them (once per Redis)
  */
-export async function clearGridLevels(
-  accountId: string,
-  symbol: string,
-  side?: "buy" | "sell",
-  exchange: string = "asterdex"
-): Promise<void> {
+function ensureAuditIndexes(): Promise<void> {
+  if (!auditIndexing) {
+    auditIndexing = indexAuditEntries().catch((error) => {
+      auditIndexing = null;
+      throw error;
+    });
+  }
+  return auditIndexing;
+}
+
+async function indexAuditEntries(): Promise<void> {
   const client = getRedisClient();
+  if (await client.exists(AUDIT_INDEXED_KEY)) {
+    return;
+  }
 
-  if (side) {
-    const sideUpper = side.toUpperCase();
-    const key = `hypotomuai:${exchange}:mmgrid:${accountId}:${symbol}:${sideUpper}`;
-    await client.del(key);
-  } else {
-    // Clear both buy and sell
-    await client.del(`hypotomuai:${exchange}:mmgrid:${accountId}:${symbol}:BUY`);
-    await client.del(`hypotomuai:${exchange}:mmgrid:${accountId}:${symbol}:SELL`);
+  for (let start = 0; ; start += AUDIT_SCAN_BATCH) {
+    const batch = await client.zrange(
+      AUDIT_LOG_KEY,
+      start,
+      start + AUDIT_SCAN_BATCH - 1,
+      "WITHSCORES"
+    );
+    if (batch.length === 0) break;
+
+    const pipeline = client.pipeline();
+    for (let i = 0; i < batch.length; i += 2) {
+      const entry = JSON.parse(batch[i]) as AuditEntry;
+      for (const key of getAuditIndexKeys(entry)) {
+        pipeline.zadd(key, batch[i + 1], batch[i]).pexpire(key, AUDIT_RETENTION_MS);
+      }
+    }
+    await pipeline.exec();
   }
+
+  await client.set(AUDIT_INDEXED_KEY, String(Date.now()));
 }
 
 /**
- * Delete a specific grid level by index
+ * Get one page of audit entries in a time range, newest first, filtered by
+ * user, account and action
+ * Reads the index set of the most selective filter (account, then user, then
+ * action) with ZREVRANGEBYSCORE ... LIMIT; other filters are applied while
+ * paging. The cursor is an offset into that set, so keep `to` fixed while
+ * paging (newer entries then do not shift it).
  */
-export async function deleteGridLevel(
-  accountId: string,
-  symbol: string,
-  side: "buy" | "sell",
-  levelIndex: number,
-  exchange: string = "asterdex"
-): Promise<void> {
+export async function getAuditEntries(query: AuditQuery): Promise<AuditPage> {
   const client = getRedisClient();
-  const sideUpper = side.toUpperCase();
-  const key = `hypotomuai:${exchange}:mmgrid:${accountId}:${symbol}:${sideUpper}`;
-  const field = `level_${levelIndex}`;
+  const [key] = [
+    query.accountId && `${AUDIT_LOG_KEY}:account:${query.accountId}`,
+    query.user && `${AUDIT_LOG_KEY}:user:${query.user}`,
+    query.action && `${AUDIT_LOG_KEY}:action:${query.action}`,
+  ].filter((key): key is string => !!key);
+
+  if (key) {
+    await ensureAuditIndexes();
+  }
+
+  const from = Math.max(query.from, Date.now() - AUDIT_RETENTION_MS);
+  const entries: AuditEntry[] = [];
+  let offset = query.cursor ?? 0;
+
+  while (entries.length < query.limit) {
+    const members = await client.zrevrangebyscore(
+      key ?? AUDIT_LOG_KEY,
+      query.to,
+      from,
+      "LIMIT",
+      offset,
+      AUDIT_SCAN_BATCH
+    );
+
+    for (const member of members) {
+      offset++;
+      const entry = JSON.parse(member) as AuditEntry;
+      if (
+        (!query.user || entry.user === query.user) &&
+        (!query.accountId || entry.accountId === query.accountId) &&
+        (!query.action || entry.action === query.action)
+      ) {
+        entries.push(entry);
+        if (entries.length === query.limit) {
+          return { entries, nextCursor: offset };
+        }
+      }
+    }
+
+    if (members.length < AUDIT_SCAN_BATCH) {
+      return { entries, nextCursor: null };
+    }
+  }
 
-  await client.hdel(key, field);
+  return { entries, nextCursor: offset };
 }
 
 /**
- * Account State Interface
+ * Users with at least one audit entry in the retention window
  */
-export interface AccountState {
-  lastMidPrice?: number;
-  lastPosition?: number;
-  cycleNumber?: number;
-  [key: string]: any; // Allow additional fields
+export async function getAuditUsers(): Promise<string[]> {
+  await ensureAuditIndexes();
+  const prefix = `${AUDIT_LOG_KEY}:user:`;
+  const keys = await scanKeys(`${prefix}*`);
+  return keys.map((key) => key.slice(prefix.length)).sort();
 }
 
 /**
- * Store account state for a symbol
- * Key format: hypotomuai:{exchange}:mmgrid:state:{accountId}:{symbol}
- * TTL: 5 minutes (300 seconds)
+ * Idempotency record for a keyed mutating request
+ * "pending" while the first request runs, then "completed" with its response,
+ * or "unknown" when it failed without a definite answer (orders may exist)
  */
-export async function setAccountState(
-  accountId: string,
-  symbol: string,
-  state: AccountState,
-  exchange: string = "asterdex"
-): Promise<void> {
-  const client = getRedisClient();
-  const key = `hypotomuai:${exchange}:mmgrid:state:${accountId}:${symbol}`;
+export interface IdempotencyRecord {
+  fingerprint: string;
+  state: "pending" | "completed" | "unknown";
+  status?: number;
+  body?: any;
+  createdAt: number;
+}
 
-  // Store with 5 min TTL
-  await client.setex(key, 300, JSON.stringify(state));
+function idempotencyKey(scope: string, key: string): string {
+  return `hypotom-monitor:idempotency:${scope}:${key}`;
 }
 
 /**
- * Get account state for a symbol
- * Key format: hypotomuai:{exchange}:mmgrid:state:{accountId}:{symbol}
+ * Claim an idempotency key for a request
+ * Key format: hypotom-monitor:idempotency:{scope}:{key} (JSON, TTL = window)
+ * Returns null when the key was free (and is now pending), otherwise the existing record
  */
-export async function getAccountState(
-  accountId: string,
-  symbol: string,
-  exchange: string = "asterdex"
-): Promise<AccountState | null> {
+export async function claimIdempotencyKey(
+  scope: string,
+  key: string,
+  fingerprint: string,
+  ttlSeconds: number
+): Promise<IdempotencyRecord | null> {
   const client = getRedisClient();
-  const key = `hypotomuai:${exchange}:mmgrid:state:${accountId}:${symbol}`;
+  const record: IdempotencyRecord = { fingerprint, state: "pending", createdAt: Date.now() };
+  const claimed = await client.set(
+    idempotencyKey(scope, key),
+    JSON.stringify(record),
+    "EX",
+    ttlSeconds,
+    "NX"
+  );
 
-  try {
-    const value = await client.get(key);
-    return value ? JSON.parse(value) : null;
-  } catch (error) {
-    console.error(
-      `Error getting account state for ${accountId}:${symbol}:`,
-      error
-    );
-    return null;
-  }
+  if (claimed) return null;
+
+  const existing = await client.get(idempotencyKey(scope, key));
+  // Expired between SET and GET: treat as a conflicting in-flight request
+  return existing ? (JSON.parse(existing) as IdempotencyRecord) : { ...record };
 }
 
 /**
- * Market Price Interface
- * Matches the format used by ai-trading OKX price service
+ * Store the response of a claimed request so replays return it (keeps the original TTL)
  */
-export interface MarketPrice {
-  price: number;
-  bid?: number;
-  ask?: number;
-  last?: number;
-  timestamp: number;
-  exchange?: string;
+export async function completeIdempotencyKey(
+  scope: string,
+  key: string,
+  record: IdempotencyRecord
+): Promise<void> {
+  const client = getRedisClient();
+  await client.set(idempotencyKey(scope, key), JSON.stringify(record), "KEEPTTL");
+}
+
+// Move an "unknown" record with the same fingerprint back to "pending" so
+// exactly one retry resumes it
+const RESUME_IDEMPOTENCY_KEY_SCRIPT = `
+local value = redis.call("GET", KEYS[1])
+if not value then
+  return 0
+end
+local record = cjson.decode(value)
+if record.state ~= "unknown" or record.fingerprint ~= ARGV[1] then
+  return 0
+end
+record.state = "pending"
+redis.call("SET", KEYS[1], cjson.encode(record), "KEEPTTL")
+return 1
+`;
+
+/**
+ * Claim an "unknown" key again for a retry of the same request
+ * Returns false when another retry got there first or the record changed
+ */
+export async function resumeIdempotencyKey(
+  scope: string,
+  key: string,
+  fingerprint: string
+): Promise<boolean> {
+  const client = getRedisClient();
+  const resumed = await client.eval(
+    RESUME_IDEMPOTENCY_KEY_SCRIPT,
+    1,
+    idempotencyKey(scope, key),
+    fingerprint
+  );
+  return resumed === 1;
 }
 
 /**
@@ -549,6 +1634,27 @@ export async function getMarketPrice(
   }
 }
 
+/**
+ * Get the mid price published by the bot for a venue symbol
+ * Key format: hypotomuai:{exchange}:price:{symbol}
+ * OKX stores a MarketPrice JSON object, AsterDex the bare number
+ */
+export async function getMidPrice(
+  exchange: string,
+  symbol: string
+): Promise<number | null> {
+  const client = getRedisClient();
+  const value = await client.get(`hypotomuai:${exchange}:price:${symbol}`);
+
+  if (!value) {
+    return null;
+  }
+
+  const parsed = JSON.parse(value);
+  const price = typeof parsed === "number" ? parsed : Number(parsed?.price);
+  return price > 0 ? price : null;
+}
+
 /**
  * Batch get grid levels for multiple symbols in parallel
  * Much faster than calling getGridLevels multiple times sequentially
@@ -557,10 +1663,10 @@ export async function batchGetGridLevels(
   accountId: string,
   symbols: string[],
   side: "buy" | "sell"
-): Promise<Map<string, GridLevel[]>> {
+): Promise<Map<string, StoredGridLevel[]>> {
   const client = getRedisClient();
   const sideUpper = side.toUpperCase();
-  const results = new Map<string, GridLevel[]>();
+  const results = new Map<string, StoredGridLevel[]>();
 
   // Create pipeline for batch operations
   const pipeline = client.pipeline();
@@ -599,7 +1705,7 @@ export async function batchGetGridLevels(
       }
 
       // Convert hash to array of grid levels, sorted by level number
-      const levels: GridLevel[] = [];
+      const levels: StoredGridLevel[] = [];
       const levelKeys = Object.keys(data).sort((a, b) => {
         const numA = parseInt(a.split("_")[1]);
         const numB = parseInt(b.split("_")[1]);
@@ -609,7 +1715,7 @@ export async function batchGetGridLevels(
       for (const levelKey of levelKeys) {
         try {
           const levelData = JSON.parse((data as any)[levelKey]);
-          levels.push(levelData);
+          levels.push({ ...levelData, field: levelKey });
         } catch (e) {
           console.error(
             `Error parsing grid level ${levelKey} for ${symbol}:`,
@@ -635,7 +1741,7 @@ export async function getGridLevelsBothSides(
   accountId: string,
   symbol: string,
   exchange: string = "asterdex"
-): Promise<{ buy: GridLevel[]; sell: GridLevel[] }> {
+): Promise<{ buy: StoredGridLevel[]; sell: StoredGridLevel[] }> {
   const [buy, sell] = await Promise.all([
     getGridLevels(accountId, symbol, "buy", exchange),
     getGridLevels(accountId, symbol, "sell", exchange),
@@ -652,9 +1758,9 @@ export async function batchGetGridLevelsBothSides(
   accountId: string,
   symbols: string[],
   exchange: string = "asterdex"
-): Promise<Map<string, { buy: GridLevel[]; sell: GridLevel[] }>> {
+): Promise<Map<string, { buy: StoredGridLevel[]; sell: StoredGridLevel[] }>> {
   const client = getRedisClient();
-  const results = new Map<string, { buy: GridLevel[]; sell: GridLevel[] }>();
+  const results = new Map<string, { buy: StoredGridLevel[]; sell: StoredGridLevel[] }>();
 
   if (symbols.length === 0) {
     return results;
@@ -683,12 +1789,12 @@ export async function batchGetGridLevelsBothSides(
       const buyResult = pipelineResults[i * 2];
       const sellResult = pipelineResults[i * 2 + 1];
 
-      const parseLevels = (result: [Error | null, unknown] | undefined): GridLevel[] => {
+      const parseLevels = (result: [Error | null, unknown] | undefined): StoredGridLevel[] => {
         if (!result) return [];
         const [error, data] = result;
         if (error || !data || Object.keys(data as object).length === 0) return [];
 
-        const levels: GridLevel[] = [];
+        const levels: StoredGridLevel[] = [];
         const levelKeys = Object.keys(data as object).sort((a, b) => {
           const numA = parseInt(a.split("_")[1]);
           const numB = parseInt(b.split("_")[1]);
@@ -698,7 +1804,7 @@ export async function batchGetGridLevelsBothSides(
         for (const levelKey of levelKeys) {
           try {
             const levelData = JSON.parse((data as Record<string, string>)[levelKey]);
-            levels.push(levelData);
+            levels.push({ ...levelData, field: levelKey });
           } catch (e) {
             // Skip invalid levels
           }
@@ -731,6 +1837,28 @@ export interface AccountBalance {
   updateTime: number;
 }
 
+/**
+ * Store latest account balance snapshot for an account
+ * Key format: hypotom-monitor:account:{accountId}:latest
+ */
+export async function storeAccountBalance(
+  accountId: string,
+  balance: AccountBalance
+): Promise<void> {
+  const client = getRedisClient();
+  const key = `hypotom-monitor:account:${accountId}:latest`;
+
+  // Store with 7 days TTL (in seconds)
+  await client.setex(
+    key,
+    7 * 24 * 60 * 60,
+    JSON.stringify({
+      timestamp: Date.now(),
+      data: balance,
+    })
+  );
+}
+
 /**
  * Get latest account balance snapshot for an account
  * Key format: hypotom-monitor:account:{accountId}:latest
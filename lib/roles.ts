@@ -0,0 +1,21 @@
+/**
+ * Dashboard roles, lowest to highest
+ * - viewer: read-only dashboard, account detail and history pages
+ * - trader: also places/closes/cancels orders and edits grids and bot controls
+ * - admin: also runs the kill switch and reads the audit log
+ * Shared by the server (route checks) and the client (hiding actions).
+ */
+export const ROLES = ["viewer", "trader", "admin"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export function isRole(value: unknown): value is Role {
+  return (ROLES as readonly unknown[]).includes(value);
+}
+
+/**
+ * Whether a role grants at least the required role
+ */
+export function hasRole(role: string | null | undefined, required: Role): boolean {
+  return isRole(role) && ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
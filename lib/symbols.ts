@@ -0,0 +1,145 @@
+import type { ExchangeClient, ExchangeId, Instrument } from "./exchange";
+
+/**
+ * Symbol and instrument registry
+ *
+ * Canonical symbols are the keys used across the dashboard, Directus
+ * `trading_symbols` and the Redis grid/state keys:
+ *   linear perpetual:        {BASE}{QUOTE}     e.g. BTCUSDT, ETHUSDC
+ *   coin-margined perpetual: {BASE}USD_PERP    e.g. BTCUSD_PERP
+ *
+ * Venue IDs:
+ *   OKX:      {BASE}-{QUOTE}-SWAP              e.g. BTC-USDT-SWAP, BTC-USD-SWAP
+ *   AsterDex: same as canonical
+ */
+
+export type ContractType = "linear" | "inverse";
+
+export interface SymbolSpec {
+  base: string;
+  quote: string;
+  contractType: ContractType;
+}
+
+// Longest first so that USDT/USDC win over USD when matching suffixes
+const QUOTE_ASSETS = ["USDT", "USDC", "USD"];
+
+/**
+ * Parse a canonical or venue-native symbol
+ * Returns null when the format is not recognized
+ */
+export function parseSymbol(symbol: string): SymbolSpec | null {
+  const upper = symbol.trim().toUpperCase();
+
+  // OKX format: BTC-USDT-SWAP / BTC-USD-SWAP
+  if (upper.includes("-")) {
+    const [base, quote] = upper.split("-");
+    if (!base || !QUOTE_ASSETS.includes(quote)) return null;
+    return { base, quote, contractType: quote === "USD" ? "inverse" : "linear" };
+  }
+
+  // Coin-margined format: BTCUSD_PERP
+  if (upper.endsWith("_PERP")) {
+    const pair = upper.replace("_PERP", "");
+    if (!pair.endsWith("USD")) return null;
+    return { base: pair.slice(0, -3), quote: "USD", contractType: "inverse" };
+  }
+
+  // Slash format: BTC/USDT
+  if (upper.includes("/")) {
+    const [base, quote] = upper.split("/");
+    if (!base || !QUOTE_ASSETS.includes(quote)) return null;
+    return { base, quote, contractType: quote === "USD" ? "inverse" : "linear" };
+  }
+
+  // Concatenated format: BTCUSDT / BTCUSDC / BTCUSD
+  for (const quote of QUOTE_ASSETS) {
+    if (upper.endsWith(quote) && upper.length > quote.length) {
+      return {
+        base: upper.slice(0, -quote.length),
+        quote,
+        contractType: quote === "USD" ? "inverse" : "linear",
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Convert any supported symbol format to its canonical form
+ * Unrecognized symbols are returned unchanged
+ */
+export function toCanonicalSymbol(symbol: string | SymbolSpec): string {
+  const spec = typeof symbol === "string" ? parseSymbol(symbol) : symbol;
+  if (!spec) return symbol as string;
+
+  return spec.contractType === "inverse"
+    ? `${spec.base}USD_PERP`
+    : `${spec.base}${spec.quote}`;
+}
+
+/**
+ * Convert any supported symbol format to the venue's native instrument ID
+ * Unrecognized symbols are returned unchanged
+ */
+export function toVenueSymbol(
+  symbol: string | SymbolSpec,
+  exchange: ExchangeId
+): string {
+  const spec = typeof symbol === "string" ? parseSymbol(symbol) : symbol;
+  if (!spec) return symbol as string;
+
+  if (exchange === "okx") {
+    return `${spec.base}-${spec.quote}-SWAP`;
+  }
+  return toCanonicalSymbol(spec);
+}
+
+// In-memory instrument registry, keyed by {exchange}:{canonical symbol}
+interface RegistryEntry {
+  instrument: Instrument;
+  timestamp: number;
+}
+
+const instrumentRegistry = new Map<string, RegistryEntry>();
+const REGISTRY_TTL = 3600000; // 1 hour in milliseconds
+
+function registryKey(exchange: ExchangeId, symbol: string): string {
+  return `${exchange}:${toCanonicalSymbol(symbol)}`;
+}
+
+/**
+ * Add or replace instruments in the registry
+ */
+function registerInstruments(instruments: Instrument[]): void {
+  const now = Date.now();
+  for (const instrument of instruments) {
+    instrumentRegistry.set(registryKey(instrument.exchange, instrument.symbol), {
+      instrument,
+      timestamp: now,
+    });
+  }
+}
+
+/**
+ * Get trading rules (tick size, lot size, contract value) for a symbol
+ * Served from the registry when fresh, otherwise fetched through the client
+ */
+export async function getInstrument(
+  client: ExchangeClient,
+  symbol: string
+): Promise<Instrument | null> {
+  const key = registryKey(client.exchange, symbol);
+  const cached = instrumentRegistry.get(key);
+
+  if (cached && Date.now() - cached.timestamp < REGISTRY_TTL) {
+    return cached.instrument;
+  }
+
+  const instrument = await client.fetchInstrument(symbol);
+  if (instrument) {
+    registerInstruments([instrument]);
+  }
+  return instrument;
+}
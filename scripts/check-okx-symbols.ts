@@ -5,6 +5,7 @@
  */
 
 import { fetchItems } from "../lib/directus";
+import { parseSymbol, toVenueSymbol } from "../lib/symbols";
 
 interface Account {
   id: string;
@@ -14,41 +15,20 @@ interface Account {
   status: string;
 }
 
-// Symbol format validation
-const SYMBOL_FORMATS = {
-  okx: /^[A-Z]+-USDT-SWAP$/,        // e.g., ETH-USDT-SWAP
-  asterdex: /^[A-Z]+USDT$/,          // e.g., ETHUSDT
-};
-
-// Common symbol mappings
-const SYMBOL_MAPPINGS: Record<string, { okx: string; asterdex: string }> = {
-  ETH: { okx: "ETH-USDT-SWAP", asterdex: "ETHUSDT" },
-  BTC: { okx: "BTC-USDT-SWAP", asterdex: "BTCUSDT" },
-  SOL: { okx: "SOL-USDT-SWAP", asterdex: "SOLUSDT" },
-  BNB: { okx: "BNB-USDT-SWAP", asterdex: "BNBUSDT" },
-  PUMP: { okx: "PUMP-USDT-SWAP", asterdex: "PUMPUSDT" },
-  ASTER: { okx: "ASTER-USDT-SWAP", asterdex: "ASTERUSDT" },
-};
-
 function validateSymbol(symbol: string, exchange: string): boolean {
-  const format = SYMBOL_FORMATS[exchange as keyof typeof SYMBOL_FORMATS];
-  if (!format) {
+  if (exchange !== "okx" && exchange !== "asterdex") {
     console.warn(`⚠️  Unknown exchange: ${exchange}`);
     return false;
   }
-  return format.test(symbol);
+  // Valid when the symbol is already the venue's native ID
+  return !!parseSymbol(symbol) && toVenueSymbol(symbol, exchange) === symbol;
 }
 
 function suggestCorrection(symbol: string, exchange: string): string | null {
-  // Try to extract base asset
-  const baseAsset = symbol.replace(/[-]?USDT[-]?SWAP?/, "").replace(/-/g, "");
-
-  const mapping = SYMBOL_MAPPINGS[baseAsset];
-  if (mapping) {
-    return mapping[exchange as keyof typeof mapping];
+  if (exchange !== "okx" && exchange !== "asterdex") {
+    return null;
   }
-
-  return null;
+  return parseSymbol(symbol) ? toVenueSymbol(symbol, exchange) : null;
 }
 
 async function checkSymbols() {
@@ -95,8 +75,8 @@ async function checkSymbols() {
     console.log("2. Edit each account with invalid symbols");
     console.log("3. Update the symbol field to the suggested format");
     console.log("\nSymbol Format Rules:");
-    console.log("  - OKX: Use hyphens (e.g., ETH-USDT-SWAP)");
-    console.log("  - AsterDex: No hyphens (e.g., ETHUSDT)");
+    console.log("  - OKX: Use hyphens (e.g., ETH-USDT-SWAP, ETH-USDC-SWAP, ETH-USD-SWAP)");
+    console.log("  - AsterDex: No hyphens (e.g., ETHUSDT, ETHUSDC, ETHUSD_PERP)");
   } else {
     console.log("\n✅ All symbols are valid!");
   }
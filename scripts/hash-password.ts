@@ -0,0 +1,21 @@
+/**
+ * Script to hash a dashboard user's password for the Directus `dashboard_users`
+ * collection (paste the output into password_hash)
+ *
+ * Run with: npx tsx scripts/hash-password.ts <password>
+ */
+
+import { hashPassword } from "../lib/auth";
+
+async function main() {
+  const password = process.argv[2];
+
+  if (!password) {
+    console.error("Usage: npx tsx scripts/hash-password.ts <password>");
+    process.exit(1);
+  }
+
+  console.log(await hashPassword(password));
+}
+
+main().catch(console.error);
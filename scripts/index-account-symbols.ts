@@ -0,0 +1,22 @@
+/**
+ * Script to add the symbols of existing grid hashes and bot state keys to the
+ * per-account symbol sets (hypotomuai:{exchange}:mmgrid:{grid|state}-symbols:{accountId}).
+ * Run once after deploying; writers keep the sets up to date from then on.
+ *
+ * Run with: npx tsx scripts/index-account-symbols.ts
+ */
+
+import { getRedisClient, indexAccountSymbols } from "../lib/redis";
+
+async function index() {
+  console.log("🔄 Indexing account symbols...\n");
+
+  const indexed = await indexAccountSymbols();
+
+  console.log(`✅ Grid hashes:  ${indexed.grids}`);
+  console.log(`✅ State keys:   ${indexed.states}`);
+}
+
+index()
+  .catch(console.error)
+  .finally(() => getRedisClient().quit());
@@ -0,0 +1,29 @@
+/**
+ * Script to import legacy per-timestamp snapshot keys into the sorted-set series
+ * (hypotom-monitor:series:{kind}:{accountId}). Runs once: a second run only
+ * reports the earlier migration unless --force is given.
+ *
+ * Run with: npx tsx scripts/migrate-snapshots.ts [--force]
+ */
+
+import { getRedisClient, migrateLegacySnapshots } from "../lib/redis";
+
+async function migrate() {
+  console.log("🔄 Migrating legacy snapshot keys...\n");
+
+  const migrated = await migrateLegacySnapshots(process.argv.includes("--force"));
+
+  if (!migrated) {
+    console.log("Already migrated (pass --force to run again)");
+    return;
+  }
+
+  console.log(`✅ Equity points:        ${migrated.equity}`);
+  console.log(`✅ Positions snapshots:  ${migrated.positions}`);
+  console.log(`✅ Orders snapshots:     ${migrated.orders}`);
+  console.log(`✅ Trade snapshots:      ${migrated.trades}`);
+}
+
+migrate()
+  .catch(console.error)
+  .finally(() => getRedisClient().quit());
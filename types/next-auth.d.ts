@@ -0,0 +1,20 @@
+import type { DefaultSession } from "next-auth";
+import type { Role } from "@/lib/roles";
+
+declare module "next-auth" {
+  interface Session {
+    user: DefaultSession["user"] & { role?: Role };
+  }
+
+  interface User {
+    role?: Role;
+  }
+}
+
+declare module "next-auth/jwt" {
+  interface JWT {
+    role?: Role;
+    // When the role was last read from Directus (ms)
+    roleCheckedAt?: number;
+  }
+}